@@ -0,0 +1,569 @@
+import { consola } from 'consola';
+import {
+  ActionRowBuilder,
+  AttachmentBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  Client,
+  Events,
+  GatewayIntentBits,
+  type Interaction,
+  type Message,
+  Partials,
+  type SendableChannels,
+} from 'discord.js';
+import type {
+  AudioMessageHandler,
+  ConfigField,
+  DiscordAdapterConfig,
+  IMAdapter,
+  IMImageAttachment,
+  InteractionHandler,
+  MessageContext,
+  MessageHandler,
+  ValidationResult,
+} from '../types';
+import { parseSlackBlocks, slackBlocksText } from './slack-blocks';
+
+interface DiscordButton {
+  action: string;
+  value: string;
+  label: string;
+  style?: string;
+}
+
+/**
+ * Discord adapter.
+ * Channels map to channelId and threads to threadTs: a mention in a server channel
+ * opens a thread on the message, replies in that thread continue the session.
+ * DMs have no threads and use one session per DM channel.
+ */
+export class DiscordAdapter implements IMAdapter {
+  readonly name = 'discord';
+  // Discord allows 2000 characters per message, longer output continues in a new one
+  readonly maxMessageBytes = 2000;
+  private config: DiscordAdapterConfig;
+  private client: Client;
+  private messageHandlers: MessageHandler[] = [];
+  private audioMessageHandlers: AudioMessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+  // Messages the bot sent (id -> message) so edits don't need a fetch
+  private sentMessages: Map<string, Message> = new Map();
+  // Button values too long for a custom_id (key -> value)
+  private buttonValues: Map<string, string> = new Map();
+  private nextButtonKey = 1;
+  // threadTs values that turned out to be messages rather than thread channels
+  private nonThreadIds: Set<string> = new Set();
+
+  // Throttle message edits, Discord rate limits them per channel
+  private lastUpdateTime: Map<string, number> = new Map();
+  private pendingUpdates: Map<string, string> = new Map();
+  private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private static readonly UPDATE_INTERVAL = 1000;
+  private static readonly MAX_CONTENT_LENGTH = 2000;
+  private static readonly MAX_SENT_MESSAGES = 200;
+  private static readonly MAX_BUTTON_VALUES = 500;
+  private static readonly MAX_CUSTOM_ID_LENGTH = 100;
+
+  constructor(config: DiscordAdapterConfig) {
+    this.config = config;
+    this.client = new Client({
+      intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.MessageContent,
+        GatewayIntentBits.DirectMessages,
+      ],
+      // DM channels aren't cached until the first message arrives
+      partials: [Partials.Channel],
+    });
+
+    this.setupEventHandlers();
+  }
+
+  async init(): Promise<void> {
+    // No initialization needed for Discord adapter
+  }
+
+  getConfigTemplate(): ConfigField[] {
+    return DiscordAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
+    return [
+      {
+        name: 'botToken',
+        type: 'string',
+        required: true,
+        description: 'Bot Token (Developer Portal > Bot > Reset Token)',
+        secret: true,
+      },
+    ];
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    return DiscordAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
+    const errors: string[] = [];
+    const c = config as Partial<DiscordAdapterConfig>;
+
+    if (!c.botToken) {
+      errors.push('Missing botToken');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  async start(): Promise<void> {
+    const ready = new Promise<void>((resolve) => {
+      this.client.once(Events.ClientReady, () => resolve());
+    });
+    await this.client.login(this.config.botToken);
+    await ready;
+
+    consola.success(`Discord adapter connected as ${this.client.user?.tag}`);
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.updateTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.updateTimers.clear();
+    this.pendingUpdates.clear();
+    this.lastUpdateTime.clear();
+
+    await this.client.destroy();
+    consola.debug('Discord adapter disconnected');
+  }
+
+  async sendMessage(channel: string, message: string, threadTs?: string): Promise<string> {
+    const { target, replyTo } = await this.resolveTarget(channel, threadTs);
+    const sent = await target.send({ content: this.formatContent(message), reply: replyTo });
+    this.rememberMessage(sent);
+    return sent.id;
+  }
+
+  async updateMessage(channel: string, messageTs: string, message: string): Promise<void> {
+    const now = Date.now();
+    const lastUpdate = this.lastUpdateTime.get(messageTs) || 0;
+    const timeSinceLastUpdate = now - lastUpdate;
+
+    // Within the throttle interval only the latest text is kept
+    if (timeSinceLastUpdate < DiscordAdapter.UPDATE_INTERVAL) {
+      this.pendingUpdates.set(messageTs, message);
+
+      if (!this.updateTimers.has(messageTs)) {
+        const timer = setTimeout(() => {
+          this.flushPendingUpdate(channel, messageTs);
+        }, DiscordAdapter.UPDATE_INTERVAL - timeSinceLastUpdate);
+        this.updateTimers.set(messageTs, timer);
+      }
+      return;
+    }
+
+    await this.doUpdateMessage(channel, messageTs, message);
+  }
+
+  private async flushPendingUpdate(channel: string, messageTs: string): Promise<void> {
+    const pendingMessage = this.pendingUpdates.get(messageTs);
+    this.pendingUpdates.delete(messageTs);
+    this.updateTimers.delete(messageTs);
+
+    if (pendingMessage) {
+      try {
+        await this.doUpdateMessage(channel, messageTs, pendingMessage);
+      } catch (error) {
+        consola.warn('Failed to update Discord message:', error);
+      }
+    }
+  }
+
+  private async doUpdateMessage(
+    channel: string,
+    messageTs: string,
+    message: string
+  ): Promise<void> {
+    this.lastUpdateTime.set(messageTs, Date.now());
+
+    let target = this.sentMessages.get(messageTs);
+    if (!target) {
+      // Not sent by this process (e.g. before a restart): the id alone doesn't say which thread it is in
+      const sendable = await this.getSendableChannel(channel);
+      target = await sendable.messages.fetch(messageTs);
+    }
+
+    // Like a Slack text update, this replaces a card's buttons
+    const edited = await target.edit({ content: this.formatContent(message), components: [] });
+    this.rememberMessage(edited);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  onAudioMessage(handler: AudioMessageHandler): void {
+    this.audioMessageHandlers.push(handler);
+  }
+
+  private setupEventHandlers(): void {
+    this.client.on(Events.MessageCreate, (message) => {
+      this.handleMessage(message).catch((error) =>
+        consola.error('[discord:message] handler error:', error)
+      );
+    });
+
+    this.client.on(Events.InteractionCreate, (interaction) => {
+      this.handleInteraction(interaction).catch((error) =>
+        consola.error('[discord:interaction] handler error:', error)
+      );
+    });
+
+    this.client.on(Events.Error, (error) => {
+      consola.error('Discord client error:', error);
+    });
+  }
+
+  private async handleMessage(message: Message): Promise<void> {
+    if (message.author.bot) return;
+
+    const botId = this.client.user?.id;
+    const isDM = message.channel.type === ChannelType.DM;
+    const isMention = !!botId && message.mentions.users.has(botId);
+    // Replies in threads the bot opened continue the conversation without a mention
+    const isOwnThread = message.channel.isThread() && message.channel.ownerId === botId;
+
+    if (!isDM && !isMention && !isOwnThread) return;
+
+    consola.info(
+      `[discord:message] user=${message.author.id} channel=${message.channelId} isDM=${isDM} text="${message.content.slice(0, 50)}"`
+    );
+
+    const text = message.content.replace(/<@[!&]?\d+>/g, '').trim();
+    const context = await this.getMessageContext(message, text);
+
+    const images: IMImageAttachment[] = [];
+    for (const attachment of message.attachments.values()) {
+      const contentType = attachment.contentType || '';
+
+      // Audio (voice messages included) goes to transcription instead of Claude
+      if (contentType.startsWith('audio/') || contentType.startsWith('video/')) {
+        try {
+          const audioBuffer = await this.downloadFile(attachment.url);
+          for (const handler of this.audioMessageHandlers) {
+            await handler({ audioBuffer, mimeType: contentType, context });
+          }
+        } catch (error) {
+          consola.error('Failed to download audio attachment:', error);
+        }
+        return;
+      }
+
+      if (contentType.startsWith('image/')) {
+        try {
+          images.push({
+            buffer: await this.downloadFile(attachment.url),
+            filename: attachment.name || `image-${attachment.id}.png`,
+            mimetype: contentType,
+          });
+        } catch (error) {
+          consola.error('Failed to download image attachment:', error);
+        }
+      }
+    }
+
+    if (!text && images.length === 0) return;
+
+    for (const handler of this.messageHandlers) {
+      await handler({ text, context, images: images.length > 0 ? images : undefined });
+    }
+  }
+
+  /**
+   * Work out where a message belongs, opening a thread for a new server-channel conversation
+   */
+  private async getMessageContext(message: Message, text: string): Promise<MessageContext> {
+    const context: MessageContext = {
+      channelId: message.channelId,
+      userId: message.author.id,
+      messageTs: message.id,
+    };
+
+    if (message.channel.isThread()) {
+      context.channelId = message.channel.parentId || message.channelId;
+      context.threadTs = message.channelId;
+    } else if (message.inGuild()) {
+      try {
+        const thread = await message.startThread({
+          name: (text || 'Heimerdinger').slice(0, 90),
+        });
+        context.threadTs = thread.id;
+      } catch (error) {
+        // Missing "Create Public Threads" permission: reply in the channel
+        consola.warn('Failed to start Discord thread:', error);
+      }
+    }
+
+    return context;
+  }
+
+  private async handleInteraction(interaction: Interaction): Promise<void> {
+    if (!interaction.isButton()) return;
+
+    await interaction.deferUpdate();
+
+    const separator = interaction.customId.indexOf('|');
+    const action = interaction.customId.slice(0, separator);
+    const encoded = interaction.customId.slice(separator + 1);
+    const value = encoded.startsWith('#') ? this.buttonValues.get(encoded) || '' : encoded;
+
+    consola.debug(`Discord action received: ${action} = ${value}`);
+
+    const channel = interaction.channel;
+    const context: MessageContext = {
+      channelId: interaction.channelId || '',
+      userId: interaction.user.id,
+      messageTs: interaction.message.id,
+    };
+    if (channel?.isThread()) {
+      context.channelId = channel.parentId || channel.id;
+      context.threadTs = channel.id;
+    }
+
+    for (const handler of this.interactionHandlers) {
+      await handler(action, value, context);
+    }
+  }
+
+  /**
+   * Buttons become Discord button components
+   */
+  async sendInteractiveMessage(
+    channel: string,
+    text: string,
+    blocks: unknown[],
+    threadTs?: string
+  ): Promise<string> {
+    const parts = parseSlackBlocks(blocks);
+    const texts = slackBlocksText(parts);
+    const buttons: DiscordButton[] = parts.flatMap((part) =>
+      part.buttons.map(({ action, value, label, style }) => ({ action, value, label, style }))
+    );
+
+    return this.sendWithButtons(channel, texts.join('\n') || text, buttons, threadTs);
+  }
+
+  async sendPermissionCard(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
+  ): Promise<string> {
+    const inputStr = JSON.stringify(toolInput, null, 2).slice(0, 500);
+
+    return this.sendWithButtons(
+      channel,
+      `⚠️ **Permission Request**\nClaude wants to use **${toolName}**\n\`\`\`${inputStr}\`\`\``,
+      [
+        { action: 'permission_approve', value: requestId, label: '✅ Allow', style: 'primary' },
+        { action: 'permission_deny', value: requestId, label: '❌ Deny', style: 'danger' },
+      ],
+      threadTs
+    );
+  }
+
+  /**
+   * Send a project selection card: the paths are listed in the text, one numbered button each
+   */
+  async sendProjectSelectionCard(
+    channel: string,
+    projects: Array<{ name: string; path: string }>,
+    pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string> {
+    // 5 rows of 5 buttons at most
+    const shown = projects.slice(0, 20);
+    const lines = shown.map((project, index) => `**${index + 1}.** \`${project.path}\``);
+
+    if (projects.length > shown.length) {
+      lines.push(`_...and ${projects.length - shown.length} more projects_`);
+    }
+    if (pendingPrompt && !pendingPrompt.startsWith('Current:')) {
+      lines.push(
+        `Your message: _"${pendingPrompt.slice(0, 100)}${pendingPrompt.length > 100 ? '...' : ''}"_`
+      );
+    }
+
+    return this.sendWithButtons(
+      channel,
+      `**Please select a project to work with:**\n${lines.join('\n')}`,
+      shown.map((project, index) => ({
+        action: 'select_project',
+        value: project.path,
+        label: `${index + 1}. ${project.name}`,
+      })),
+      threadTs
+    );
+  }
+
+  /**
+   * Upload a code snippet as a file attachment
+   */
+  async uploadSnippet(
+    channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    try {
+      const { target, replyTo } = await this.resolveTarget(channel, options.threadTs);
+      const attachment = new AttachmentBuilder(Buffer.from(content, 'utf-8'), {
+        name: options.filename || 'snippet.txt',
+        description: options.title,
+      });
+
+      await target.send({
+        content: options.initialComment ? this.formatContent(options.initialComment) : undefined,
+        files: [attachment],
+        reply: replyTo,
+      });
+    } catch (error) {
+      consola.error('Failed to upload snippet:', error);
+    }
+  }
+
+  private async sendWithButtons(
+    channel: string,
+    text: string,
+    buttons: DiscordButton[],
+    threadTs?: string
+  ): Promise<string> {
+    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+
+    // Discord allows 5 rows of 5 buttons per message
+    for (let i = 0; i < Math.min(buttons.length, 25); i += 5) {
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          buttons.slice(i, i + 5).map((button) =>
+            new ButtonBuilder()
+              .setCustomId(this.encodeCustomId(button.action, button.value))
+              .setLabel(button.label.slice(0, 80))
+              .setStyle(
+                button.style === 'primary'
+                  ? ButtonStyle.Primary
+                  : button.style === 'danger'
+                    ? ButtonStyle.Danger
+                    : ButtonStyle.Secondary
+              )
+          )
+        )
+      );
+    }
+
+    const { target, replyTo } = await this.resolveTarget(channel, threadTs);
+    const sent = await target.send({
+      content: this.formatContent(text),
+      components: rows,
+      reply: replyTo,
+    });
+    this.rememberMessage(sent);
+    return sent.id;
+  }
+
+  /**
+   * Pack action and value into a custom_id, keeping long values (e.g. project paths) in memory
+   */
+  private encodeCustomId(action: string, value: string): string {
+    const customId = `${action}|${value}`;
+    if (customId.length <= DiscordAdapter.MAX_CUSTOM_ID_LENGTH && !value.startsWith('#')) {
+      return customId;
+    }
+
+    const key = `#${this.nextButtonKey++}`;
+    this.buttonValues.set(key, value);
+    if (this.buttonValues.size > DiscordAdapter.MAX_BUTTON_VALUES) {
+      const oldest = this.buttonValues.keys().next().value;
+      if (oldest) this.buttonValues.delete(oldest);
+    }
+    return `${action}|${key}`;
+  }
+
+  /**
+   * Where to post for a channel/thread pair. DMs have no threads, there threadTs is the
+   * message the conversation hangs off and the post becomes a reply to it.
+   */
+  private async resolveTarget(
+    channel: string,
+    threadTs?: string
+  ): Promise<{ target: SendableChannels; replyTo?: { messageReference: string } }> {
+    if (threadTs && threadTs !== channel && !this.nonThreadIds.has(threadTs)) {
+      try {
+        return { target: await this.getSendableChannel(threadTs) };
+      } catch {
+        this.nonThreadIds.add(threadTs);
+      }
+    }
+
+    return {
+      target: await this.getSendableChannel(channel),
+      replyTo: threadTs && threadTs !== channel ? { messageReference: threadTs } : undefined,
+    };
+  }
+
+  private async getSendableChannel(channelId: string): Promise<SendableChannels> {
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel?.isSendable()) {
+      throw new Error(`Discord channel ${channelId} is not a text channel`);
+    }
+    return channel;
+  }
+
+  private rememberMessage(message: Message): void {
+    this.sentMessages.delete(message.id);
+    this.sentMessages.set(message.id, message);
+    if (this.sentMessages.size > DiscordAdapter.MAX_SENT_MESSAGES) {
+      const oldest = this.sentMessages.keys().next().value;
+      if (oldest) this.sentMessages.delete(oldest);
+    }
+  }
+
+  /**
+   * Convert the processor's Slack mrkdwn and fit Discord's 2000 character limit,
+   * keeping the end of long output since that's where streaming text grows
+   */
+  private formatContent(text: string): string {
+    // Slack uses *bold* and <url|text>, Discord uses **bold** and [text](url)
+    let result = text.replace(/(?<![*\w])\*([^*\n]+)\*(?![*\w])/g, '**$1**');
+    result = result.replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '[$2]($1)');
+
+    if (result.length > DiscordAdapter.MAX_CONTENT_LENGTH) {
+      result = `…${result.slice(-(DiscordAdapter.MAX_CONTENT_LENGTH - 1))}`;
+    }
+    // Discord rejects empty content
+    return result || '\u200b';
+  }
+
+  private async downloadFile(url: string): Promise<Buffer> {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
@@ -0,0 +1,286 @@
+import { afterEach, describe, expect, jest, test } from 'bun:test';
+import { type Server, type Socket, createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { EmailAdapterConfig, IMMessage } from '../types';
+import { EmailAdapter } from './email';
+
+let smtp: Server | null = null;
+let imap: Server | null = null;
+let adapter: EmailAdapter | null = null;
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await adapter?.stop();
+  smtp?.close();
+  imap?.close();
+  smtp = null;
+  imap = null;
+  adapter = null;
+});
+
+// Stand-in SMTP server that keeps the DATA of every mail
+async function startSmtp(mails: string[]): Promise<number> {
+  smtp = createServer((socket: Socket) => {
+    let data: string | null = null;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      if (data !== null) {
+        data += chunk.toString();
+        if (data.endsWith('\r\n.\r\n')) {
+          mails.push(data);
+          data = null;
+          socket.write('250 queued\r\n');
+        }
+        return;
+      }
+      for (const line of chunk.toString().split('\r\n').filter(Boolean)) {
+        const command = line.split(' ')[0].toUpperCase();
+        if (command === 'EHLO') socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+        else if (command === 'AUTH') socket.write('235 ok\r\n');
+        else if (command === 'DATA') {
+          data = '';
+          socket.write('354 go\r\n');
+        } else if (command === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => smtp?.listen(0, '127.0.0.1', resolve));
+  return (smtp.address() as AddressInfo).port;
+}
+
+// Stand-in IMAP server with just what the adapter uses. A mail's UID is its position
+// in the inbox, and mail delivered while connected is announced with EXISTS.
+async function startImap() {
+  const inbox: Array<{ source: string; seen: boolean }> = [];
+  const sockets = new Set<Socket>();
+  const uids = (set: string) =>
+    set.split(',').flatMap((range) => {
+      const [from, to = from] = range.split(':').map((n) => (n === '*' ? inbox.length : Number(n)));
+      return inbox.map((_, i) => i + 1).filter((uid) => uid >= from && uid <= to);
+    });
+
+  imap = createServer((socket: Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.write('* OK [CAPABILITY IMAP4rev1] ready\r\n');
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      for (let end = buffer.indexOf('\r\n'); end !== -1; end = buffer.indexOf('\r\n')) {
+        const [tag, ...args] = buffer.slice(0, end).split(' ');
+        buffer = buffer.slice(end + 2);
+        const command = args.slice(0, args[0]?.toUpperCase() === 'UID' ? 2 : 1).join(' ');
+
+        switch (command.toUpperCase()) {
+          case 'SELECT':
+            socket.write(`* ${inbox.length} EXISTS\r\n* OK [UIDVALIDITY 1] ok\r\n`);
+            break;
+          case 'UID SEARCH': {
+            const unseen = inbox.flatMap((mail, i) => (mail.seen ? [] : [i + 1]));
+            socket.write(`* SEARCH ${unseen.join(' ')}\r\n`);
+            break;
+          }
+          case 'UID FETCH':
+            for (const uid of uids(args[2])) {
+              const source = inbox[uid - 1].source;
+              socket.write(`* ${uid} FETCH (UID ${uid} BODY[] {${Buffer.byteLength(source)}}\r\n`);
+              socket.write(`${source})\r\n`);
+            }
+            break;
+          case 'UID STORE':
+            for (const uid of uids(args[2])) inbox[uid - 1].seen = true;
+            break;
+          case 'LOGOUT':
+            socket.end(`* BYE\r\n${tag} OK bye\r\n`);
+            return;
+        }
+        socket.write(`${tag} OK done\r\n`);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => imap?.listen(0, '127.0.0.1', resolve));
+
+  const deliver = (source: string) => {
+    inbox.push({ source, seen: false });
+    for (const socket of sockets) socket.write(`* ${inbox.length} EXISTS\r\n`);
+  };
+  return { port: (imap.address() as AddressInfo).port, deliver };
+}
+
+let mailCount = 0;
+function mail(headers: string[], body: string, subject = 'Fix the build'): string {
+  return [
+    ...headers,
+    'From: Me <me@example.com>',
+    'To: bot@example.com',
+    `Subject: ${subject}`,
+    `Message-ID: <m${++mailCount}-test@example.com>`,
+    '',
+    body,
+  ].join('\r\n');
+}
+
+async function createAdapter(config: Partial<EmailAdapterConfig> = {}) {
+  const mails: string[] = [];
+  const smtpPort = await startSmtp(mails);
+  const { port: imapPort, deliver } = await startImap();
+  const created = new EmailAdapter({
+    enabled: true,
+    address: 'bot@example.com',
+    password: 'secret',
+    imapHost: '127.0.0.1',
+    imapPort,
+    smtpHost: '127.0.0.1',
+    smtpPort,
+    secure: false,
+    allowedSenders: ['me@example.com'],
+    authServId: 'mx.example.com',
+    ...config,
+  });
+  adapter = created;
+  const messages: IMMessage[] = [];
+  created.onMessage(async (message) => {
+    messages.push(message);
+  });
+  return { adapter: created, mails, messages, deliver };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+// Mail waits for follow-up messages before it's sent
+async function settle(mails: string[], count: number): Promise<void> {
+  jest.advanceTimersByTime(5000);
+  jest.useRealTimers();
+  await waitFor(() => mails.length >= count);
+}
+
+const dmarcPass = 'Authentication-Results: mx.example.com; dmarc=pass header.from=example.com';
+
+describe('EmailAdapter', () => {
+  describe('isSenderAuthenticated', () => {
+    test('accepts DMARC or aligned DKIM passes', () => {
+      const check = (header: string) =>
+        EmailAdapter.isSenderAuthenticated([header], 'me@mail.example.com', 'mx');
+      expect(check('mx; dmarc=pass (p=reject) header.from=mail.example.com')).toBe(true);
+      expect(check('mx; spf=fail; dkim=pass header.d=example.com')).toBe(true);
+      expect(check('mx; dkim=pass header.i=@example.com')).toBe(true);
+    });
+
+    test('rejects failures and unaligned signatures', () => {
+      const check = (header: string) =>
+        EmailAdapter.isSenderAuthenticated([header], 'me@example.com', 'mx');
+      expect(check('mx; dmarc=fail header.from=example.com')).toBe(false);
+      expect(check('mx; dmarc=pass header.from=evil.com')).toBe(false);
+      expect(check('mx; dkim=pass header.d=evil.com')).toBe(false);
+      expect(check('mx; dkim=pass header.d=notexample.com')).toBe(false);
+      expect(check('mx; spf=pass smtp.mailfrom=example.com')).toBe(false);
+    });
+
+    test("only trusts the receiving server's header", () => {
+      const forged = 'evil; dmarc=pass header.from=example.com';
+      const real = 'mx.example.com; dmarc=fail header.from=example.com';
+      const check = (results: string[], authServId?: string) =>
+        EmailAdapter.isSenderAuthenticated(results, 'me@example.com', authServId);
+      expect(check([forged, real], 'mx.example.com')).toBe(false);
+      expect(check([forged], 'mx.example.com')).toBe(false);
+      // The topmost header may be forged too
+      expect(check([forged])).toBe(false);
+      expect(check([], 'mx.example.com')).toBe(false);
+    });
+  });
+
+  test('strips quoted replies and signatures', () => {
+    expect(EmailAdapter.stripQuoted('Go ahead\n\nOn Mon, 1 Jan 2024, Bot wrote:\n> old text')).toBe(
+      'Go ahead'
+    );
+    expect(EmailAdapter.stripQuoted('Looks good\n-- \nMe')).toBe('Looks good');
+    expect(EmailAdapter.stripQuoted('yes\n\n-----Original Message-----\nFrom: bot')).toBe('yes');
+    expect(EmailAdapter.stripQuoted('> only a quote')).toBe('');
+  });
+
+  test('refuses to start without a way to verify senders', async () => {
+    const { adapter } = await createAdapter({ authServId: undefined });
+    await expect(adapter.start()).rejects.toThrow('authServId or subjectToken');
+
+    const config = { address: 'bot@example.com', password: 'p', imapHost: 'i', smtpHost: 's' };
+    const validate = (extra: Partial<EmailAdapterConfig>) =>
+      EmailAdapter.validateConfig({ ...config, allowedSenders: 'me@example.com', ...extra }).valid;
+    expect(validate({})).toBe(false);
+    expect(validate({ authServId: 'mx.example.com' })).toBe(true);
+    expect(validate({ subjectToken: '[k3y]' })).toBe(true);
+  });
+
+  test('ignores mail that failed sender authentication', async () => {
+    const { adapter, messages, deliver } = await createAdapter();
+    deliver(mail(['Authentication-Results: evil; dmarc=pass header.from=example.com'], 'rm -rf'));
+    deliver(mail([], 'rm -rf'));
+    deliver(mail([dmarcPass], 'run the tests'));
+
+    await adapter.start();
+    await waitFor(() => messages.length > 0);
+
+    expect(messages.map((m) => m.text)).toEqual(['run the tests']);
+    expect(messages[0].context).toMatchObject({ channelId: 'me@example.com' });
+  });
+
+  test('accepts a subject token instead', async () => {
+    const { adapter, messages, deliver } = await createAdapter({
+      authServId: undefined,
+      subjectToken: '[k3y]',
+    });
+    deliver(mail([], ''));
+    deliver(mail([], '', '[k3y] deploy it'));
+
+    await adapter.start();
+    await waitFor(() => messages.length > 0);
+
+    expect(messages.map((m) => m.text)).toEqual(['deploy it']);
+  });
+
+  test('answers cards with reply keywords', async () => {
+    const { adapter, deliver } = await createAdapter();
+    const actions: string[] = [];
+    adapter.onInteraction(async (action, value) => {
+      actions.push(`${action}=${value}`);
+    });
+    await adapter.start();
+
+    await adapter.sendPermissionCard('me@example.com', 'req1', 'Bash', {}, '<m1@example.com>');
+    deliver(
+      mail(
+        [dmarcPass, 'In-Reply-To: <m1@example.com>', 'References: <m1@example.com>'],
+        'approve\n\nOn Mon, Bot wrote:\n> DENY'
+      )
+    );
+    await waitFor(() => actions.length > 0);
+
+    expect(actions).toEqual(['permission_approve=req1']);
+  });
+
+  test('mails finished messages and holds running ones', async () => {
+    const { adapter, mails } = await createAdapter();
+    await adapter.start();
+
+    jest.useFakeTimers();
+    const statusTs = await adapter.sendMessage('me@example.com', '🔄 Continuing...', 't1', {
+      runState: 'running',
+    });
+    await adapter.sendMessage('me@example.com', 'A note', 't1');
+    await settle(mails, 1);
+
+    expect(mails).toHaveLength(1);
+    expect(mails[0]).toContain('A note');
+    expect(mails[0]).not.toContain('Continuing');
+
+    jest.useFakeTimers();
+    await adapter.updateMessage('me@example.com', statusTs, 'All done', { runState: 'done' });
+    await settle(mails, 2);
+    expect(mails).toHaveLength(2);
+    expect(mails[1]).toContain('All done');
+  });
+});
@@ -0,0 +1,733 @@
+import { consola } from 'consola';
+import { ImapFlow } from 'imapflow';
+import { type ParsedMail, simpleParser } from 'mailparser';
+import { type Transporter, createTransport } from 'nodemailer';
+import type {
+  AudioMessageHandler,
+  ConfigField,
+  EmailAdapterConfig,
+  IMAdapter,
+  IMImageAttachment,
+  InteractionHandler,
+  MessageContext,
+  MessageHandler,
+  MessageOptions,
+  ValidationResult,
+} from '../types';
+import { parseSlackBlocks, slackBlocksText } from './slack-blocks';
+
+// Replies not sent yet for one conversation
+interface Outgoing {
+  // Messages by ID; ones of running executions wait until they're finished
+  parts: Map<string, { text: string; inProgress: boolean }>;
+  attachments: Array<{ filename: string; content: string }>;
+  timer?: NodeJS.Timeout;
+}
+
+// Headers needed to reply into an email thread
+interface ThreadInfo {
+  subject: string;
+  references: string[];
+}
+
+// A reply keyword from the latest card of a conversation
+interface Choice {
+  keywords: string[];
+  label: string;
+  action: string;
+  value: string;
+  messageId: string;
+}
+
+/**
+ * Email adapter for long-running tasks. Mail is read over IMAP and answered over SMTP.
+ * The sender is the channel and the email thread (root Message-ID) is threadTs, so
+ * replying to a thread resumes its Claude session. Email can't be edited, so messages
+ * are held while they are in progress and a conversation's finished messages and diffs
+ * go out together as one reply. Card buttons become reply keywords such as APPROVE.
+ */
+export class EmailAdapter implements IMAdapter {
+  readonly name = 'email';
+  private config: EmailAdapterConfig;
+  private imap: ImapFlow | null = null;
+  private transport: Transporter | null = null;
+  private running = false;
+  private checking = false;
+  private recheck = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private messageHandlers: MessageHandler[] = [];
+  private audioMessageHandlers: AudioMessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+  private nextId = 1;
+
+  // Conversation key ("sender:threadTs") -> pending replies
+  private outbox: Map<string, Outgoing> = new Map();
+  // Message id -> conversation key, for updates
+  private messageKeys: Map<string, string> = new Map();
+  // Cards already mailed; their updates only echo the user's answer
+  private sentCards: Set<string> = new Set();
+  private cardIds: Set<string> = new Set();
+  private threads: Map<string, ThreadInfo> = new Map();
+  private choices: Map<string, Choice[]> = new Map();
+
+  private static readonly SETTLE_DELAY = 5000;
+  private static readonly RECONNECT_DELAY = 30000;
+  private static readonly MAX_TRACKED = 500;
+  private static readonly MAX_REFERENCES = 10;
+
+  // Reply keywords for card actions, other buttons are picked by number
+  private static readonly KEYWORDS: Record<string, string> = {
+    permission_approve: 'APPROVE',
+    permission_deny: 'DENY',
+    retry_with_permissions: 'RETRY',
+    cancel_retry: 'CANCEL',
+    git_confirm: 'CONFIRM',
+    git_cancel: 'CANCEL',
+    stop_execution: 'STOP',
+  };
+
+  constructor(config: EmailAdapterConfig) {
+    this.config = config;
+  }
+
+  async init(): Promise<void> {
+    const auth = { user: this.config.username || this.config.address, pass: this.config.password };
+
+    this.transport = createTransport({
+      host: this.config.smtpHost,
+      port: this.config.smtpPort || 465,
+      secure: this.config.secure ?? true,
+      auth,
+    });
+    await this.transport.verify();
+  }
+
+  getConfigTemplate(): ConfigField[] {
+    return EmailAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
+    return [
+      {
+        name: 'address',
+        type: 'string',
+        required: true,
+        description: 'Email address of the bot mailbox',
+      },
+      {
+        name: 'password',
+        type: 'string',
+        required: true,
+        description: 'Mailbox password (or app password)',
+        secret: true,
+      },
+      {
+        name: 'imapHost',
+        type: 'string',
+        required: true,
+        description: 'IMAP server (imap.example.com)',
+      },
+      {
+        name: 'smtpHost',
+        type: 'string',
+        required: true,
+        description: 'SMTP server (smtp.example.com)',
+      },
+      {
+        name: 'allowedSenders',
+        type: 'string',
+        required: true,
+        description: 'Addresses allowed to send tasks (comma-separated)',
+      },
+      {
+        name: 'authServId',
+        type: 'string',
+        required: false,
+        description:
+          "authserv-id of the receiving server's Authentication-Results (mx.example.com)",
+      },
+      {
+        name: 'subjectToken',
+        type: 'string',
+        required: false,
+        description:
+          'Token task subjects must contain, for servers without DMARC/DKIM results (instead of authServId)',
+        secret: true,
+      },
+    ];
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    return EmailAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
+    const errors: string[] = [];
+    const c = config as Partial<EmailAdapterConfig>;
+
+    if (!c.address || !c.address.includes('@')) {
+      errors.push('Invalid address: expected an email address');
+    }
+
+    if (!c.password) {
+      errors.push('password is required');
+    }
+
+    if (!c.imapHost) {
+      errors.push('imapHost is required');
+    }
+
+    if (!c.smtpHost) {
+      errors.push('smtpHost is required');
+    }
+
+    // Anyone can send mail, so the mailbox must not run Claude for strangers
+    const senders = EmailAdapter.parseSenders(c.allowedSenders);
+    if (senders.length === 0 || senders.some((sender) => !sender.includes('@'))) {
+      errors.push('allowedSenders must list at least one email address');
+    }
+
+    if (EmailAdapter.needsAuthServId(c)) {
+      errors.push('authServId or subjectToken is required to verify senders');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * allowedSenders is a list in config.json, but `hmdg init` asks for a comma-separated string
+   */
+  static parseSenders(senders: string[] | string | undefined): string[] {
+    const list = typeof senders === 'string' ? senders.split(',') : senders || [];
+    return list.map((sender) => sender.trim().toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * Without the receiving server's authserv-id, any Authentication-Results header could be
+   * one the sender added
+   */
+  private static needsAuthServId(config: Partial<EmailAdapterConfig>): boolean {
+    return !config.subjectToken && config.requireAuth !== false && !config.authServId;
+  }
+
+  async start(): Promise<void> {
+    if (EmailAdapter.needsAuthServId(this.config)) {
+      throw new Error('Email adapter needs authServId or subjectToken to verify senders');
+    }
+    await this.init();
+
+    if (!this.config.subjectToken && this.config.requireAuth === false) {
+      consola.warn(
+        'Email adapter trusts the From header: anyone can send mail as an allowed sender'
+      );
+    }
+
+    this.running = true;
+    await this.connect();
+
+    // IDLE reports new mail right away, polling covers servers without it
+    this.pollTimer = setInterval(() => this.checkMail(), (this.config.pollInterval || 60) * 1000);
+    consola.success(`Email adapter watching ${this.config.address}`);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    for (const outgoing of this.outbox.values()) {
+      if (outgoing.timer) clearTimeout(outgoing.timer);
+    }
+    this.outbox.clear();
+
+    try {
+      await this.imap?.logout();
+    } catch {
+      // Already disconnected
+    }
+    this.imap = null;
+    this.transport?.close();
+    this.transport = null;
+    consola.debug('Email adapter stopped');
+  }
+
+  async sendMessage(
+    channel: string,
+    message: string,
+    threadTs?: string,
+    options?: MessageOptions
+  ): Promise<string> {
+    const id = this.createId();
+    this.queue(`${channel}:${threadTs || ''}`, id, message, options?.runState === 'running');
+    return id;
+  }
+
+  async updateMessage(
+    channel: string,
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
+    if (this.sentCards.has(messageTs)) return;
+    this.queue(
+      this.messageKeys.get(messageTs) || `${channel}:`,
+      messageTs,
+      message,
+      options?.runState === 'running'
+    );
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  onAudioMessage(handler: AudioMessageHandler): void {
+    this.audioMessageHandlers.push(handler);
+  }
+
+  /**
+   * Buttons are listed as reply keywords
+   */
+  async sendInteractiveMessage(
+    channel: string,
+    text: string,
+    blocks: unknown[],
+    threadTs?: string
+  ): Promise<string> {
+    const parts = parseSlackBlocks(blocks);
+    const texts = slackBlocksText(parts);
+    const buttons = parts.flatMap((part) =>
+      part.buttons.map((button) => ({
+        // Section buttons ("Select") are only meaningful with their section's text
+        label: button.accessory && part.text ? part.text : button.label,
+        action: button.action,
+        value: button.value,
+      }))
+    );
+
+    return this.sendCard(channel, threadTs, texts.join('\n') || text, buttons);
+  }
+
+  async sendPermissionCard(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
+  ): Promise<string> {
+    const inputStr = JSON.stringify(toolInput, null, 2).slice(0, 500);
+
+    return this.sendCard(
+      channel,
+      threadTs,
+      `⚠️ Permission Request\nClaude wants to use ${toolName}:\n\n${inputStr}`,
+      [
+        { label: '✅ Allow', action: 'permission_approve', value: requestId },
+        { label: '❌ Deny', action: 'permission_deny', value: requestId },
+      ]
+    );
+  }
+
+  async sendProjectSelectionCard(
+    channel: string,
+    projects: Array<{ name: string; path: string }>,
+    _pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string> {
+    return this.sendCard(
+      channel,
+      threadTs,
+      'Please select a project to work with:',
+      projects.map((project) => ({
+        label: project.path,
+        action: 'select_project',
+        value: project.path,
+      }))
+    );
+  }
+
+  /**
+   * Snippets (diffs) are attached to the conversation's next email
+   */
+  async uploadSnippet(
+    channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    const key = `${channel}:${options.threadTs || ''}`;
+    const outgoing = this.getOutgoing(key);
+    outgoing.attachments.push({ filename: options.filename || 'snippet.txt', content });
+    if (options.initialComment) {
+      outgoing.parts.set(this.createId(), { text: options.initialComment, inProgress: false });
+    }
+    this.scheduleFlush(key);
+  }
+
+  private async sendCard(
+    channel: string,
+    threadTs: string | undefined,
+    text: string,
+    buttons: Array<{ label: string; action: string; value: string }>
+  ): Promise<string> {
+    const id = this.createId();
+    const key = `${channel}:${threadTs || ''}`;
+
+    const choices = buttons.map((button, index) => {
+      const keyword = EmailAdapter.KEYWORDS[button.action];
+      const unique = buttons.filter((other) => other.action === button.action).length === 1;
+      return {
+        ...button,
+        keywords: keyword && unique ? [keyword, String(index + 1)] : [String(index + 1)],
+        messageId: id,
+      };
+    });
+    this.choices.set(key, choices);
+    this.cardIds.add(id);
+    this.trim(this.cardIds);
+
+    const lines = choices.map((choice) => `  ${choice.keywords[0].padEnd(8)} ${choice.label}`);
+    this.queue(key, id, `${text}\n\nReply with one of:\n${lines.join('\n')}`);
+    return id;
+  }
+
+  private queue(key: string, id: string, message: string, inProgress = false): void {
+    this.messageKeys.set(id, key);
+    this.trim(this.messageKeys);
+    this.getOutgoing(key).parts.set(id, { text: message, inProgress });
+    this.scheduleFlush(key);
+  }
+
+  private getOutgoing(key: string): Outgoing {
+    let outgoing = this.outbox.get(key);
+    if (!outgoing) {
+      outgoing = { parts: new Map(), attachments: [] };
+      this.outbox.set(key, outgoing);
+    }
+    return outgoing;
+  }
+
+  private scheduleFlush(key: string): void {
+    const outgoing = this.outbox.get(key);
+    if (!outgoing) return;
+    if (outgoing.timer) clearTimeout(outgoing.timer);
+    outgoing.timer = setTimeout(() => {
+      this.flush(key).catch((error) => consola.error('Failed to send email:', error));
+    }, EmailAdapter.SETTLE_DELAY);
+  }
+
+  /**
+   * Mail the finished messages and attachments of a conversation, keeping the ones
+   * still in progress for a later email
+   */
+  private async flush(key: string): Promise<void> {
+    const outgoing = this.outbox.get(key);
+    if (!outgoing) return;
+    outgoing.timer = undefined;
+
+    const ready = [...outgoing.parts].filter(([, part]) => !part.inProgress);
+    if (ready.length === 0 && outgoing.attachments.length === 0) return;
+
+    for (const [id] of ready) {
+      outgoing.parts.delete(id);
+      if (this.cardIds.has(id)) {
+        this.sentCards.add(id);
+        this.trim(this.sentCards);
+      }
+    }
+    const attachments = outgoing.attachments;
+    outgoing.attachments = [];
+    if (outgoing.parts.size === 0) this.outbox.delete(key);
+
+    const body = ready.map(([, part]) => this.formatText(part.text)).join('\n\n');
+    await this.sendMail(key, body || 'Attached.', attachments);
+  }
+
+  private async sendMail(
+    key: string,
+    text: string,
+    attachments: Array<{ filename: string; content: string }>
+  ): Promise<void> {
+    if (!this.transport) return;
+
+    // Channels are sender addresses
+    const to = key.slice(0, key.indexOf(':'));
+    const thread = this.threads.get(key);
+    const references = thread?.references || [];
+
+    const info = await this.transport.sendMail({
+      from: this.config.address,
+      to,
+      subject: thread ? `Re: ${thread.subject}` : 'Heimerdinger',
+      text,
+      inReplyTo: references[references.length - 1],
+      // Keep the root so the thread stays one conversation, and the latest messages
+      references:
+        references.length > EmailAdapter.MAX_REFERENCES
+          ? [references[0], ...references.slice(-(EmailAdapter.MAX_REFERENCES - 1))]
+          : references,
+      attachments,
+      headers: { 'Auto-Submitted': 'auto-replied' },
+    });
+
+    if (thread && info.messageId) {
+      thread.references.push(info.messageId);
+    }
+    consola.debug(`Email sent to ${to}: ${info.messageId}`);
+  }
+
+  private async connect(): Promise<void> {
+    const imap = new ImapFlow({
+      host: this.config.imapHost,
+      port: this.config.imapPort || 993,
+      secure: this.config.secure ?? true,
+      auth: { user: this.config.username || this.config.address, pass: this.config.password },
+      logger: false,
+    });
+    this.imap = imap;
+
+    imap.on('exists', () => this.checkMail());
+    imap.on('error', (error) => consola.warn('IMAP error:', error));
+    imap.on('close', () => {
+      if (!this.running || this.imap !== imap) return;
+      consola.warn('IMAP connection closed, reconnecting...');
+      this.scheduleReconnect();
+    });
+
+    await imap.connect();
+    await imap.mailboxOpen(this.config.mailbox || 'INBOX');
+    // Mail that arrived while the service was down
+    await this.checkMail();
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        consola.warn('IMAP reconnect failed:', error);
+        if (this.running) this.scheduleReconnect();
+      });
+    }, EmailAdapter.RECONNECT_DELAY);
+  }
+
+  /**
+   * Fetch unread mail, mark it read and handle it
+   */
+  private async checkMail(): Promise<void> {
+    if (this.checking) {
+      this.recheck = true;
+      return;
+    }
+    const imap = this.imap;
+    if (!imap?.usable) return;
+
+    this.checking = true;
+    try {
+      do {
+        this.recheck = false;
+        const messages: Array<{ uid: number; source: Buffer }> = [];
+        for await (const message of imap.fetch({ seen: false }, { uid: true, source: true })) {
+          if (message.source) messages.push({ uid: message.uid, source: message.source });
+        }
+        if (messages.length === 0) break;
+
+        await imap.messageFlagsAdd(
+          messages.map((message) => message.uid),
+          ['\\Seen'],
+          { uid: true }
+        );
+        for (const message of messages) {
+          this.handleMail(await simpleParser(message.source)).catch((error) =>
+            consola.error('[email] handler error:', error)
+          );
+        }
+      } while (this.recheck);
+    } catch (error) {
+      consola.warn('Failed to check mail:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async handleMail(mail: ParsedMail): Promise<void> {
+    const sender = mail.from?.value[0]?.address?.toLowerCase();
+    if (!sender || !mail.messageId) return;
+
+    const allowed = EmailAdapter.parseSenders(this.config.allowedSenders);
+    if (sender === this.config.address.toLowerCase() || !allowed.includes(sender)) {
+      consola.info(`[email] skip: sender ${sender} not allowed`);
+      return;
+    }
+    if (!this.isTrusted(mail, sender)) {
+      consola.warn(`[email] skip: mail from ${sender} failed sender authentication`);
+      return;
+    }
+
+    // Out-of-office replies and mailing lists would start conversations with themselves
+    const autoSubmitted = String(mail.headers.get('auto-submitted') || 'no').toLowerCase();
+    const precedence = String(mail.headers.get('precedence') || '').toLowerCase();
+    if (autoSubmitted !== 'no' || ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) {
+      consola.info(`[email] skip: automatic mail from ${sender}`);
+      return;
+    }
+
+    const references =
+      typeof mail.references === 'string' ? [mail.references] : mail.references || [];
+    const root = references[0] || mail.inReplyTo || mail.messageId;
+    const key = `${sender}:${root}`;
+
+    this.threads.set(key, {
+      subject: (mail.subject || '(no subject)').replace(/^((re|fwd?|aw|回复|答复):\s*)+/i, ''),
+      references: [...references.filter((id) => id !== mail.messageId), mail.messageId],
+    });
+    this.trim(this.threads);
+
+    const context: MessageContext = {
+      channelId: sender,
+      userId: sender,
+      threadTs: root,
+      messageTs: mail.messageId,
+    };
+    const subject = this.config.subjectToken
+      ? mail.subject?.replace(this.config.subjectToken, '')
+      : mail.subject;
+    const text = EmailAdapter.stripQuoted(mail.text || '') || subject?.trim() || '';
+
+    consola.info(`[email] from=${sender} subject="${mail.subject}" text="${text.slice(0, 50)}"`);
+
+    // A keyword answers the conversation's latest card
+    const firstLine = text.split('\n')[0].trim().toUpperCase();
+    const choice = this.choices
+      .get(key)
+      ?.find((candidate) => candidate.keywords.includes(firstLine));
+    if (choice) {
+      this.choices.delete(key);
+      for (const handler of this.interactionHandlers) {
+        await handler(choice.action, choice.value, { ...context, messageTs: choice.messageId });
+      }
+      return;
+    }
+
+    const images: IMImageAttachment[] = [];
+    for (const attachment of mail.attachments) {
+      if (
+        attachment.contentType.startsWith('audio/') ||
+        attachment.contentType.startsWith('video/')
+      ) {
+        for (const handler of this.audioMessageHandlers) {
+          await handler({
+            audioBuffer: attachment.content,
+            mimeType: attachment.contentType,
+            context,
+          });
+        }
+        return;
+      }
+      if (attachment.contentType.startsWith('image/')) {
+        images.push({
+          buffer: attachment.content,
+          filename: attachment.filename || `image-${images.length + 1}`,
+          mimetype: attachment.contentType,
+        });
+      }
+    }
+
+    if (!text && images.length === 0) return;
+
+    for (const handler of this.messageHandlers) {
+      await handler({ text, context, images: images.length > 0 ? images : undefined });
+    }
+  }
+
+  /**
+   * The From header is set by the sender, so it only counts with a subject token or
+   * when the receiving server authenticated it
+   */
+  private isTrusted(mail: ParsedMail, sender: string): boolean {
+    if (this.config.subjectToken) {
+      return (mail.subject || '').includes(this.config.subjectToken);
+    }
+    if (this.config.requireAuth === false) return true;
+
+    const header = mail.headers.get('authentication-results');
+    const results = (Array.isArray(header) ? header : header ? [header] : []).map(String);
+    return EmailAdapter.isSenderAuthenticated(results, sender, this.config.authServId);
+  }
+
+  /**
+   * Whether Authentication-Results headers show DMARC passing, or DKIM passing for the
+   * sender's domain. Only the receiving server's header counts, found by its authServId:
+   * the sender can add headers of their own, even ones above the server's.
+   */
+  static isSenderAuthenticated(results: string[], sender: string, authServId?: string): boolean {
+    if (!authServId) return false;
+    const domain = sender.slice(sender.lastIndexOf('@') + 1).toLowerCase();
+    const servId = (header: string) => header.split(';')[0].trim().split(/\s+/)[0].toLowerCase();
+    const trusted = results.filter((header) => servId(header) === authServId.toLowerCase());
+
+    return trusted.some((header) =>
+      header
+        .replace(/\([^)]*\)/g, '')
+        .split(';')
+        .slice(1)
+        .some((clause) => {
+          const [result, ...props] = clause.trim().toLowerCase().split(/\s+/);
+          const prop = (name: string) =>
+            props.find((p) => p.startsWith(`${name}=`))?.slice(name.length + 1);
+
+          if (result === 'dmarc=pass') {
+            const from = prop('header.from');
+            return !from || from === domain;
+          }
+          if (result === 'dkim=pass') {
+            // Relaxed alignment: the signing domain may be a parent of the sender's
+            const signer = prop('header.d') ?? prop('header.i')?.split('@').pop();
+            return !!signer && (domain === signer || domain.endsWith(`.${signer}`));
+          }
+          return false;
+        })
+    );
+  }
+
+  /**
+   * The new part of a reply: everything above the quoted message and signature
+   */
+  static stripQuoted(text: string): string {
+    const cut = text.search(
+      /^(On\s[\s\S]{0,300}?wrote:|-{2,}\s*Original Message\s*-{2,}|-- ?)\s*$|^>/im
+    );
+    return (cut === -1 ? text : text.slice(0, cut)).trim();
+  }
+
+  private createId(): string {
+    return `email-${Date.now().toString(36)}-${this.nextId++}`;
+  }
+
+  private trim(collection: Map<string, unknown> | Set<string>): void {
+    if (collection.size <= EmailAdapter.MAX_TRACKED) return;
+    const oldest = collection.keys().next().value;
+    if (oldest !== undefined) collection.delete(oldest);
+  }
+
+  private formatText(text: string): string {
+    // Slack links become "text (url)" in plain text mail
+    return text.replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '$2 ($1)');
+  }
+}
@@ -6,9 +6,13 @@ import type {
   ConfigField,
   FeishuAdapterConfig,
   IMAdapter,
+  IMFileAttachment,
+  IMImageAttachment,
   InteractionHandler,
   MessageContext,
   MessageHandler,
+  MessageOptions,
+  RunState,
   ValidationResult,
 } from '../types';
 
@@ -42,8 +46,67 @@ interface FeishuMessageEvent {
   };
 }
 
+// card.action.trigger callback (new card callbacks, also delivered over the long connection)
+interface FeishuCardActionTrigger {
+  operator?: {
+    open_id?: string;
+  };
+  action?: {
+    tag?: string;
+    value?: Record<string, unknown>;
+    option?: string;
+  };
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+}
+
+// A CardKit card entity that status messages stream into
+interface StreamingCard {
+  cardId: string;
+  // CardKit rejects updates whose sequence isn't larger than the last one
+  sequence: number;
+  state: RunState;
+  content: string;
+  // Updates are sent one at a time, so sequences arrive in order
+  queue: Promise<void>;
+}
+
+// Header of streaming cards per state
+const STREAM_STATES: Record<RunState, { label: string; template: string; color: string }> = {
+  running: { label: 'Running', template: 'blue', color: 'blue' },
+  done: { label: 'Done', template: 'green', color: 'green' },
+  stopped: { label: 'Stopped', template: 'grey', color: 'neutral' },
+  failed: { label: 'Failed', template: 'red', color: 'red' },
+};
+
+const STREAM_ELEMENT_ID = 'content';
+
+// An element of a rich text (post) message paragraph
+interface FeishuPostElement {
+  tag: string;
+  text?: string;
+  href?: string;
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  language?: string;
+}
+
+// Text and attachments extracted from a message
+interface ParsedContent {
+  text: string;
+  images: IMImageAttachment[];
+  files: IMFileAttachment[];
+}
+
 export class FeishuAdapter implements IMAdapter {
   readonly name = 'feishu';
+  // Cards are limited to 30 KB of JSON, longer output continues in a new card
+  readonly maxMessageBytes = 25000;
+  // Streaming cards show the run state in their header
+  readonly showsRunState = true;
 
   private client: lark.Client;
   private wsClient: lark.WSClient | null = null;
@@ -58,10 +121,14 @@ export class FeishuAdapter implements IMAdapter {
 
   // Throttle message updates (max 1 update per second per message)
   private lastUpdateTime: Map<string, number> = new Map();
-  private pendingUpdates: Map<string, string> = new Map();
+  private pendingUpdates: Map<string, { message: string; options?: MessageOptions }> = new Map();
   private updateTimers: Map<string, NodeJS.Timeout> = new Map();
   private static readonly UPDATE_INTERVAL = 1000; // 1 second
 
+  // Streaming cards by the message ID they were sent as
+  private streamingCards: Map<string, StreamingCard> = new Map();
+  private static readonly MAX_STREAMING_CARDS = 100;
+
   constructor(config: FeishuAdapterConfig) {
     this.config = config;
 
@@ -88,6 +155,10 @@ export class FeishuAdapter implements IMAdapter {
   }
 
   getConfigTemplate(): ConfigField[] {
+    return FeishuAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
     return [
       {
         name: 'appId',
@@ -102,12 +173,29 @@ export class FeishuAdapter implements IMAdapter {
         description: 'App Secret from Feishu Open Platform',
         secret: true,
       },
+      {
+        name: 'domain',
+        type: 'select',
+        required: false,
+        description: 'Feishu domain (feishu.cn or larksuite.com)',
+        options: ['feishu', 'lark'],
+        default: 'feishu',
+      },
+      {
+        name: 'connectionMode',
+        type: 'select',
+        required: true,
+        description: 'Connection mode for receiving events',
+        options: ['websocket', 'webhook'],
+        default: 'websocket',
+      },
       {
         name: 'encryptKey',
         type: 'string',
         required: false,
         description: 'Encrypt Key for event subscription (Webhook mode)',
         secret: true,
+        showWhen: { field: 'connectionMode', value: 'webhook' },
       },
       {
         name: 'verificationToken',
@@ -115,14 +203,7 @@ export class FeishuAdapter implements IMAdapter {
         required: false,
         description: 'Verification Token for card callbacks',
         secret: true,
-      },
-      {
-        name: 'connectionMode',
-        type: 'select',
-        required: true,
-        description: 'Connection mode for receiving events',
-        options: ['websocket', 'webhook'],
-        default: 'websocket',
+        showWhen: { field: 'connectionMode', value: 'webhook' },
       },
       {
         name: 'webhookPort',
@@ -130,19 +211,16 @@ export class FeishuAdapter implements IMAdapter {
         required: false,
         description: 'Port for webhook server (Webhook mode only)',
         default: 3151,
-      },
-      {
-        name: 'domain',
-        type: 'select',
-        required: false,
-        description: 'Feishu domain (feishu.cn or larksuite.com)',
-        options: ['feishu', 'lark'],
-        default: 'feishu',
+        showWhen: { field: 'connectionMode', value: 'webhook' },
       },
     ];
   }
 
   validateConfig(config: unknown): ValidationResult {
+    return FeishuAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
     const errors: string[] = [];
     const c = config as Partial<FeishuAdapterConfig>;
 
@@ -240,14 +318,19 @@ export class FeishuAdapter implements IMAdapter {
     return result.data?.message_id || '';
   }
 
-  async updateMessage(channel: string, messageTs: string, message: string): Promise<void> {
+  async updateMessage(
+    channel: string,
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
     const now = Date.now();
     const lastUpdate = this.lastUpdateTime.get(messageTs) || 0;
     const timeSinceLastUpdate = now - lastUpdate;
 
     // If we're within the throttle interval, queue the update
     if (timeSinceLastUpdate < FeishuAdapter.UPDATE_INTERVAL) {
-      this.pendingUpdates.set(messageTs, message);
+      this.pendingUpdates.set(messageTs, { message, options });
 
       // Set a timer to perform the update if not already set
       if (!this.updateTimers.has(messageTs)) {
@@ -261,26 +344,42 @@ export class FeishuAdapter implements IMAdapter {
     }
 
     // Perform immediate update
-    await this.doUpdateMessage(messageTs, message);
+    await this.doUpdateMessage(messageTs, message, options);
   }
 
   private async flushPendingUpdate(channel: string, messageTs: string): Promise<void> {
-    const pendingMessage = this.pendingUpdates.get(messageTs);
+    const pending = this.pendingUpdates.get(messageTs);
     this.pendingUpdates.delete(messageTs);
     this.updateTimers.delete(messageTs);
 
-    if (pendingMessage) {
-      await this.doUpdateMessage(messageTs, pendingMessage);
+    if (pending) {
+      await this.doUpdateMessage(messageTs, pending.message, pending.options);
     }
   }
 
-  private async doUpdateMessage(messageTs: string, message: string): Promise<void> {
+  private async doUpdateMessage(
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
     this.lastUpdateTime.set(messageTs, Date.now());
 
+    const streamingCard = this.streamingCards.get(messageTs);
+    if (streamingCard) {
+      await this.updateStreamingCard(streamingCard, message, options);
+      return;
+    }
+
     // Feishu only supports updating interactive cards, not text messages
     // For text messages, we need to send a card initially
     // Here we try to update as a card, which requires the message to be a card
-    const content = this.convertToFeishuMarkdown(message);
+    // (regular cards have no header, so the run state goes below the text)
+    const runOptions = options?.runOptions;
+    const content = this.convertToFeishuMarkdown(
+      runOptions === undefined
+        ? message
+        : `${message}\n\n_⏳ ${STREAM_STATES.running.label}${runOptions ? ` · ${runOptions}` : ''}_`
+    );
 
     try {
       // Try to patch as an interactive card
@@ -305,9 +404,8 @@ export class FeishuAdapter implements IMAdapter {
         },
       });
     } catch (error) {
-      consola.debug('Failed to update message (may be text message):', error);
-      // If patch fails, the original message was not a card
-      // This is expected for text messages
+      // Text messages can't be updated, status messages are sent as cards for that
+      consola.warn(`Failed to update message ${messageTs} (not a card?):`, error);
     }
   }
 
@@ -325,9 +423,16 @@ export class FeishuAdapter implements IMAdapter {
 
   /**
    * Send a message card for streaming updates
-   * Unlike text messages, cards can be updated
+   * Unlike text messages, cards can be updated. A CardKit streaming card is used when
+   * the app may create one (cardkit:card:write), so appended text types out smoothly.
    */
   async sendStreamingMessage(channel: string, message: string, threadTs?: string): Promise<string> {
+    try {
+      return await this.sendStreamingCard(channel, message, threadTs);
+    } catch (error) {
+      consola.warn('Failed to create a streaming card, sending a regular card:', error);
+    }
+
     const receiveIdType = channel.startsWith('ou_') ? 'open_id' : 'chat_id';
     const content = this.convertToFeishuMarkdown(message);
 
@@ -379,13 +484,139 @@ export class FeishuAdapter implements IMAdapter {
     return result.data?.message_id || '';
   }
 
+  private async sendStreamingCard(
+    channel: string,
+    message: string,
+    threadTs?: string
+  ): Promise<string> {
+    // Status messages are sent to be updated, so they start out running
+    const card: StreamingCard = {
+      cardId: '',
+      sequence: 0,
+      state: 'running',
+      content: this.toStreamContent(message),
+      queue: Promise.resolve(),
+    };
+
+    const created = await this.client.cardkit.v1.card.create({
+      data: { type: 'card_json', data: JSON.stringify(this.buildStreamingCard(card)) },
+    });
+    if (created.code !== 0 || !created.data?.card_id) {
+      throw new Error(`Failed to create streaming card: ${created.msg}`);
+    }
+    card.cardId = created.data.card_id;
+
+    const content = JSON.stringify({ type: 'card', data: { card_id: card.cardId } });
+    const result = threadTs
+      ? await this.client.im.message.reply({
+          path: { message_id: threadTs },
+          data: { content, msg_type: 'interactive' },
+        })
+      : await this.client.im.message.create({
+          params: { receive_id_type: channel.startsWith('ou_') ? 'open_id' : 'chat_id' },
+          data: { receive_id: channel, content, msg_type: 'interactive' },
+        });
+    if (result.code !== 0 || !result.data?.message_id) {
+      throw new Error(`Failed to send streaming card: ${result.msg}`);
+    }
+
+    const messageId = result.data.message_id;
+    this.streamingCards.set(messageId, card);
+    if (this.streamingCards.size > FeishuAdapter.MAX_STREAMING_CARDS) {
+      const oldest = this.streamingCards.keys().next().value;
+      if (oldest) this.streamingCards.delete(oldest);
+    }
+    return messageId;
+  }
+
+  /**
+   * While running, only the text is pushed, which CardKit types out from where the
+   * last text ended. Changes of state replace the whole card to update its header.
+   * Updates without a run state keep the card's current one.
+   */
+  private async updateStreamingCard(
+    card: StreamingCard,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
+    const content = this.toStreamContent(message, options?.runOptions);
+
+    card.queue = card.queue
+      .then(async () => {
+        const state = options?.runState ?? card.state;
+        if (state === card.state && content === card.content) return;
+
+        let result: { code?: number; msg?: string };
+        if (state === 'running' && card.state === 'running') {
+          result = await this.client.cardkit.v1.cardElement.content({
+            path: { card_id: card.cardId, element_id: STREAM_ELEMENT_ID },
+            data: { content, sequence: ++card.sequence },
+          });
+        } else {
+          result = await this.client.cardkit.v1.card.update({
+            path: { card_id: card.cardId },
+            data: {
+              card: {
+                type: 'card_json',
+                data: JSON.stringify(this.buildStreamingCard({ ...card, state, content })),
+              },
+              sequence: ++card.sequence,
+            },
+          });
+        }
+        if (result.code !== 0) {
+          throw new Error(result.msg);
+        }
+
+        card.state = state;
+        card.content = content;
+      })
+      .catch((error) => consola.warn(`Failed to update streaming card ${card.cardId}:`, error));
+
+    await card.queue;
+  }
+
+  /**
+   * Card JSON 2.0, streaming only while running (a finished card is a normal card again)
+   */
+  private buildStreamingCard(card: StreamingCard): Record<string, unknown> {
+    const { label, template, color } = STREAM_STATES[card.state];
+    return {
+      schema: '2.0',
+      config: {
+        update_multi: true,
+        streaming_mode: card.state === 'running',
+        streaming_config: {
+          print_frequency_ms: { default: 30 },
+          print_step: { default: 2 },
+          print_strategy: 'fast',
+        },
+      },
+      header: {
+        title: { tag: 'plain_text', content: 'Claude Code' },
+        template,
+        text_tag_list: [{ tag: 'text_tag', text: { tag: 'plain_text', content: label }, color }],
+      },
+      body: {
+        elements: [{ tag: 'markdown', element_id: STREAM_ELEMENT_ID, content: card.content }],
+      },
+    };
+  }
+
+  private toStreamContent(message: string, runOptions?: string): string {
+    // The header shows that Claude is working, the model and effort go below the text
+    const text = runOptions ? `${message}\n\n_${runOptions}_` : message;
+    return this.convertToFeishuMarkdown(text) || ' ';
+  }
+
   /**
    * Send a project selection card
    */
   async sendProjectSelectionCard(
     channel: string,
     projects: Array<{ name: string; path: string }>,
-    pendingPrompt: string
+    pendingPrompt: string,
+    threadTs?: string
   ): Promise<string> {
     const receiveIdType = channel.startsWith('ou_') ? 'open_id' : 'chat_id';
 
@@ -414,9 +645,12 @@ export class FeishuAdapter implements IMAdapter {
               content: project.path,
             },
             type: 'default',
+            // Card callbacks don't say where the card is, so carry the conversation along
             value: {
               action: 'select_project',
               path: project.path,
+              channel,
+              threadTs,
             },
           },
         ],
@@ -468,6 +702,24 @@ export class FeishuAdapter implements IMAdapter {
       elements,
     };
 
+    if (threadTs) {
+      const result = await this.client.im.message.reply({
+        path: {
+          message_id: threadTs,
+        },
+        data: {
+          content: JSON.stringify(cardContent),
+          msg_type: 'interactive',
+        },
+      });
+
+      if (result.code !== 0) {
+        throw new Error(`Failed to send project selection card: ${result.msg}`);
+      }
+
+      return result.data?.message_id || '';
+    }
+
     const result = await this.client.im.message.create({
       params: {
         receive_id_type: receiveIdType,
@@ -486,6 +738,46 @@ export class FeishuAdapter implements IMAdapter {
     return result.data?.message_id || '';
   }
 
+  /**
+   * Send Claude's thinking in a collapsible panel, closed until someone opens it
+   */
+  async sendThinkingMessage(channel: string, thinking: string, threadTs?: string): Promise<string> {
+    const card = {
+      schema: '2.0',
+      body: {
+        elements: [
+          {
+            tag: 'collapsible_panel',
+            expanded: false,
+            header: {
+              title: { tag: 'markdown', content: '💭 **Thinking**' },
+              icon: { tag: 'standard_icon', token: 'down-small-ccm_outlined', size: '16px 16px' },
+              icon_position: 'right',
+              icon_expanded_angle: -180,
+            },
+            elements: [{ tag: 'markdown', content: this.convertToFeishuMarkdown(thinking) }],
+          },
+        ],
+      },
+    };
+
+    const content = JSON.stringify(card);
+    const result = threadTs
+      ? await this.client.im.message.reply({
+          path: { message_id: threadTs },
+          data: { content, msg_type: 'interactive' },
+        })
+      : await this.client.im.message.create({
+          params: { receive_id_type: channel.startsWith('ou_') ? 'open_id' : 'chat_id' },
+          data: { receive_id: channel, content, msg_type: 'interactive' },
+        });
+    if (result.code !== 0) {
+      throw new Error(`Failed to send thinking: ${result.msg}`);
+    }
+
+    return result.data?.message_id || '';
+  }
+
   /**
    * Send an interactive message with custom elements
    */
@@ -501,7 +793,7 @@ export class FeishuAdapter implements IMAdapter {
       config: {
         wide_screen_mode: true,
       },
-      elements: blocks,
+      elements: this.convertBlocksToElements(blocks, channel, threadTs),
     };
 
     if (threadTs) {
@@ -540,6 +832,71 @@ export class FeishuAdapter implements IMAdapter {
     return result.data?.message_id || '';
   }
 
+  /**
+   * The message processor builds its cards as Slack blocks, convert them to card elements.
+   * Elements that are already Feishu card elements (with a `tag`) are kept as they are.
+   */
+  private convertBlocksToElements(
+    blocks: unknown[],
+    channel: string,
+    threadTs?: string
+  ): unknown[] {
+    const elements: unknown[] = [];
+
+    const toButton = (button: Record<string, unknown>) => ({
+      tag: 'button',
+      text: {
+        tag: 'plain_text',
+        content: (button.text as { text?: string } | undefined)?.text || '',
+      },
+      type: button.style === 'primary' || button.style === 'danger' ? button.style : 'default',
+      // Card callbacks don't say where the card is, so carry the conversation along
+      value: {
+        action: button.action_id,
+        value: String(button.value ?? ''),
+        channel,
+        threadTs,
+      },
+    });
+
+    for (const block of blocks as Array<Record<string, unknown>>) {
+      if (block.tag) {
+        elements.push(block);
+        continue;
+      }
+
+      const text = (block.text as { text?: string } | undefined)?.text;
+      if ((block.type === 'section' || block.type === 'header') && text) {
+        elements.push({
+          tag: 'div',
+          text: { tag: 'lark_md', content: this.convertToFeishuMarkdown(text) },
+        });
+      }
+
+      const buttons = [
+        ...((block.elements as Array<Record<string, unknown>>) || []),
+        ...(block.accessory ? [block.accessory as Record<string, unknown>] : []),
+      ].filter((element) => element.type === 'button');
+      if (buttons.length > 0) {
+        elements.push({ tag: 'action', actions: buttons.map(toButton) });
+      }
+
+      if (block.type === 'divider') {
+        elements.push({ tag: 'hr' });
+      } else if (block.type === 'context') {
+        const notes = ((block.elements as Array<{ text?: string }>) || [])
+          .filter((element) => element.text)
+          .map((element) => ({
+            tag: 'lark_md',
+            content: this.convertToFeishuMarkdown(element.text || ''),
+          }));
+        if (notes.length > 0) elements.push({ tag: 'note', elements: notes });
+      }
+    }
+
+    return elements;
+  }
+
   /**
    * Send a permission confirmation card
    */
@@ -557,7 +914,7 @@ export class FeishuAdapter implements IMAdapter {
         tag: 'div',
         text: {
           tag: 'lark_md',
-          content: `Claude wants to use **${toolName}**`,
+          content: `**⚠️ Permission Request**\nClaude wants to use **${toolName}**`,
         },
       },
       {
@@ -598,21 +955,7 @@ export class FeishuAdapter implements IMAdapter {
       },
     ];
 
-    const cardContent = {
-      config: {
-        wide_screen_mode: true,
-      },
-      header: {
-        title: {
-          tag: 'plain_text',
-          content: 'Permission Request',
-        },
-        template: 'orange',
-      },
-      elements,
-    };
-
-    return this.sendInteractiveMessage(channel, 'Permission Request', [cardContent], threadTs);
+    return this.sendInteractiveMessage(channel, 'Permission Request', elements, threadTs);
   }
 
   /**
@@ -629,9 +972,18 @@ export class FeishuAdapter implements IMAdapter {
     } = {}
   ): Promise<void> {
     // Feishu doesn't have a direct snippet upload like Slack
-    // Send as a code block in a card instead
+    // Send as a code block in a card instead, or as a file when it doesn't fit in one
     const receiveIdType = channel.startsWith('ou_') ? 'open_id' : 'chat_id';
 
+    if (content.length > 25000) {
+      try {
+        await this.uploadFile(channel, content, options);
+        return;
+      } catch (error) {
+        consola.warn('Failed to upload file, sending a truncated card:', error);
+      }
+    }
+
     const elements: unknown[] = [];
 
     if (options.title) {
@@ -709,6 +1061,45 @@ export class FeishuAdapter implements IMAdapter {
     }
   }
 
+  /**
+   * Upload content as a file message, with the title as a message before it
+   */
+  private async uploadFile(
+    channel: string,
+    content: string,
+    options: { filename?: string; title?: string; threadTs?: string; initialComment?: string }
+  ): Promise<void> {
+    const uploaded = await this.client.im.file.create({
+      data: {
+        file_type: 'stream',
+        file_name: options.filename || 'snippet.txt',
+        file: Buffer.from(content),
+      },
+    });
+    if (!uploaded?.file_key) {
+      throw new Error('No file_key in upload response');
+    }
+
+    const comment = options.initialComment || options.title;
+    if (comment) {
+      await this.sendMessage(channel, comment, options.threadTs);
+    }
+
+    const fileContent = JSON.stringify({ file_key: uploaded.file_key });
+    const result = options.threadTs
+      ? await this.client.im.message.reply({
+          path: { message_id: options.threadTs },
+          data: { content: fileContent, msg_type: 'file' },
+        })
+      : await this.client.im.message.create({
+          params: { receive_id_type: channel.startsWith('ou_') ? 'open_id' : 'chat_id' },
+          data: { receive_id: channel, content: fileContent, msg_type: 'file' },
+        });
+    if (result.code !== 0) {
+      throw new Error(`Failed to send file: ${result.msg}`);
+    }
+  }
+
   private setupEventHandlers(): void {
     // Register message receive handler
     this.eventDispatcher.register({
@@ -717,21 +1108,59 @@ export class FeishuAdapter implements IMAdapter {
       },
     });
 
-    // Setup card action handler if verification token is provided
+    // Card callbacks as events: over the long connection, or to /webhook/event
+    this.eventDispatcher.register({
+      'card.action.trigger': async (data: FeishuCardActionTrigger) => {
+        const { action, operator, context } = data;
+        if (!action || !operator?.open_id || !context?.open_message_id) return {};
+        this.dispatchCardAction(
+          action.value || {},
+          action.tag || '',
+          operator.open_id,
+          context.open_message_id,
+          context.open_chat_id
+        );
+        return {}; // Don't update the card automatically
+      },
+    });
+
+    // Setup legacy card action handler (/webhook/card) if verification token is provided
     if (this.config.verificationToken) {
       this.cardActionHandler = new lark.CardActionHandler(
         {
           encryptKey: this.config.encryptKey || '',
           verificationToken: this.config.verificationToken,
         },
-        async (data: lark.InteractiveCardActionEvent) => {
-          await this.handleCardAction(data);
+        async (data: lark.InteractiveCardActionEvent & { open_chat_id?: string }) => {
+          this.dispatchCardAction(
+            data.action.value,
+            data.action.tag,
+            data.open_id,
+            data.open_message_id,
+            data.open_chat_id
+          );
           return undefined; // Don't update the card automatically
         }
       );
     }
   }
 
+  /**
+   * Card callbacks must be answered within 3 seconds, while actions like selecting
+   * a project go on to run Claude, so they are handled in the background
+   */
+  private dispatchCardAction(
+    value: Record<string, unknown>,
+    tag: string,
+    userId: string,
+    messageId: string,
+    chatId?: string
+  ): void {
+    this.handleCardAction(value, tag, userId, messageId, chatId).catch((error) =>
+      consola.error('Failed to handle card action:', error)
+    );
+  }
+
   private async handleMessageEvent(data: FeishuMessageEvent): Promise<void> {
     const { sender, message } = data;
 
@@ -769,7 +1198,7 @@ export class FeishuAdapter implements IMAdapter {
       try {
         if (!content) return;
         const contentJson = JSON.parse(content);
-        const audioBuffer = await this.downloadAudioFile(messageId, contentJson.file_key);
+        const audioBuffer = await this.downloadResource(messageId, contentJson.file_key, 'file');
 
         for (const handler of this.audioMessageHandlers) {
           await handler({
@@ -784,77 +1213,218 @@ export class FeishuAdapter implements IMAdapter {
       return;
     }
 
-    // Handle text messages
-    if (message.message_type !== 'text') return;
+    if (!content) return;
 
-    let text = '';
+    let parsed: ParsedContent | null;
     try {
-      if (!content) return;
-      const contentJson = JSON.parse(content);
-      text = contentJson.text || '';
-    } catch {
-      consola.warn('Failed to parse message content');
+      parsed = await this.parseContent(message.message_type, messageId, content);
+    } catch (error) {
+      consola.error(`Failed to process ${message.message_type} message:`, error);
       return;
     }
+    if (!parsed) return;
 
     // Remove @mentions from text
     // Feishu mentions are like @_user_1 in the text
-    text = text.replace(/@_user_\d+/g, '').trim();
+    const text = parsed.text.replace(/@_user_\d+/g, '').trim();
+    const { images, files } = parsed;
 
-    // Skip empty messages
-    if (!text) return;
+    // Skip empty messages (but allow messages with only attachments)
+    if (!text && images.length === 0 && files.length === 0) return;
 
-    consola.debug(`Received message from ${senderId}: ${text}`);
+    consola.debug(
+      `Received message from ${senderId}: ${text} (images=${images.length}, files=${files.length})`
+    );
 
     for (const handler of this.messageHandlers) {
-      await handler({ text, context });
+      await handler({
+        text,
+        context,
+        images: images.length > 0 ? images : undefined,
+        files: files.length > 0 ? files : undefined,
+      });
     }
   }
 
-  private async handleCardAction(data: lark.InteractiveCardActionEvent): Promise<void> {
-    const { action, open_id, open_message_id } = data;
-    const value = action.value as Record<string, unknown>;
+  /**
+   * Extract text, images and files from text, image, file and post (rich text) messages.
+   * Returns null for unsupported message types.
+   */
+  private async parseContent(
+    messageType: string | undefined,
+    messageId: string,
+    content: string
+  ): Promise<ParsedContent | null> {
+    const contentJson = JSON.parse(content);
+    const parsed: ParsedContent = { text: '', images: [], files: [] };
+
+    switch (messageType) {
+      case 'text':
+        parsed.text = contentJson.text || '';
+        break;
+      case 'image':
+        parsed.images.push(await this.downloadImage(messageId, contentJson.image_key));
+        break;
+      case 'file': {
+        const filename: string = contentJson.file_name || `file-${contentJson.file_key}`;
+        const buffer = await this.downloadResource(messageId, contentJson.file_key, 'file');
+        // Images sent as files are still images
+        const mimetype = this.guessImageMimetype(filename);
+        if (mimetype) {
+          parsed.images.push({ buffer, filename, mimetype });
+        } else {
+          parsed.files.push({ buffer, filename, mimetype: 'application/octet-stream' });
+        }
+        break;
+      }
+      case 'post': {
+        // Some events wrap the post in a locale, e.g. { zh_cn: { title, content } }
+        const post = contentJson.content
+          ? contentJson
+          : (Object.values(contentJson)[0] as Record<string, unknown> | undefined) || {};
+        const lines: string[] = post.title ? [post.title as string] : [];
+        for (const paragraph of (post.content as FeishuPostElement[][]) || []) {
+          let line = '';
+          for (const element of paragraph) {
+            if (element.tag === 'img' && element.image_key) {
+              parsed.images.push(await this.downloadImage(messageId, element.image_key));
+            } else {
+              line += this.postElementToText(element);
+            }
+          }
+          // Leave no blank line where an image was
+          if (line || !paragraph.some((element) => element.tag === 'img')) lines.push(line);
+        }
+        parsed.text = lines.join('\n');
+        break;
+      }
+      default:
+        return null;
+    }
 
-    const actionType = (value.action as string) || action.tag;
-    const actionValue = JSON.stringify(value);
+    return parsed;
+  }
+
+  private postElementToText(element: FeishuPostElement): string {
+    switch (element.tag) {
+      case 'text':
+        return element.text || '';
+      case 'a':
+        return element.href && element.href !== element.text
+          ? `${element.text || ''} (${element.href})`
+          : element.text || '';
+      case 'at':
+        // Keep the @_user_N key so mentions are stripped like in text messages
+        return element.user_id?.startsWith('@_user_')
+          ? element.user_id
+          : `@${element.user_name || ''}`;
+      case 'code_block':
+        return `\n\`\`\`${element.language?.toLowerCase() || ''}\n${element.text || ''}\n\`\`\`\n`;
+      default:
+        return element.text || '';
+    }
+  }
+
+  private async downloadImage(messageId: string, imageKey: string): Promise<IMImageAttachment> {
+    const buffer = await this.downloadResource(messageId, imageKey, 'image');
+    // Feishu doesn't say the format, but screenshots are PNGs and photos JPEGs
+    const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8;
+    return {
+      buffer,
+      filename: `image-${imageKey}.${isJpeg ? 'jpg' : 'png'}`,
+      mimetype: isJpeg ? 'image/jpeg' : 'image/png',
+    };
+  }
 
-    consola.debug(`Card action: ${actionType} = ${actionValue}`);
+  private guessImageMimetype(filename: string): string | null {
+    const ext = filename.split('.').pop()?.toLowerCase();
+    const types: Record<string, string> = {
+      png: 'image/png',
+      jpg: 'image/jpeg',
+      jpeg: 'image/jpeg',
+      gif: 'image/gif',
+      webp: 'image/webp',
+    };
+    return (ext && types[ext]) || null;
+  }
+
+  private async handleCardAction(
+    value: Record<string, unknown>,
+    tag: string,
+    userId: string,
+    messageId: string,
+    chatId?: string
+  ): Promise<void> {
+    const actionType = (value.action as string) || tag;
+    consola.debug(`Card action: ${actionType} = ${JSON.stringify(value)}`);
+
+    // Cards sent by this adapter carry their conversation, otherwise ask where the card is
+    let channelId = (value.channel as string) || chatId;
+    let threadTs = value.threadTs as string | undefined;
+    if (!channelId || !threadTs) {
+      const location = await this.getMessageLocation(messageId);
+      channelId = channelId || location?.chatId;
+      threadTs = threadTs || location?.rootId;
+    }
+    if (!channelId) {
+      consola.warn(`Card action ${actionType}: could not resolve the chat of ${messageId}`);
+      return;
+    }
 
     const context: MessageContext = {
-      channelId: '', // Will be determined by the handler
-      userId: open_id,
-      messageTs: open_message_id,
+      channelId,
+      userId,
+      threadTs,
+      messageTs: messageId,
     };
 
     // Handle specific actions
+    let actionValue: string;
     if (actionType === 'select_project') {
-      for (const handler of this.interactionHandlers) {
-        await handler('select_project', value.path as string, context);
-      }
-    } else if (actionType === 'permission_approve') {
-      for (const handler of this.interactionHandlers) {
-        await handler('permission_approve', value.requestId as string, context);
-      }
-    } else if (actionType === 'permission_deny') {
-      for (const handler of this.interactionHandlers) {
-        await handler('permission_deny', value.requestId as string, context);
-      }
+      actionValue = value.path as string;
+    } else if (actionType === 'permission_approve' || actionType === 'permission_deny') {
+      actionValue = value.requestId as string;
+    } else if (typeof value.value === 'string') {
+      // Buttons converted from message processor cards
+      actionValue = value.value;
     } else {
       // Generic action handling
-      for (const handler of this.interactionHandlers) {
-        await handler(actionType, actionValue, context);
-      }
+      actionValue = JSON.stringify(value);
+    }
+
+    for (const handler of this.interactionHandlers) {
+      await handler(actionType, actionValue, context);
+    }
+  }
+
+  /**
+   * Chat of a message and the root of its thread, if it's in one
+   */
+  private async getMessageLocation(
+    messageId: string
+  ): Promise<{ chatId?: string; rootId?: string } | null> {
+    try {
+      const result = await this.client.im.message.get({ path: { message_id: messageId } });
+      const item = result.data?.items?.[0];
+      return item ? { chatId: item.chat_id, rootId: item.root_id || undefined } : null;
+    } catch (error) {
+      consola.warn(`Failed to look up message ${messageId}:`, error);
+      return null;
     }
   }
 
-  private async downloadAudioFile(messageId: string, fileKey: string): Promise<Buffer> {
+  private async downloadResource(
+    messageId: string,
+    fileKey: string,
+    type: 'image' | 'file'
+  ): Promise<Buffer> {
     const response = await this.client.im.messageResource.get({
       path: {
         message_id: messageId,
         file_key: fileKey,
       },
       params: {
-        type: 'file',
+        type,
       },
     });
 
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { IMMessage } from '../types';
+import { HttpAdapter } from './http';
+
+const PORT = 39791;
+const BASE = `http://127.0.0.1:${PORT}`;
+
+let adapter: HttpAdapter | null = null;
+
+afterEach(async () => {
+  await adapter?.stop();
+  adapter = null;
+});
+
+async function startAdapter(messages: IMMessage[] = []): Promise<HttpAdapter> {
+  adapter = new HttpAdapter({
+    enabled: true,
+    port: PORT,
+    users: { alice: 'alice-secret', bob: 'bob-secret' },
+  });
+  adapter.onMessage(async (message) => {
+    messages.push(message);
+  });
+  await adapter.start();
+  return adapter;
+}
+
+function request(path: string, token?: string, body?: unknown): Promise<Response> {
+  return fetch(`${BASE}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+async function poll(token: string, channel: string): Promise<Array<Record<string, unknown>>> {
+  const response = await request(`/events?channel=${channel}&timeout=0`, token);
+  return ((await response.json()) as { events: Array<Record<string, unknown>> }).events;
+}
+
+describe('HttpAdapter', () => {
+  test('rejects missing and wrong tokens', async () => {
+    await startAdapter();
+
+    expect((await request('/health')).status).toBe(200);
+    expect((await request('/events?channel=c1')).status).toBe(401);
+    expect((await request('/events?channel=c1', 'wrong')).status).toBe(401);
+    expect((await request('/events?channel=c1&timeout=0', 'alice-secret')).status).toBe(200);
+  });
+
+  test('takes the user from the token and delivers replies', async () => {
+    const messages: IMMessage[] = [];
+    const http = await startAdapter(messages);
+
+    const response = await request('/messages', 'alice-secret', {
+      channel: 'c1',
+      text: 'hello',
+      user: 'bob',
+      images: [{ data: 'aGk=', filename: '../../../tmp/pwned.png' }],
+    });
+    expect(response.status).toBe(202);
+    const { messageTs } = (await response.json()) as { messageTs: string };
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(messages).toHaveLength(1);
+    expect(messages[0].context).toMatchObject({ userId: 'http:alice', threadTs: messageTs });
+    expect(messages[0].images?.[0].filename).toBe('pwned.png');
+
+    await http.sendMessage(messages[0].context.channelId, 'hi alice', messageTs);
+    const events = await poll('alice-secret', 'c1');
+    expect(events.map((e) => [e.channel, e.text])).toEqual([
+      ['c1', 'hello'],
+      ['c1', 'hi alice'],
+    ]);
+  });
+
+  test("keeps users out of each other's channels", async () => {
+    const messages: IMMessage[] = [];
+    const http = await startAdapter(messages);
+
+    await request('/messages', 'alice-secret', { channel: 'c1', text: 'secret plan' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await http.sendMessage(messages[0].context.channelId, 'permission card');
+
+    expect(await poll('bob-secret', 'c1')).toEqual([]);
+    expect((await request('/events?timeout=0', 'bob-secret')).status).toBe(400);
+
+    // Bob posting to "c1" lands in his own channel
+    await request('/messages', 'bob-secret', { channel: 'c1', text: 'hi' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(messages[1].context.channelId).not.toBe(messages[0].context.channelId);
+    expect((await poll('alice-secret', 'c1')).map((e) => e.text)).toEqual([
+      'secret plan',
+      'permission card',
+    ]);
+  });
+
+  test('refuses a non-loopback host without tokens', async () => {
+    adapter = new HttpAdapter({ enabled: true, port: PORT, host: '0.0.0.0' });
+    await expect(adapter.start()).rejects.toThrow('without a token');
+    expect(HttpAdapter.validateConfig({ port: PORT, host: '0.0.0.0' }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,572 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import { basename } from 'node:path';
+import { consola } from 'consola';
+import type {
+  ConfigField,
+  HttpAdapterConfig,
+  IMAdapter,
+  IMImageAttachment,
+  InteractionHandler,
+  MessageContext,
+  MessageHandler,
+  ValidationResult,
+} from '../types';
+import { isLoopbackHost } from './network';
+
+// A button the client can press by POSTing { action, value } to /interactions
+interface HttpAction {
+  action: string;
+  value: string;
+  label: string;
+}
+
+// Something the bot did, delivered over /events
+interface HttpEvent {
+  seq: number;
+  type: 'message' | 'update' | 'interactive' | 'snippet';
+  channel: string;
+  ts: string;
+  threadTs?: string;
+  // Set on messages posted by clients, absent on the bot's own
+  user?: string;
+  text: string;
+  actions?: HttpAction[];
+  blocks?: unknown[];
+  filename?: string;
+  time: string;
+}
+
+/**
+ * Plain JSON-over-HTTP adapter, for scripts, internal tools and local testing.
+ *
+ *   POST /messages      { channel, text, threadTs?, images? } -> { messageTs, threadTs }
+ *   POST /interactions  { channel, action, value, threadTs?, messageTs? }
+ *   GET  /events        ?channel=&since=<seq>  long poll, or SSE with Accept: text/event-stream
+ *
+ * Channels belong to the user of the token: internally they are "<user>/<channel>",
+ * so users can neither see nor post into each other's conversations.
+ */
+export class HttpAdapter implements IMAdapter {
+  readonly name = 'http';
+
+  private config: HttpAdapterConfig;
+  private server: Server | null = null;
+  private messageHandlers: MessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+
+  // Recent events for long-polling clients to catch up from
+  private events: HttpEvent[] = [];
+  private listeners: Set<(event: HttpEvent) => void> = new Set();
+  private seq = 0;
+  private static readonly MAX_EVENTS = 1000;
+  private static readonly MAX_BODY_BYTES = 20 * 1024 * 1024;
+  private static readonly DEFAULT_POLL_SECONDS = 25;
+  // Who unauthenticated loopback clients act as when no token is configured
+  private static readonly LOCAL_USER = 'local';
+  private static readonly TOKEN_USER = 'default';
+
+  constructor(config: HttpAdapterConfig) {
+    this.config = config;
+  }
+
+  async init(): Promise<void> {
+    consola.debug('HTTP adapter initialized');
+  }
+
+  getConfigTemplate(): ConfigField[] {
+    return HttpAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
+    return [
+      {
+        name: 'port',
+        type: 'number',
+        required: true,
+        description: 'Port for the HTTP API',
+        default: 3152,
+      },
+      {
+        name: 'host',
+        type: 'string',
+        required: false,
+        description: 'Interface to listen on',
+        default: '127.0.0.1',
+      },
+      {
+        name: 'token',
+        type: 'string',
+        required: false,
+        description: 'Bearer token clients must send (no auth when empty, loopback only)',
+        secret: true,
+      },
+    ];
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    return HttpAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
+    const errors: string[] = [];
+    const c = config as Partial<HttpAdapterConfig>;
+
+    if (!c.port || c.port < 1 || c.port > 65535) {
+      errors.push('port must be between 1 and 65535');
+    }
+    if (!HttpAdapter.hasTokens(c) && !isLoopbackHost(c.host || '127.0.0.1')) {
+      errors.push('token or users is required when listening on a non-loopback host');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  async start(): Promise<void> {
+    await this.init();
+
+    const port = this.config.port || 3152;
+    const host = this.config.host || '127.0.0.1';
+
+    // Without a token anyone who can reach the port could act as any user
+    if (!HttpAdapter.hasTokens(this.config) && !isLoopbackHost(host)) {
+      throw new Error(
+        `HTTP adapter refuses to listen on ${host} without a token; set token or users, or use 127.0.0.1`
+      );
+    }
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        consola.error('HTTP adapter request failed:', error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal error' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server?.once('error', reject);
+      this.server?.listen(port, host, () => resolve());
+    });
+
+    consola.success(`HTTP adapter started on http://${host}:${port}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      // Drops SSE streams and waiting long-polls, whose close handlers clean up
+      this.server.closeAllConnections();
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  async sendMessage(channel: string, message: string, threadTs?: string): Promise<string> {
+    return this.emit({ type: 'message', channel, threadTs, text: message }).ts;
+  }
+
+  async updateMessage(channel: string, messageTs: string, message: string): Promise<void> {
+    const original = this.events.find((e) => e.ts === messageTs);
+    this.emit({
+      type: 'update',
+      channel,
+      ts: messageTs,
+      threadTs: original?.threadTs,
+      text: message,
+    });
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  async sendProjectSelectionCard(
+    channel: string,
+    projects: Array<{ name: string; path: string }>,
+    pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string> {
+    const actions = projects.slice(0, 20).map((project) => ({
+      action: 'select_project',
+      value: project.path,
+      label: project.path,
+    }));
+    const context = pendingPrompt.startsWith('Current:')
+      ? pendingPrompt
+      : `Your message: "${pendingPrompt.slice(0, 100)}"`;
+
+    return this.emit({
+      type: 'interactive',
+      channel,
+      threadTs,
+      text: `Please select a project to work with:\n${context}`,
+      actions,
+    }).ts;
+  }
+
+  async sendPermissionCard(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
+  ): Promise<string> {
+    return this.emit({
+      type: 'interactive',
+      channel,
+      threadTs,
+      text: `⚠️ Permission Request\nClaude wants to use ${toolName}\n${JSON.stringify(toolInput, null, 2).slice(0, 500)}`,
+      actions: [
+        { action: 'permission_approve', value: requestId, label: 'Allow' },
+        { action: 'permission_deny', value: requestId, label: 'Deny' },
+      ],
+    }).ts;
+  }
+
+  async uploadSnippet(
+    channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    this.emit({
+      type: 'snippet',
+      channel,
+      threadTs: options.threadTs,
+      text: content,
+      filename: options.filename || options.title || 'snippet.txt',
+    });
+  }
+
+  /**
+   * Cards are built as Slack blocks by the message processor; clients get the
+   * raw blocks plus the buttons flattened into actions
+   */
+  async sendInteractiveMessage(
+    channel: string,
+    text: string,
+    blocks: unknown[],
+    threadTs?: string
+  ): Promise<string> {
+    const texts: string[] = [];
+    const actions: HttpAction[] = [];
+
+    for (const block of blocks as Array<Record<string, unknown>>) {
+      const blockText = block.text as { text?: string } | undefined;
+      if (blockText?.text) texts.push(blockText.text);
+
+      const elements = [
+        ...((block.elements as Array<Record<string, unknown>>) || []),
+        ...(block.accessory ? [block.accessory as Record<string, unknown>] : []),
+      ];
+      for (const element of elements) {
+        if (element.type === 'button' && typeof element.action_id === 'string') {
+          actions.push({
+            action: element.action_id,
+            value: String(element.value ?? ''),
+            label: (element.text as { text?: string } | undefined)?.text || element.action_id,
+          });
+        }
+      }
+    }
+
+    return this.emit({
+      type: 'interactive',
+      channel,
+      threadTs,
+      text: texts.join('\n') || text,
+      actions,
+      blocks,
+    }).ts;
+  }
+
+  private emit(event: Omit<HttpEvent, 'seq' | 'ts' | 'time'> & { ts?: string }): HttpEvent {
+    this.seq++;
+    const full: HttpEvent = {
+      ...event,
+      seq: this.seq,
+      ts: event.ts || `${Date.now()}.${this.seq}`,
+      time: new Date().toISOString(),
+    };
+
+    this.events.push(full);
+    if (this.events.length > HttpAdapter.MAX_EVENTS) {
+      this.events.splice(0, this.events.length - HttpAdapter.MAX_EVENTS);
+    }
+
+    for (const listener of this.listeners) {
+      listener(full);
+    }
+    return full;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health') {
+      this.sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    const user = this.authenticate(req, url);
+    if (!user) {
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      await this.handlePostMessage(req, res, user);
+    } else if (url.pathname === '/interactions' && req.method === 'POST') {
+      await this.handlePostInteraction(req, res, user);
+    } else if (url.pathname === '/events' && req.method === 'GET') {
+      this.handleEvents(req, res, url, user);
+    } else {
+      this.sendJson(res, 404, { error: 'Not Found' });
+    }
+  }
+
+  private static hasTokens(config: Partial<HttpAdapterConfig>): boolean {
+    return !!config.token || Object.keys(config.users || {}).length > 0;
+  }
+
+  /**
+   * The user the request's token belongs to, or null when it has none.
+   * Identity comes only from the token so clients can't claim to be someone else.
+   */
+  private authenticate(req: IncomingMessage, url: URL): string | null {
+    if (!HttpAdapter.hasTokens(this.config)) return HttpAdapter.LOCAL_USER;
+
+    // EventSource can't set headers, so SSE clients may pass ?token=
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : url.searchParams.get('token');
+    if (!token) return null;
+
+    for (const [user, userToken] of Object.entries(this.config.users || {})) {
+      if (userToken && HttpAdapter.tokensMatch(token, userToken)) return user;
+    }
+    if (this.config.token && HttpAdapter.tokensMatch(token, this.config.token)) {
+      return HttpAdapter.TOKEN_USER;
+    }
+    return null;
+  }
+
+  /**
+   * Constant-time comparison (hashed first, timingSafeEqual needs equal lengths)
+   */
+  private static tokensMatch(given: string, expected: string): boolean {
+    const hash = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(hash(given), hash(expected));
+  }
+
+  // The adapter's channel ID of a user's channel, and the other way round
+  private static toChannelId(user: string, channel: string): string {
+    return `${user}/${channel}`;
+  }
+
+  private static toClientEvent(user: string, event: HttpEvent): HttpEvent {
+    return { ...event, channel: event.channel.slice(user.length + 1) };
+  }
+
+  private async handlePostMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    user: string
+  ): Promise<void> {
+    const body = await this.readJson(req, res);
+    if (!body) return;
+
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (typeof body.channel !== 'string' || !body.channel || !text) {
+      this.sendJson(res, 400, { error: 'channel and text are required' });
+      return;
+    }
+    const channel = HttpAdapter.toChannelId(user, body.channel);
+    const userId = `http:${user}`;
+
+    // Record the client's message so ts/threadTs work like any other IM
+    const messageTs = this.emit({
+      type: 'message',
+      channel,
+      threadTs: typeof body.threadTs === 'string' ? body.threadTs : undefined,
+      user: userId,
+      text,
+    }).ts;
+    const context: MessageContext = {
+      channelId: channel,
+      userId,
+      threadTs: typeof body.threadTs === 'string' ? body.threadTs : messageTs,
+      messageTs,
+    };
+
+    const images: IMImageAttachment[] = [];
+    if (Array.isArray(body.images)) {
+      for (const image of body.images as Array<Record<string, unknown>>) {
+        if (typeof image.data !== 'string') continue;
+        images.push({
+          buffer: Buffer.from(image.data, 'base64'),
+          // Only the name, the message processor saves it into the project
+          filename: typeof image.filename === 'string' ? basename(image.filename) : 'image.png',
+          mimetype: typeof image.mimetype === 'string' ? image.mimetype : 'image/png',
+        });
+      }
+    }
+
+    this.sendJson(res, 202, { ok: true, messageTs, threadTs: context.threadTs });
+
+    // Claude runs can take minutes, so handle after responding
+    for (const handler of this.messageHandlers) {
+      handler({ text, context, images: images.length > 0 ? images : undefined }).catch((error) =>
+        consola.error('HTTP message handler failed:', error)
+      );
+    }
+  }
+
+  private async handlePostInteraction(
+    req: IncomingMessage,
+    res: ServerResponse,
+    user: string
+  ): Promise<void> {
+    const body = await this.readJson(req, res);
+    if (!body) return;
+
+    const action = typeof body.action === 'string' ? body.action : '';
+    if (!action || typeof body.channel !== 'string' || !body.channel) {
+      this.sendJson(res, 400, { error: 'channel and action are required' });
+      return;
+    }
+
+    const context: MessageContext = {
+      channelId: HttpAdapter.toChannelId(user, body.channel),
+      userId: `http:${user}`,
+      threadTs: typeof body.threadTs === 'string' ? body.threadTs : undefined,
+      messageTs: typeof body.messageTs === 'string' ? body.messageTs : undefined,
+    };
+    const value = typeof body.value === 'string' ? body.value : '';
+
+    this.sendJson(res, 202, { ok: true });
+
+    for (const handler of this.interactionHandlers) {
+      handler(action, value, context).catch((error) =>
+        consola.error('HTTP interaction handler failed:', error)
+      );
+    }
+  }
+
+  /**
+   * Stream events of one of the user's channels over SSE, or answer a long poll with
+   * everything after `since`
+   */
+  private handleEvents(req: IncomingMessage, res: ServerResponse, url: URL, user: string): void {
+    const channelParam = url.searchParams.get('channel');
+    if (!channelParam) {
+      this.sendJson(res, 400, { error: 'channel is required' });
+      return;
+    }
+    const channel = HttpAdapter.toChannelId(user, channelParam);
+    const since = Number(url.searchParams.get('since') || 0);
+    const matches = (event: HttpEvent) => event.seq > since && event.channel === channel;
+    const toClient = (event: HttpEvent) => HttpAdapter.toClientEvent(user, event);
+
+    if ((req.headers.accept || '').includes('text/event-stream')) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+
+      const write = (event: HttpEvent) => {
+        if (matches(event)) {
+          res.write(
+            `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(toClient(event))}\n\n`
+          );
+        }
+      };
+      for (const event of this.events) write(event);
+
+      this.listeners.add(write);
+      req.on('close', () => this.listeners.delete(write));
+      return;
+    }
+
+    const pending = this.events.filter(matches);
+    if (pending.length > 0) {
+      this.sendJson(res, 200, {
+        events: pending.map(toClient),
+        next: pending[pending.length - 1].seq,
+      });
+      return;
+    }
+
+    const timeoutSeconds = Math.min(
+      Number(url.searchParams.get('timeout') || HttpAdapter.DEFAULT_POLL_SECONDS),
+      60
+    );
+    const finish = (events: HttpEvent[]) => {
+      clearTimeout(timer);
+      this.listeners.delete(listener);
+      if (!res.writableEnded) {
+        this.sendJson(res, 200, {
+          events: events.map(toClient),
+          next: events.length ? events[events.length - 1].seq : since,
+        });
+      }
+    };
+    const listener = (event: HttpEvent) => {
+      if (matches(event)) finish([event]);
+    };
+    const timer = setTimeout(() => finish([]), timeoutSeconds * 1000);
+
+    this.listeners.add(listener);
+    req.on('close', () => {
+      clearTimeout(timer);
+      this.listeners.delete(listener);
+    });
+  }
+
+  private async readJson(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<Record<string, unknown> | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > HttpAdapter.MAX_BODY_BYTES) {
+        this.sendJson(res, 413, { error: 'Request body too large' });
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Fall through to the error response
+    }
+
+    this.sendJson(res, 400, { error: 'Body must be a JSON object' });
+    return null;
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
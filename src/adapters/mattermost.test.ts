@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer } from 'ws';
+import type { IMMessage } from '../types';
+import { MattermostAdapter } from './mattermost';
+
+interface FakePost {
+  channel_id: string;
+  root_id: string;
+  message: string;
+  props?: {
+    attachments?: Array<{ actions?: Array<{ integration: { url: string; context: object } }> }>;
+  };
+}
+
+let adapter: MattermostAdapter | null = null;
+let server: Server | null = null;
+let sockets: WebSocketServer | null = null;
+
+afterEach(async () => {
+  await adapter?.stop();
+  sockets?.close();
+  server?.closeAllConnections();
+  server?.close();
+  adapter = null;
+  sockets = null;
+  server = null;
+});
+
+// Stand-in for the Mattermost REST and websocket APIs
+async function startMattermost(posts: FakePost[]): Promise<string> {
+  server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    if (req.url === '/api/v4/users/me') {
+      res.end(JSON.stringify({ id: 'bot', username: 'heimerdinger' }));
+    } else if (req.url === '/api/v4/posts' && req.method === 'POST') {
+      posts.push(JSON.parse(Buffer.concat(chunks).toString()));
+      res.end(JSON.stringify({ id: `post${posts.length}` }));
+    } else {
+      res.end('{}');
+    }
+  });
+  sockets = new WebSocketServer({ server, path: '/api/v4/websocket' });
+  await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function emitPost(message: string): void {
+  const event = JSON.stringify({
+    event: 'posted',
+    data: {
+      channel_type: 'D',
+      post: JSON.stringify({ id: 'p1', channel_id: 'dm1', user_id: 'alice', root_id: '', message }),
+    },
+  });
+  for (const client of sockets?.clients || []) client.send(event);
+}
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('MattermostAdapter', () => {
+  test('receives direct messages and answers button callbacks', async () => {
+    const posts: FakePost[] = [];
+    const url = await startMattermost(posts);
+
+    adapter = new MattermostAdapter({ enabled: true, url, token: 't', port: 39153 });
+    const messages: IMMessage[] = [];
+    const actions: string[] = [];
+    adapter.onMessage(async (message) => {
+      messages.push(message);
+    });
+    adapter.onInteraction(async (action, value, context) => {
+      actions.push(`${action}=${value} by ${context.userId}`);
+    });
+    await adapter.start();
+
+    emitPost('hello');
+    await wait();
+    expect(messages.map((m) => m.text)).toEqual(['hello']);
+    expect(messages[0].context).toMatchObject({ channelId: 'dm1', userId: 'alice' });
+
+    await adapter.sendInteractiveMessage('dm1', 'Pick', [
+      { type: 'actions', elements: [{ type: 'button', action_id: 'do_it', value: 'v1' }] },
+    ]);
+    const action = posts[0].props?.attachments?.[0].actions?.[0];
+    expect(action?.integration.url).toBe('http://localhost:39153/actions');
+
+    const callback = (context: object) =>
+      fetch('http://127.0.0.1:39153/actions', {
+        method: 'POST',
+        body: JSON.stringify({ user_id: 'alice', channel_id: 'dm1', post_id: 'post1', context }),
+      }).then((response) => response.json());
+
+    expect(await callback({ ...action?.integration.context })).toEqual({});
+    expect(await callback({ action: 'do_it', value: 'v1', secret: 'forged' })).toEqual({
+      ephemeral_text: 'This button has expired.',
+    });
+    await wait();
+    expect(actions).toEqual(['do_it=v1 by alice']);
+  });
+
+  test('keeps the callback server on loopback unless a host is set', async () => {
+    const url = await startMattermost([]);
+    adapter = new MattermostAdapter({ enabled: true, url, token: 't', port: 39154 });
+    await adapter.start();
+
+    const callbackServer = (adapter as unknown as { server: Server }).server;
+    expect((callbackServer.address() as AddressInfo).address).toBe('127.0.0.1');
+  });
+});
@@ -0,0 +1,710 @@
+import { randomBytes } from 'node:crypto';
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import { consola } from 'consola';
+import WebSocket from 'ws';
+import type {
+  AudioMessageHandler,
+  ConfigField,
+  IMAdapter,
+  IMImageAttachment,
+  InteractionHandler,
+  MattermostAdapterConfig,
+  MessageContext,
+  MessageHandler,
+  ValidationResult,
+} from '../types';
+import { isLoopbackHost } from './network';
+import { parseSlackBlocks } from './slack-blocks';
+
+interface MattermostPost {
+  id: string;
+  root_id?: string;
+  channel_id: string;
+  user_id: string;
+  message: string;
+  type?: string;
+  file_ids?: string[];
+}
+
+interface MattermostFileInfo {
+  id: string;
+  name: string;
+  mime_type: string;
+}
+
+// Context Mattermost echoes back when a button or menu is used
+interface ActionContext {
+  action: string;
+  value?: string;
+  selected_option?: string;
+  threadTs?: string;
+  secret?: string;
+}
+
+interface MattermostAction {
+  id: string;
+  name: string;
+  type: 'button' | 'select';
+  style?: string;
+  options?: Array<{ text: string; value: string }>;
+  integration: { url: string; context: ActionContext };
+}
+
+interface MattermostAttachment {
+  text?: string;
+  actions?: MattermostAction[];
+}
+
+/**
+ * Self-hosted Mattermost adapter. Posts arrive over the websocket API and replies use
+ * the REST API, with threads mapped like Slack's (root post id as threadTs).
+ * Interactive message buttons post back to a small HTTP endpoint on this machine,
+ * which the Mattermost server has to be able to reach.
+ */
+export class MattermostAdapter implements IMAdapter {
+  readonly name = 'mattermost';
+  // Pages stay within MAX_TEXT_LENGTH instead of formatContent dropping their start
+  readonly maxMessageBytes = 16000;
+  private config: MattermostAdapterConfig;
+  private socket: WebSocket | null = null;
+  private server: Server | null = null;
+  private running = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private messageHandlers: MessageHandler[] = [];
+  private audioMessageHandlers: AudioMessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+  private botUserId: string | null = null;
+  private botUsername: string | null = null;
+  // Sent with every action so callbacks can't be forged by other clients
+  private readonly actionSecret = randomBytes(16).toString('hex');
+
+  // Throttle edits, Mattermost rate limits API calls per user
+  private lastUpdateTime: Map<string, number> = new Map();
+  private pendingUpdates: Map<string, string> = new Map();
+  private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private static readonly UPDATE_INTERVAL = 1000;
+  private static readonly RECONNECT_DELAY = 5000;
+  private static readonly MAX_TEXT_LENGTH = 16000;
+  private static readonly MAX_BODY_BYTES = 1024 * 1024;
+
+  constructor(config: MattermostAdapterConfig) {
+    this.config = config;
+  }
+
+  async init(): Promise<void> {
+    const me = await this.api<{ id: string; username: string }>('GET', '/users/me');
+    this.botUserId = me.id;
+    this.botUsername = me.username;
+    consola.debug(`Mattermost bot: @${me.username} (${me.id})`);
+  }
+
+  getConfigTemplate(): ConfigField[] {
+    return MattermostAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
+    return [
+      {
+        name: 'url',
+        type: 'string',
+        required: true,
+        description: 'Mattermost server URL (https://mattermost.example.com)',
+      },
+      {
+        name: 'token',
+        type: 'string',
+        required: true,
+        description: 'Bot access token (Integrations > Bot Accounts)',
+        secret: true,
+      },
+      {
+        name: 'callbackUrl',
+        type: 'string',
+        required: false,
+        description: 'URL the Mattermost server uses to reach this machine for buttons',
+        default: 'http://localhost:3153',
+      },
+      {
+        name: 'port',
+        type: 'number',
+        required: false,
+        description: 'Port for button callbacks',
+        default: 3153,
+      },
+      {
+        name: 'host',
+        type: 'string',
+        required: false,
+        description: 'Interface for button callbacks (0.0.0.0 to let a remote server reach it)',
+        default: '127.0.0.1',
+      },
+    ];
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    return MattermostAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
+    const errors: string[] = [];
+    const c = config as Partial<MattermostAdapterConfig>;
+
+    if (!c.url || !/^https?:\/\//.test(c.url)) {
+      errors.push('Invalid url: must start with http:// or https://');
+    }
+
+    if (!c.token) {
+      errors.push('token is required');
+    }
+
+    if (c.callbackUrl && !/^https?:\/\//.test(c.callbackUrl)) {
+      errors.push('Invalid callbackUrl: must start with http:// or https://');
+    }
+
+    if (c.port !== undefined && (!Number.isInteger(c.port) || c.port < 1 || c.port > 65535)) {
+      errors.push('Invalid port: must be between 1 and 65535');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  async start(): Promise<void> {
+    await this.init();
+
+    const port = this.config.port || 3153;
+    // Exposing the callback server is opt-in, the default only serves a Mattermost on this machine
+    const host = this.config.host || '127.0.0.1';
+    const callbackHost = this.config.callbackUrl ? new URL(this.config.callbackUrl).hostname : '';
+    if (isLoopbackHost(host) && callbackHost && !isLoopbackHost(callbackHost)) {
+      consola.warn(
+        `Mattermost callbacks listen on ${host} but callbackUrl points to ${callbackHost}; set host to make buttons work`
+      );
+    }
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        consola.error('Mattermost request error:', error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server?.once('error', reject);
+      this.server?.listen(port, host, () => resolve());
+    });
+
+    this.running = true;
+    await this.connect();
+    consola.success(`Mattermost adapter connected as @${this.botUsername}`);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+
+    for (const timer of this.updateTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.updateTimers.clear();
+    this.pendingUpdates.clear();
+    this.lastUpdateTime.clear();
+
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+    consola.debug('Mattermost adapter stopped');
+  }
+
+  async sendMessage(channel: string, message: string, threadTs?: string): Promise<string> {
+    return this.createPost(channel, this.formatText(message), threadTs);
+  }
+
+  async updateMessage(_channel: string, messageTs: string, message: string): Promise<void> {
+    const now = Date.now();
+    const lastUpdate = this.lastUpdateTime.get(messageTs) || 0;
+    const timeSinceLastUpdate = now - lastUpdate;
+
+    // Within the throttle interval only the latest text is kept
+    if (timeSinceLastUpdate < MattermostAdapter.UPDATE_INTERVAL) {
+      this.pendingUpdates.set(messageTs, message);
+
+      if (!this.updateTimers.has(messageTs)) {
+        const timer = setTimeout(() => {
+          this.flushPendingUpdate(messageTs);
+        }, MattermostAdapter.UPDATE_INTERVAL - timeSinceLastUpdate);
+        this.updateTimers.set(messageTs, timer);
+      }
+      return;
+    }
+
+    await this.doUpdateMessage(messageTs, message);
+  }
+
+  private async flushPendingUpdate(messageTs: string): Promise<void> {
+    const pendingMessage = this.pendingUpdates.get(messageTs);
+    this.pendingUpdates.delete(messageTs);
+    this.updateTimers.delete(messageTs);
+
+    if (pendingMessage) {
+      try {
+        await this.doUpdateMessage(messageTs, pendingMessage);
+      } catch (error) {
+        consola.warn('Failed to update Mattermost post:', error);
+      }
+    }
+  }
+
+  private async doUpdateMessage(messageTs: string, message: string): Promise<void> {
+    this.lastUpdateTime.set(messageTs, Date.now());
+
+    // Replacing the text also drops a card's buttons, like a Slack text update
+    await this.api('PUT', `/posts/${messageTs}/patch`, {
+      message: this.formatText(message),
+      props: { attachments: [] },
+    });
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  onAudioMessage(handler: AudioMessageHandler): void {
+    this.audioMessageHandlers.push(handler);
+  }
+
+  /**
+   * Buttons become interactive message actions, headers become Markdown headings
+   */
+  async sendInteractiveMessage(
+    channel: string,
+    text: string,
+    blocks: unknown[],
+    threadTs?: string
+  ): Promise<string> {
+    const texts: string[] = [];
+    const actions: MattermostAction[] = [];
+
+    for (const part of parseSlackBlocks(blocks)) {
+      if (part.text) {
+        texts.push(part.type === 'header' ? `#### ${part.text}` : part.text);
+      }
+      texts.push(...part.notes);
+      for (const button of part.buttons) {
+        actions.push(
+          this.action(
+            actions.length,
+            button.label,
+            { action: button.action, value: button.value },
+            threadTs,
+            button.style === 'primary' || button.style === 'danger' ? button.style : 'default'
+          )
+        );
+      }
+    }
+
+    return this.createPost(channel, this.formatText(texts.join('\n') || text), threadTs, [
+      { actions },
+    ]);
+  }
+
+  async sendPermissionCard(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
+  ): Promise<string> {
+    const inputStr = JSON.stringify(toolInput, null, 2).slice(0, 500);
+
+    return this.createPost(
+      channel,
+      `#### ⚠️ Permission Request\nClaude wants to use **${toolName}**\n\`\`\`\n${inputStr}\n\`\`\``,
+      threadTs,
+      [
+        {
+          actions: [
+            this.action(
+              0,
+              '✅ Allow',
+              { action: 'permission_approve', value: requestId },
+              threadTs,
+              'primary'
+            ),
+            this.action(
+              1,
+              '❌ Deny',
+              { action: 'permission_deny', value: requestId },
+              threadTs,
+              'danger'
+            ),
+          ],
+        },
+      ]
+    );
+  }
+
+  /**
+   * Send a project selection card: full paths in the post, picked from a menu
+   */
+  async sendProjectSelectionCard(
+    channel: string,
+    projects: Array<{ name: string; path: string }>,
+    pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string> {
+    const shown = projects.slice(0, 20);
+    const lines = shown.map((project) => `- \`${project.path}\``);
+
+    if (projects.length > shown.length) {
+      lines.push(`_...and ${projects.length - shown.length} more projects_`);
+    }
+    if (pendingPrompt && !pendingPrompt.startsWith('Current:')) {
+      lines.push(
+        `Your message: _"${pendingPrompt.slice(0, 100)}${pendingPrompt.length > 100 ? '...' : ''}"_`
+      );
+    }
+
+    const select: MattermostAction = {
+      ...this.action(0, 'Select a project', { action: 'select_project' }, threadTs),
+      type: 'select',
+      options: shown.map((project) => ({ text: project.name, value: project.path })),
+    };
+
+    return this.createPost(
+      channel,
+      `**Please select a project to work with:**\n${lines.join('\n')}`,
+      threadTs,
+      [{ actions: [select] }]
+    );
+  }
+
+  /**
+   * Upload a code snippet as a file attached to a post
+   */
+  async uploadSnippet(
+    channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    try {
+      const form = new FormData();
+      form.append('channel_id', channel);
+      form.append(
+        'files',
+        new Blob([content], { type: 'text/plain' }),
+        options.filename || 'snippet.txt'
+      );
+
+      const uploaded = await this.api<{ file_infos: MattermostFileInfo[] }>('POST', '/files', form);
+      await this.api('POST', '/posts', {
+        channel_id: channel,
+        root_id: options.threadTs || '',
+        message: this.formatText(options.initialComment || options.title || ''),
+        file_ids: uploaded.file_infos.map((file) => file.id),
+      });
+    } catch (error) {
+      consola.error('Failed to upload snippet:', error);
+    }
+  }
+
+  /**
+   * Open the websocket and reconnect whenever it drops while running
+   */
+  private connect(): Promise<void> {
+    const url = `${this.baseUrl().replace(/^http/, 'ws')}/api/v4/websocket`;
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url, {
+        headers: { Authorization: `Bearer ${this.config.token}` },
+      });
+      this.socket = socket;
+      let opened = false;
+
+      socket.on('open', () => {
+        opened = true;
+        resolve();
+      });
+
+      socket.on('message', (data) => {
+        this.handleEvent(data.toString()).catch((error) =>
+          consola.error('[mattermost] handler error:', error)
+        );
+      });
+
+      socket.on('error', (error) => {
+        if (!opened) {
+          reject(error);
+          return;
+        }
+        consola.warn('Mattermost websocket error:', error);
+      });
+
+      socket.on('close', () => {
+        if (!opened || !this.running || this.socket !== socket) return;
+        consola.warn('Mattermost websocket closed, reconnecting...');
+        this.scheduleReconnect();
+      });
+    });
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        consola.warn('Mattermost reconnect failed:', error);
+        if (this.running) this.scheduleReconnect();
+      });
+    }, MattermostAdapter.RECONNECT_DELAY);
+  }
+
+  private async handleEvent(raw: string): Promise<void> {
+    const event = JSON.parse(raw) as { event?: string; data?: Record<string, string> };
+    if (event.event !== 'posted' || !event.data?.post) return;
+
+    const post = JSON.parse(event.data.post) as MattermostPost;
+
+    // Ignore the bot's own posts and system messages (joins, header changes, ...)
+    if (post.user_id === this.botUserId || post.type) return;
+
+    const isDM = event.data.channel_type === 'D';
+    const mentions = event.data.mentions ? (JSON.parse(event.data.mentions) as string[]) : [];
+    const hasMention = !!this.botUserId && mentions.includes(this.botUserId);
+
+    consola.info(
+      `[mattermost:posted] user=${post.user_id} isDM=${isDM} text="${post.message.slice(0, 50)}"`
+    );
+
+    if (!isDM && !hasMention) return;
+
+    const context: MessageContext = {
+      channelId: post.channel_id,
+      userId: post.user_id,
+      threadTs: post.root_id || post.id,
+      messageTs: post.id,
+    };
+
+    // Process files: audio/video → transcription, images → attach to message
+    const images: IMImageAttachment[] = [];
+    for (const fileId of post.file_ids || []) {
+      try {
+        const file = await this.api<MattermostFileInfo>('GET', `/files/${fileId}/info`);
+
+        if (file.mime_type.startsWith('audio/') || file.mime_type.startsWith('video/')) {
+          consola.info(`Received audio file: ${file.mime_type}`);
+          const audioBuffer = await this.downloadFile(file.id);
+          for (const handler of this.audioMessageHandlers) {
+            await handler({ audioBuffer, mimeType: file.mime_type, context });
+          }
+          return; // Don't process as text message
+        }
+
+        if (file.mime_type.startsWith('image/')) {
+          images.push({
+            buffer: await this.downloadFile(file.id),
+            filename: file.name,
+            mimetype: file.mime_type,
+          });
+        }
+      } catch (error) {
+        consola.error('Failed to download Mattermost file:', error);
+      }
+    }
+
+    const text = this.botUsername
+      ? post.message.replace(new RegExp(`@${this.botUsername}\\b`, 'gi'), '').trim()
+      : post.message.trim();
+
+    // Skip empty messages (but allow image-only messages)
+    if (!text && images.length === 0) return;
+
+    for (const handler of this.messageHandlers) {
+      await handler({ text, context, images: images.length > 0 ? images : undefined });
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok' }));
+      return;
+    }
+
+    if (url.pathname !== '/actions' || req.method !== 'POST') {
+      res.writeHead(404);
+      res.end('Not Found');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MattermostAdapter.MAX_BODY_BYTES) {
+        res.writeHead(413);
+        res.end();
+        return;
+      }
+      chunks.push(chunk);
+    }
+
+    let body: {
+      user_id?: string;
+      channel_id?: string;
+      post_id?: string;
+      context?: ActionContext;
+    };
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+
+    const action = body.context;
+    if (!action?.action || action.secret !== this.actionSecret) {
+      // Buttons rendered before a restart carry an old secret
+      res.end(JSON.stringify({ ephemeral_text: 'This button has expired.' }));
+      return;
+    }
+    res.end('{}');
+
+    const value = action.selected_option ?? action.value ?? '';
+    consola.debug(`Mattermost action received: ${action.action} = ${value}`);
+
+    const context: MessageContext = {
+      channelId: body.channel_id || '',
+      userId: body.user_id || '',
+      messageTs: body.post_id,
+      threadTs: action.threadTs,
+    };
+
+    // Answered already, handlers may run for as long as Claude does
+    (async () => {
+      for (const handler of this.interactionHandlers) {
+        await handler(action.action, value, context);
+      }
+    })().catch((error) => consola.error('[mattermost] action handler error:', error));
+  }
+
+  private action(
+    index: number,
+    name: string,
+    context: Pick<ActionContext, 'action' | 'value'>,
+    threadTs?: string,
+    style = 'default'
+  ): MattermostAction {
+    const callbackUrl = (
+      this.config.callbackUrl || `http://localhost:${this.config.port || 3153}`
+    ).replace(/\/$/, '');
+
+    return {
+      // Mattermost only accepts alphanumeric action ids
+      id: `action${index}`,
+      name,
+      type: 'button',
+      style,
+      integration: {
+        url: `${callbackUrl}/actions`,
+        context: { ...context, threadTs, secret: this.actionSecret },
+      },
+    };
+  }
+
+  private async createPost(
+    channel: string,
+    message: string,
+    threadTs?: string,
+    attachments?: MattermostAttachment[]
+  ): Promise<string> {
+    const post = await this.api<MattermostPost>('POST', '/posts', {
+      channel_id: channel,
+      root_id: threadTs || '',
+      message,
+      ...(attachments ? { props: { attachments } } : {}),
+    });
+    return post.id;
+  }
+
+  private async api<T = unknown>(
+    method: string,
+    path: string,
+    body?: Record<string, unknown> | FormData
+  ): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.config.token}` };
+    let payload: string | FormData | undefined;
+    if (body instanceof FormData) {
+      payload = body;
+    } else if (body) {
+      headers['Content-Type'] = 'application/json';
+      payload = JSON.stringify(body);
+    }
+
+    const response = await fetch(`${this.baseUrl()}/api/v4${path}`, {
+      method,
+      headers,
+      body: payload,
+    });
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { message?: string };
+      throw new Error(
+        `Mattermost ${method} ${path} failed: ${error.message || `${response.status} ${response.statusText}`}`
+      );
+    }
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Download a file using bot token authentication
+   */
+  private async downloadFile(fileId: string): Promise<Buffer> {
+    const response = await fetch(`${this.baseUrl()}/api/v4/files/${fileId}`, {
+      headers: { Authorization: `Bearer ${this.config.token}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private baseUrl(): string {
+    return this.config.url.replace(/\/$/, '');
+  }
+
+  private formatText(text: string): string {
+    // Slack uses *bold* and <url|text>, Mattermost uses **bold** and [text](url)
+    let result = text.replace(/(?<![*\w])\*([^*\n]+)\*(?![*\w])/g, '**$1**');
+    result = result.replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '[$2]($1)');
+
+    if (result.length > MattermostAdapter.MAX_TEXT_LENGTH) {
+      result = `…${result.slice(-(MattermostAdapter.MAX_TEXT_LENGTH - 1))}`;
+    }
+    return result;
+  }
+}
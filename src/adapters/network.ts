@@ -0,0 +1,6 @@
+/**
+ * Whether a listen address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
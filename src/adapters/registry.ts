@@ -0,0 +1,261 @@
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  CONFIG_DIR,
+  DISCORD_ADAPTER_NAME,
+  EMAIL_ADAPTER_NAME,
+  FEISHU_ADAPTER_NAME,
+  HTTP_ADAPTER_NAME,
+  MATTERMOST_ADAPTER_NAME,
+  SLACK_ADAPTER_NAME,
+  TEAMS_ADAPTER_NAME,
+  TELEGRAM_ADAPTER_NAME,
+} from '../constants';
+import type {
+  AdapterConfigs,
+  AdapterDefinition,
+  DiscordAdapterConfig,
+  EmailAdapterConfig,
+  FeishuAdapterConfig,
+  HttpAdapterConfig,
+  MattermostAdapterConfig,
+  SlackAdapterConfig,
+  TeamsAdapterConfig,
+  TelegramAdapterConfig,
+} from '../types';
+
+// Adapters are imported when used, so only the SDKs of configured platforms are loaded
+const builtinAdapters: Map<string, AdapterDefinition> = new Map();
+
+/**
+ * Make an adapter available by name, for the server and for `hmdg init`
+ */
+function registerAdapter(definition: AdapterDefinition): void {
+  builtinAdapters.set(definition.name, definition);
+}
+
+export function getBuiltinAdapters(): AdapterDefinition[] {
+  return [...builtinAdapters.values()];
+}
+
+/**
+ * Import an adapter package. `module` is resolved from ~/.heimerdinger first, so
+ * adapters can be installed there with `npm install`, then like a normal import.
+ */
+export async function loadExternalAdapter(module: string): Promise<AdapterDefinition> {
+  let specifier = module;
+  if (module.startsWith('.') || isAbsolute(module)) {
+    specifier = pathToFileURL(resolve(CONFIG_DIR, module)).href;
+  } else {
+    try {
+      const require = createRequire(join(CONFIG_DIR, 'package.json'));
+      specifier = pathToFileURL(require.resolve(module)).href;
+    } catch {
+      // Not installed in the config dir, let Node resolve it
+    }
+  }
+
+  const loaded = await import(specifier);
+  const definition = (loaded.default ?? loaded.adapter) as AdapterDefinition | undefined;
+  if (!definition?.name || typeof definition.create !== 'function') {
+    throw new Error(`Module "${module}" does not export an adapter definition`);
+  }
+  return definition;
+}
+
+/**
+ * Find the definition for a configured adapter: built-in by name, or loaded from its `module`
+ */
+export async function resolveAdapter(
+  name: string,
+  config: Record<string, unknown>
+): Promise<AdapterDefinition> {
+  if (typeof config.module === 'string' && config.module) {
+    return loadExternalAdapter(config.module);
+  }
+
+  const definition = builtinAdapters.get(name);
+  if (!definition) {
+    throw new Error(`Unknown adapter "${name}" (set "module" to load a third-party adapter)`);
+  }
+  return definition;
+}
+
+/**
+ * Names of the adapters to start: every entry with `enabled: true`, plus the
+ * legacy `activeAdapter` unless it was explicitly disabled
+ */
+export function getEnabledAdapterNames(adapters: AdapterConfigs, activeAdapter?: string): string[] {
+  const names = Object.entries(adapters)
+    .filter(([, config]) => (config as { enabled?: boolean } | undefined)?.enabled === true)
+    .map(([name]) => name);
+
+  const active = activeAdapter
+    ? (adapters[activeAdapter] as { enabled?: boolean } | undefined)
+    : undefined;
+  if (activeAdapter && active && active.enabled !== false && !names.includes(activeAdapter)) {
+    names.unshift(activeAdapter);
+  }
+
+  return names;
+}
+
+registerAdapter({
+  name: SLACK_ADAPTER_NAME,
+  label: 'Slack',
+  setupGuide:
+    '1. Visit https://api.slack.com/apps and create a new app\n' +
+    '2. Enable "Socket Mode" in Settings > Socket Mode\n' +
+    '3. Add OAuth Scopes in OAuth & Permissions:\n' +
+    '   - app_mentions:read, chat:write, im:history, im:read, im:write, files:read\n' +
+    '4. Install the app to your workspace',
+  announceOnline: true,
+  getConfigTemplate: async () => (await import('./slack')).SlackAdapter.getConfigTemplate(),
+  validateConfig: async (config) => (await import('./slack')).SlackAdapter.validateConfig(config),
+  create: async (config) => {
+    const { SlackAdapter } = await import('./slack');
+    const slackConfig = config as unknown as SlackAdapterConfig;
+    return new SlackAdapter({
+      ...slackConfig,
+      socketMode: slackConfig.socketMode ?? true,
+    });
+  },
+});
+
+registerAdapter({
+  name: FEISHU_ADAPTER_NAME,
+  label: 'Feishu (Lark)',
+  setupGuide:
+    '1. Visit https://open.feishu.cn/app and create a new app\n' +
+    '2. In "Credentials & Basic Info", get App ID and App Secret\n' +
+    '3. In "Event Subscriptions", add "im.message.receive_v1" event\n' +
+    '4. In "Permissions & Scopes", add:\n' +
+    '   - im:message, im:message:send_as_bot, im:resource, im:chat:readonly\n' +
+    '5. Enable the bot capability and publish the app',
+  getConfigTemplate: async () => (await import('./feishu')).FeishuAdapter.getConfigTemplate(),
+  validateConfig: async (config) => (await import('./feishu')).FeishuAdapter.validateConfig(config),
+  create: async (config) => {
+    const { FeishuAdapter } = await import('./feishu');
+    const feishuConfig = config as unknown as FeishuAdapterConfig;
+    return new FeishuAdapter({
+      ...feishuConfig,
+      connectionMode: feishuConfig.connectionMode ?? 'websocket',
+      domain: feishuConfig.domain ?? 'feishu',
+    });
+  },
+});
+
+registerAdapter({
+  name: HTTP_ADAPTER_NAME,
+  label: 'HTTP API',
+  getConfigTemplate: async () => (await import('./http')).HttpAdapter.getConfigTemplate(),
+  validateConfig: async (config) => (await import('./http')).HttpAdapter.validateConfig(config),
+  create: async (config) => {
+    const { HttpAdapter } = await import('./http');
+    const httpConfig = config as unknown as HttpAdapterConfig;
+    return new HttpAdapter({
+      ...httpConfig,
+      port: httpConfig.port ?? 3152,
+      host: httpConfig.host ?? '127.0.0.1',
+    });
+  },
+});
+
+registerAdapter({
+  name: DISCORD_ADAPTER_NAME,
+  label: 'Discord',
+  setupGuide:
+    '1. Visit https://discord.com/developers/applications and create a new application\n' +
+    '2. In "Bot", reset and copy the token, and enable "Message Content Intent"\n' +
+    '3. In "OAuth2 > URL Generator", pick the "bot" scope and the permissions:\n' +
+    '   - Send Messages, Send Messages in Threads, Create Public Threads,\n' +
+    '     Read Message History, Attach Files\n' +
+    '4. Open the generated URL to add the bot to your server',
+  getConfigTemplate: async () => (await import('./discord')).DiscordAdapter.getConfigTemplate(),
+  validateConfig: async (config) =>
+    (await import('./discord')).DiscordAdapter.validateConfig(config),
+  create: async (config) => {
+    const { DiscordAdapter } = await import('./discord');
+    return new DiscordAdapter(config as unknown as DiscordAdapterConfig);
+  },
+});
+
+registerAdapter({
+  name: TEAMS_ADAPTER_NAME,
+  label: 'Microsoft Teams',
+  setupGuide:
+    '1. Create an Azure Bot resource (or register a bot in the Teams Developer Portal)\n' +
+    '2. Copy the Microsoft App ID and create a client secret\n' +
+    '3. Set the messaging endpoint to https://<your-host>/api/messages\n' +
+    '   (forwarded to the port configured below)\n' +
+    '4. Enable the Microsoft Teams channel and install the app in Teams\n' +
+    'Leave App ID empty to test locally with the Bot Framework Emulator.',
+  getConfigTemplate: async () => (await import('./teams')).TeamsAdapter.getConfigTemplate(),
+  validateConfig: async (config) => (await import('./teams')).TeamsAdapter.validateConfig(config),
+  create: async (config) => {
+    const { TeamsAdapter } = await import('./teams');
+    const teamsConfig = config as unknown as TeamsAdapterConfig;
+    return new TeamsAdapter({ ...teamsConfig, port: teamsConfig.port ?? 3978 });
+  },
+});
+
+registerAdapter({
+  name: TELEGRAM_ADAPTER_NAME,
+  label: 'Telegram',
+  setupGuide:
+    '1. Message @BotFather in Telegram and send /newbot\n' +
+    '2. Pick a name and username, then copy the bot token\n' +
+    '3. To use the bot in groups, add it and mention it (@your_bot) in messages\n' +
+    'The bot uses long polling, so no public URL is needed.',
+  getConfigTemplate: async () => (await import('./telegram')).TelegramAdapter.getConfigTemplate(),
+  validateConfig: async (config) =>
+    (await import('./telegram')).TelegramAdapter.validateConfig(config),
+  create: async (config) => {
+    const { TelegramAdapter } = await import('./telegram');
+    return new TelegramAdapter(config as unknown as TelegramAdapterConfig);
+  },
+});
+
+registerAdapter({
+  name: MATTERMOST_ADAPTER_NAME,
+  label: 'Mattermost',
+  setupGuide:
+    '1. In System Console > Integrations, enable bot accounts\n' +
+    '2. In Integrations > Bot Accounts, create a bot and copy its access token\n' +
+    '3. Add the bot to the teams and channels it should answer in\n' +
+    '4. Buttons call back to this machine: the callback URL must be reachable from the\n' +
+    '   Mattermost server (private addresses need "Allow untrusted internal connections")',
+  announceOnline: true,
+  getConfigTemplate: async () =>
+    (await import('./mattermost')).MattermostAdapter.getConfigTemplate(),
+  validateConfig: async (config) =>
+    (await import('./mattermost')).MattermostAdapter.validateConfig(config),
+  create: async (config) => {
+    const { MattermostAdapter } = await import('./mattermost');
+    const mattermostConfig = config as unknown as MattermostAdapterConfig;
+    return new MattermostAdapter({ ...mattermostConfig, port: mattermostConfig.port ?? 3153 });
+  },
+});
+
+registerAdapter({
+  name: EMAIL_ADAPTER_NAME,
+  label: 'Email (IMAP/SMTP)',
+  setupGuide:
+    '1. Create a mailbox for the bot (a dedicated account is recommended)\n' +
+    '2. Enable IMAP and SMTP access, with an app password if the provider needs one\n' +
+    '3. Send tasks from an allowed address; replying to the thread continues the session\n' +
+    '4. Mail must pass DMARC or DKIM at the receiving server (Authentication-Results);\n' +
+    '   without those checks, set a subject token\n' +
+    'Defaults to TLS on ports 993/465, set imapPort, smtpPort and secure in config.json to change.',
+  getConfigTemplate: async () => (await import('./email')).EmailAdapter.getConfigTemplate(),
+  validateConfig: async (config) => (await import('./email')).EmailAdapter.validateConfig(config),
+  create: async (config) => {
+    const { EmailAdapter } = await import('./email');
+    const emailConfig = config as unknown as EmailAdapterConfig;
+    return new EmailAdapter({
+      ...emailConfig,
+      allowedSenders: EmailAdapter.parseSenders(emailConfig.allowedSenders),
+    });
+  },
+});
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { parseSlackBlocks, slackBlocksText } from './slack-blocks';
+
+describe('parseSlackBlocks', () => {
+  const blocks = [
+    { type: 'header', text: { type: 'plain_text', text: 'Pick one' } },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: '`/repo`' },
+      accessory: {
+        type: 'button',
+        text: { type: 'plain_text', text: 'Select' },
+        action_id: 'select_project',
+        value: '/repo',
+      },
+    },
+    { type: 'context', elements: [{ type: 'mrkdwn', text: 'a note' }] },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Allow' },
+          action_id: 'permission_approve',
+          value: 'r1',
+          style: 'primary',
+        },
+        { type: 'button', action_id: 'permission_deny' },
+      ],
+    },
+  ];
+
+  test('reads texts, notes and buttons in order', () => {
+    const parts = parseSlackBlocks(blocks);
+
+    expect(parts.map((part) => part.type)).toEqual(['header', 'section', 'context', 'actions']);
+    expect(slackBlocksText(parts)).toEqual(['Pick one', '`/repo`', 'a note']);
+    expect(parts[1].buttons).toEqual([
+      { label: 'Select', action: 'select_project', value: '/repo', accessory: true },
+    ]);
+    expect(parts[3].buttons).toEqual([
+      {
+        label: 'Allow',
+        action: 'permission_approve',
+        value: 'r1',
+        style: 'primary',
+        accessory: false,
+      },
+      { label: 'permission_deny', action: 'permission_deny', value: '', accessory: false },
+    ]);
+  });
+
+  test('ignores blocks without text or elements', () => {
+    expect(parseSlackBlocks([{ type: 'divider' }])).toEqual([
+      { type: 'divider', text: undefined, notes: [], buttons: [] },
+    ]);
+  });
+});
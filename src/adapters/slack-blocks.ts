@@ -0,0 +1,63 @@
+/**
+ * The message processor builds cards as Slack blocks. Adapters for other platforms
+ * read them through parseSlackBlocks and render the parts their own way.
+ */
+
+export interface SlackBlockButton {
+  label: string;
+  action: string;
+  value: string;
+  style?: string;
+  // Set for a section's accessory button, whose meaning is the section's text
+  accessory: boolean;
+}
+
+export interface SlackBlockPart {
+  type: string;
+  // Text of a section or header
+  text?: string;
+  // Text elements, such as those of context blocks
+  notes: string[];
+  buttons: SlackBlockButton[];
+}
+
+export function parseSlackBlocks(blocks: unknown[]): SlackBlockPart[] {
+  return (blocks as Array<Record<string, unknown>>).map((block) => {
+    const part: SlackBlockPart = {
+      type: String(block.type ?? ''),
+      text: (block.text as { text?: string } | undefined)?.text || undefined,
+      notes: [],
+      buttons: [],
+    };
+
+    const elements = [
+      ...((block.elements as Array<Record<string, unknown>>) || []),
+      ...(block.accessory ? [block.accessory as Record<string, unknown>] : []),
+    ];
+    for (const element of elements) {
+      const elementText =
+        (element.text as { text?: string } | undefined)?.text ??
+        (typeof element.text === 'string' ? element.text : undefined);
+      if (element.type === 'button' && typeof element.action_id === 'string') {
+        part.buttons.push({
+          label: elementText || element.action_id,
+          action: element.action_id,
+          value: String(element.value ?? ''),
+          style: typeof element.style === 'string' ? element.style : undefined,
+          accessory: element === block.accessory,
+        });
+      } else if (elementText) {
+        part.notes.push(elementText);
+      }
+    }
+
+    return part;
+  });
+}
+
+/**
+ * The text of all parts, one line each, in block order
+ */
+export function slackBlocksText(parts: SlackBlockPart[]): string[] {
+  return parts.flatMap((part) => [...(part.text ? [part.text] : []), ...part.notes]);
+}
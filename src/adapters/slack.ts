@@ -19,13 +19,20 @@ interface SlackMessageEvent {
   thread_ts?: string;
   channel_type?: string;
   bot_id?: string;
-  files?: Array<{ id: string; name?: string; mimetype: string; url_private: string }>;
+  files?: Array<{
+    id: string;
+    name?: string;
+    mimetype: string;
+    url_private: string;
+    size?: number;
+  }>;
 }
 import { consola } from 'consola';
 import type {
   AudioMessageHandler,
   ConfigField,
   IMAdapter,
+  IMFileAttachment,
   IMImageAttachment,
   InteractionHandler,
   MessageContext,
@@ -42,6 +49,7 @@ interface SlackAdapterConfig {
 
 export class SlackAdapter implements IMAdapter {
   readonly name = 'slack';
+  maxFileSize?: number;
 
   private app: App;
   private config: SlackAdapterConfig;
@@ -98,26 +106,30 @@ export class SlackAdapter implements IMAdapter {
   }
 
   getConfigTemplate(): ConfigField[] {
+    return SlackAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
     return [
       {
         name: 'botToken',
         type: 'string',
         required: true,
-        description: 'Bot User OAuth Token (xoxb-...)',
+        description: 'Bot Token (OAuth & Permissions > Bot User OAuth Token, xoxb-...)',
         secret: true,
       },
       {
         name: 'appToken',
         type: 'string',
         required: true,
-        description: 'App-Level Token (xapp-...)',
+        description: 'App Token (Basic Information > App-Level Tokens, xapp-...)',
         secret: true,
       },
       {
         name: 'signingSecret',
         type: 'string',
         required: true,
-        description: 'Signing Secret',
+        description: 'Signing Secret (Basic Information > App Credentials)',
         secret: true,
       },
       {
@@ -131,6 +143,10 @@ export class SlackAdapter implements IMAdapter {
   }
 
   validateConfig(config: unknown): ValidationResult {
+    return SlackAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
     const errors: string[] = [];
     const c = config as Partial<SlackAdapterConfig>;
 
@@ -254,8 +270,9 @@ export class SlackAdapter implements IMAdapter {
           messageTs: msg.ts,
         };
 
-        // Process files: audio/video → transcription, images → attach to message
+        // Process files: audio/video → transcription, images and other files → attach to message
         const images: IMImageAttachment[] = [];
+        const files: IMFileAttachment[] = [];
         if (msg.files && msg.files.length > 0) {
           for (const file of msg.files) {
             consola.debug(
@@ -285,6 +302,22 @@ export class SlackAdapter implements IMAdapter {
               } catch (error) {
                 consola.error('Failed to download image file:', error);
               }
+              continue;
+            }
+            // Anything else (logs, patches, archives...) → saved into the project
+            consola.info(`Received file: ${file.mimetype}, name=${file.name}`);
+            const filename = file.name || `file-${file.id}`;
+            const mimetype = file.mimetype || 'application/octet-stream';
+            if (this.maxFileSize && file.size && file.size > this.maxFileSize) {
+              // Left for the processor to report as skipped, without downloading it
+              files.push({ buffer: Buffer.alloc(0), filename, mimetype, size: file.size });
+              continue;
+            }
+            try {
+              const buffer = await this.downloadFile(file.url_private);
+              files.push({ buffer, filename, mimetype });
+            } catch (error) {
+              consola.error('Failed to download file:', error);
             }
           }
         }
@@ -292,8 +325,8 @@ export class SlackAdapter implements IMAdapter {
         // Remove all @mentions from text
         const text = (msg.text || '').replace(/<@[A-Z0-9]+>/gi, '').trim();
 
-        // Skip empty messages (but allow image-only messages)
-        if (!text && images.length === 0) return;
+        // Skip empty messages (but allow messages with only attachments)
+        if (!text && images.length === 0 && files.length === 0) return;
 
         // Mark as processed to prevent duplicate handling from app_mention
         this.processedMessages.add(msg.ts);
@@ -304,7 +337,12 @@ export class SlackAdapter implements IMAdapter {
         }
 
         for (const handler of this.messageHandlers) {
-          await handler({ text, context, images: images.length > 0 ? images : undefined });
+          await handler({
+            text,
+            context,
+            images: images.length > 0 ? images : undefined,
+            files: files.length > 0 ? files : undefined,
+          });
         }
       } catch (err) {
         console.error('[slack:message] UNCAUGHT ERROR:', err);
@@ -382,6 +420,7 @@ export class SlackAdapter implements IMAdapter {
         channelId: body.channel?.id || '',
         userId: body.user.id,
         messageTs: 'message' in body ? body.message?.ts : undefined,
+        threadTs: 'message' in body ? body.message?.thread_ts : undefined,
       };
 
       if (!context.channelId) {
@@ -549,7 +588,8 @@ export class SlackAdapter implements IMAdapter {
   async sendProjectSelectionCard(
     channel: string,
     projects: Array<{ name: string; path: string }>,
-    pendingPrompt: string
+    pendingPrompt: string,
+    threadTs?: string
   ): Promise<string> {
     const blocks: unknown[] = [
       {
@@ -615,7 +655,7 @@ export class SlackAdapter implements IMAdapter {
       });
     }
 
-    return this.sendInteractiveMessage(channel, 'Select a project', blocks);
+    return this.sendInteractiveMessage(channel, 'Select a project', blocks, threadTs);
   }
 
   /**
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { IMMessage } from '../types';
+import { TeamsAdapter } from './teams';
+
+let adapter: TeamsAdapter | null = null;
+let connector: Server | null = null;
+
+afterEach(async () => {
+  await adapter?.stop();
+  connector?.close();
+  adapter = null;
+  connector = null;
+});
+
+// Stand-in for the Bot Framework connector the bot replies to
+async function startConnector(received: unknown[]): Promise<string> {
+  connector = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    received.push({ url: req.url, body: JSON.parse(Buffer.concat(chunks).toString() || '{}') });
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ id: 'reply-1' }));
+  });
+  await new Promise<void>((resolve) => connector?.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(connector.address() as AddressInfo).port}`;
+}
+
+describe('TeamsAdapter', () => {
+  test('refuses a non-loopback host without appId', async () => {
+    adapter = new TeamsAdapter({ enabled: true, port: 39781, host: '0.0.0.0' });
+    await expect(adapter.start()).rejects.toThrow('without appId');
+    expect(TeamsAdapter.validateConfig({ port: 3978, host: '0.0.0.0' }).valid).toBe(false);
+    expect(TeamsAdapter.validateConfig({ port: 3978, host: '127.0.0.1' }).valid).toBe(true);
+  });
+
+  test('receives messages and replies through the connector', async () => {
+    const replies: Array<{ url?: string; body: { text?: string } }> = [];
+    const serviceUrl = await startConnector(replies);
+
+    adapter = new TeamsAdapter({ enabled: true, port: 39782 });
+    const messages: IMMessage[] = [];
+    adapter.onMessage(async (message) => {
+      messages.push(message);
+    });
+    await adapter.start();
+
+    const response = await fetch('http://127.0.0.1:39782/api/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'message',
+        id: 'm1',
+        text: 'hello',
+        channelId: 'emulator',
+        serviceUrl,
+        from: { id: 'user-1' },
+        recipient: { id: 'bot' },
+        conversation: { id: 'conv-1' },
+      }),
+    });
+    expect(response.status).toBeLessThan(300);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(messages).toHaveLength(1);
+    expect(messages[0].text).toBe('hello');
+    expect(messages[0].context).toMatchObject({ channelId: 'conv-1', userId: 'user-1' });
+
+    await adapter.sendMessage('conv-1', 'hi there');
+    expect(replies).toHaveLength(1);
+    expect(replies[0].url).toContain('/v3/conversations/conv-1/activities');
+    expect(replies[0].body.text).toContain('hi there');
+  });
+});
@@ -0,0 +1,696 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import {
+  type Activity,
+  ActivityTypes,
+  type Attachment,
+  CardFactory,
+  CloudAdapter,
+  ConfigurationBotFrameworkAuthentication,
+  ConfigurationServiceClientCredentialFactory,
+  type ConversationReference,
+  TurnContext,
+} from 'botbuilder';
+import { consola } from 'consola';
+import type {
+  AudioMessageHandler,
+  ConfigField,
+  IMAdapter,
+  IMImageAttachment,
+  InteractionHandler,
+  MessageContext,
+  MessageHandler,
+  TeamsAdapterConfig,
+  ValidationResult,
+} from '../types';
+import { isLoopbackHost } from './network';
+import { parseSlackBlocks } from './slack-blocks';
+
+// Data carried by every Action.Submit the adapter renders
+interface SubmitData {
+  action: string;
+  value?: string;
+}
+
+/**
+ * Microsoft Teams adapter, speaking the Bot Framework activity protocol.
+ * Activities arrive on POST /api/messages. Replies are sent proactively from a stored
+ * conversation reference since Claude runs outlive the 15s turn. Teams channel reply
+ * chains map to threadTs ("<conversation>;messageid=<root>"), chats have no threads.
+ * Without an appId, authentication is off so the Bot Framework Emulator can connect.
+ */
+export class TeamsAdapter implements IMAdapter {
+  readonly name = 'teams';
+  // Same as MAX_TEXT_LENGTH, so long output pages instead of losing its start
+  readonly maxMessageBytes = 20000;
+  private config: TeamsAdapterConfig;
+  private adapter: CloudAdapter;
+  private server: Server | null = null;
+  private messageHandlers: MessageHandler[] = [];
+  private audioMessageHandlers: AudioMessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+  // Latest reference per conversation (without the ;messageid= suffix)
+  private references: Map<string, Partial<ConversationReference>> = new Map();
+  // Conversation each sent activity lives in, for updates (activityId -> conversationId)
+  private activityConversations: Map<string, string> = new Map();
+
+  // Throttle updates, Teams rate limits them per conversation
+  private lastUpdateTime: Map<string, number> = new Map();
+  private pendingUpdates: Map<string, string> = new Map();
+  private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private static readonly UPDATE_INTERVAL = 1000;
+  private static readonly MAX_TEXT_LENGTH = 20000;
+  private static readonly MAX_TRACKED_ACTIVITIES = 500;
+  private static readonly MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+  constructor(config: TeamsAdapterConfig) {
+    this.config = config;
+
+    const credentials = {
+      MicrosoftAppId: config.appId || '',
+      MicrosoftAppPassword: config.appPassword || '',
+      MicrosoftAppType: config.appType || 'MultiTenant',
+      MicrosoftAppTenantId: config.tenantId || '',
+    };
+    this.adapter = new CloudAdapter(
+      new ConfigurationBotFrameworkAuthentication(
+        credentials,
+        new ConfigurationServiceClientCredentialFactory(credentials)
+      )
+    );
+
+    this.adapter.onTurnError = async (_context, error) => {
+      consola.error('Teams turn error:', error);
+    };
+  }
+
+  async init(): Promise<void> {
+    consola.debug('Teams adapter initialized');
+  }
+
+  getConfigTemplate(): ConfigField[] {
+    return TeamsAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
+    return [
+      {
+        name: 'appId',
+        type: 'string',
+        required: false,
+        description: 'Microsoft App ID (leave empty for the Bot Framework Emulator)',
+      },
+      {
+        name: 'appPassword',
+        type: 'string',
+        required: false,
+        description: 'Client secret of the app registration',
+        secret: true,
+      },
+      {
+        name: 'appType',
+        type: 'select',
+        required: false,
+        description: 'App type of the bot registration',
+        options: ['MultiTenant', 'SingleTenant'],
+        default: 'MultiTenant',
+      },
+      {
+        name: 'tenantId',
+        type: 'string',
+        required: false,
+        description: 'Tenant ID (SingleTenant only)',
+        showWhen: { field: 'appType', value: 'SingleTenant' },
+      },
+      {
+        name: 'port',
+        type: 'number',
+        required: true,
+        description: 'Port for the messaging endpoint (/api/messages)',
+        default: 3978,
+      },
+      {
+        name: 'host',
+        type: 'string',
+        required: false,
+        description: 'Interface to listen on (loopback only without appId)',
+      },
+    ];
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    return TeamsAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
+    const errors: string[] = [];
+    const c = config as Partial<TeamsAdapterConfig>;
+
+    if (c.appId && !c.appPassword) {
+      errors.push('appPassword is required when appId is set');
+    }
+
+    if (c.appType === 'SingleTenant' && !c.tenantId) {
+      errors.push('tenantId is required for SingleTenant apps');
+    }
+
+    if (c.port !== undefined && (c.port < 1 || c.port > 65535)) {
+      errors.push('port must be between 1 and 65535');
+    }
+
+    if (!c.appId && c.host && !isLoopbackHost(c.host)) {
+      errors.push('appId is required when listening on a non-loopback host');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  async start(): Promise<void> {
+    await this.init();
+
+    const port = this.config.port || 3978;
+    // Without appId requests aren't authenticated, so only local clients (the Emulator) may connect
+    const host = this.config.host || (this.config.appId ? '0.0.0.0' : '127.0.0.1');
+    if (!this.config.appId && !isLoopbackHost(host)) {
+      throw new Error(
+        `Teams adapter refuses to listen on ${host} without appId; set appId or use 127.0.0.1`
+      );
+    }
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        consola.error('Teams request error:', error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server?.once('error', reject);
+      this.server?.listen(port, host, () => resolve());
+    });
+
+    if (!this.config.appId) {
+      consola.warn('Teams adapter running without appId: authentication is disabled (local only)');
+    }
+    consola.success(`Teams adapter listening on http://${host}:${port}/api/messages`);
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.updateTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.updateTimers.clear();
+    this.pendingUpdates.clear();
+    this.lastUpdateTime.clear();
+
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+    consola.debug('Teams adapter stopped');
+  }
+
+  async sendMessage(channel: string, message: string, threadTs?: string): Promise<string> {
+    return this.sendActivity(channel, threadTs, {
+      type: ActivityTypes.Message,
+      text: this.formatText(message),
+      textFormat: 'markdown',
+    });
+  }
+
+  async updateMessage(channel: string, messageTs: string, message: string): Promise<void> {
+    const now = Date.now();
+    const lastUpdate = this.lastUpdateTime.get(messageTs) || 0;
+    const timeSinceLastUpdate = now - lastUpdate;
+
+    // Within the throttle interval only the latest text is kept
+    if (timeSinceLastUpdate < TeamsAdapter.UPDATE_INTERVAL) {
+      this.pendingUpdates.set(messageTs, message);
+
+      if (!this.updateTimers.has(messageTs)) {
+        const timer = setTimeout(() => {
+          this.flushPendingUpdate(channel, messageTs);
+        }, TeamsAdapter.UPDATE_INTERVAL - timeSinceLastUpdate);
+        this.updateTimers.set(messageTs, timer);
+      }
+      return;
+    }
+
+    await this.doUpdateMessage(channel, messageTs, message);
+  }
+
+  private async flushPendingUpdate(channel: string, messageTs: string): Promise<void> {
+    const pendingMessage = this.pendingUpdates.get(messageTs);
+    this.pendingUpdates.delete(messageTs);
+    this.updateTimers.delete(messageTs);
+
+    if (pendingMessage) {
+      try {
+        await this.doUpdateMessage(channel, messageTs, pendingMessage);
+      } catch (error) {
+        consola.warn('Failed to update Teams message:', error);
+      }
+    }
+  }
+
+  private async doUpdateMessage(
+    channel: string,
+    messageTs: string,
+    message: string
+  ): Promise<void> {
+    this.lastUpdateTime.set(messageTs, Date.now());
+
+    const conversationId = this.activityConversations.get(messageTs) || channel;
+    await this.continueConversation(conversationId, async (context) => {
+      // Replacing the text also drops a card's attachments, like a Slack text update
+      await context.updateActivity({
+        id: messageTs,
+        type: ActivityTypes.Message,
+        text: this.formatText(message),
+        textFormat: 'markdown',
+        attachments: [],
+      });
+    });
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  onAudioMessage(handler: AudioMessageHandler): void {
+    this.audioMessageHandlers.push(handler);
+  }
+
+  /**
+   * Sections become TextBlocks and buttons become Action.Submit actions
+   */
+  async sendInteractiveMessage(
+    channel: string,
+    text: string,
+    blocks: unknown[],
+    threadTs?: string
+  ): Promise<string> {
+    const body: unknown[] = [];
+    const actions: unknown[] = [];
+
+    for (const part of parseSlackBlocks(blocks)) {
+      if (part.text) {
+        body.push({
+          type: 'TextBlock',
+          text: this.formatText(part.text),
+          wrap: true,
+          ...(part.type === 'header' ? { size: 'Large', weight: 'Bolder' } : {}),
+        });
+      }
+      for (const note of part.notes) {
+        body.push({ type: 'TextBlock', text: this.formatText(note), wrap: true, isSubtle: true });
+      }
+      for (const button of part.buttons) {
+        actions.push(
+          this.submitAction(
+            button.label,
+            { action: button.action, value: button.value },
+            button.style
+          )
+        );
+      }
+    }
+
+    return this.sendCard(channel, threadTs, text, body, actions);
+  }
+
+  async sendPermissionCard(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
+  ): Promise<string> {
+    const inputStr = JSON.stringify(toolInput, null, 2).slice(0, 500);
+
+    return this.sendCard(
+      channel,
+      threadTs,
+      'Permission Request',
+      [
+        { type: 'TextBlock', text: '⚠️ Permission Request', size: 'Large', weight: 'Bolder' },
+        { type: 'TextBlock', text: `Claude wants to use **${toolName}**`, wrap: true },
+        { type: 'TextBlock', text: inputStr, wrap: true, fontType: 'Monospace' },
+      ],
+      [
+        this.submitAction(
+          '✅ Allow',
+          { action: 'permission_approve', value: requestId },
+          'primary'
+        ),
+        this.submitAction('❌ Deny', { action: 'permission_deny', value: requestId }, 'danger'),
+      ]
+    );
+  }
+
+  /**
+   * Send a project selection card: a choice list of full paths and a Select button
+   */
+  async sendProjectSelectionCard(
+    channel: string,
+    projects: Array<{ name: string; path: string }>,
+    pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string> {
+    const body: unknown[] = [
+      {
+        type: 'TextBlock',
+        text: 'Please select a project to work with:',
+        weight: 'Bolder',
+        wrap: true,
+      },
+      {
+        // The submitted input lands in the action data as `value`
+        type: 'Input.ChoiceSet',
+        id: 'value',
+        style: 'expanded',
+        value: projects[0]?.path,
+        choices: projects.map((project) => ({ title: project.path, value: project.path })),
+      },
+    ];
+
+    if (pendingPrompt && !pendingPrompt.startsWith('Current:')) {
+      body.push({
+        type: 'TextBlock',
+        text: `Your message: _"${pendingPrompt.slice(0, 100)}${pendingPrompt.length > 100 ? '...' : ''}"_`,
+        wrap: true,
+        isSubtle: true,
+      });
+    }
+
+    return this.sendCard(channel, threadTs, 'Select a project', body, [
+      this.submitAction('Select', { action: 'select_project' }, 'primary'),
+    ]);
+  }
+
+  /**
+   * Teams bots can't upload files into channels, so snippets are sent as a code block
+   */
+  async uploadSnippet(
+    channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    const heading = options.initialComment || options.title || options.filename || '';
+    const language = options.filename?.endsWith('.diff') ? 'diff' : '';
+
+    try {
+      await this.sendActivity(channel, options.threadTs, {
+        type: ActivityTypes.Message,
+        text: this.formatText(`${heading}\n\`\`\`${language}\n${content}\n\`\`\``),
+        textFormat: 'markdown',
+      });
+    } catch (error) {
+      consola.error('Failed to upload snippet:', error);
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok' }));
+      return;
+    }
+
+    if (url.pathname !== '/api/messages') {
+      res.writeHead(404);
+      res.end('Not Found');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > TeamsAdapter.MAX_BODY_BYTES) {
+        res.writeHead(413);
+        res.end();
+        return;
+      }
+      chunks.push(chunk);
+    }
+
+    let body: Record<string, unknown> | undefined;
+    try {
+      body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : undefined;
+    } catch {
+      body = undefined;
+    }
+
+    // CloudAdapter expects express-style request/response objects
+    await this.adapter.process(
+      { body, headers: req.headers, method: req.method },
+      {
+        socket: res.socket,
+        status: (code: number) => {
+          res.statusCode = code;
+        },
+        header: (name: string, value: unknown) => res.setHeader(name, String(value)),
+        send: (payload: unknown) => {
+          if (typeof payload === 'object') {
+            res.setHeader('Content-Type', 'application/json');
+            res.write(JSON.stringify(payload));
+          } else {
+            res.write(String(payload));
+          }
+        },
+        end: () => res.end(),
+      },
+      (context) => this.onTurn(context)
+    );
+  }
+
+  /**
+   * Remember where the activity came from and hand it to the handlers without
+   * holding the turn open (Teams times out a turn after 15 seconds)
+   */
+  private async onTurn(turnContext: TurnContext): Promise<void> {
+    const activity = turnContext.activity;
+    if (activity.type !== ActivityTypes.Message) return;
+
+    const { channelId, threadTs } = this.splitConversationId(activity.conversation.id);
+    this.references.set(channelId, TurnContext.getConversationReference(activity));
+
+    const submitted = activity.value as Partial<SubmitData> | undefined;
+    if (submitted?.action) {
+      const context: MessageContext = {
+        channelId,
+        threadTs,
+        userId: activity.from.aadObjectId || activity.from.id,
+        messageTs: activity.replyToId,
+      };
+      this.dispatch(async () => {
+        for (const handler of this.interactionHandlers) {
+          await handler(submitted.action as string, String(submitted.value ?? ''), context);
+        }
+      });
+      return;
+    }
+
+    const text = TurnContext.removeRecipientMention(activity)
+      .replace(/<at>[^<]*<\/at>/g, '')
+      .trim();
+    const context: MessageContext = {
+      channelId,
+      userId: activity.from.aadObjectId || activity.from.id,
+      // A new channel post starts its own reply chain; chats have no threads
+      threadTs:
+        threadTs ||
+        (activity.conversation.conversationType === 'channel' ? activity.id : undefined),
+      messageTs: activity.id,
+    };
+
+    consola.info(
+      `[teams:message] user=${context.userId} conversation=${channelId} text="${text.slice(0, 50)}"`
+    );
+
+    this.dispatch(async () => {
+      const images: IMImageAttachment[] = [];
+
+      for (const attachment of activity.attachments || []) {
+        const file = await this.downloadAttachment(attachment);
+        if (!file) continue;
+
+        if (file.mimetype.startsWith('audio/') || file.mimetype.startsWith('video/')) {
+          for (const handler of this.audioMessageHandlers) {
+            await handler({ audioBuffer: file.buffer, mimeType: file.mimetype, context });
+          }
+          return;
+        }
+        if (file.mimetype.startsWith('image/')) {
+          images.push(file);
+        }
+      }
+
+      if (!text && images.length === 0) return;
+
+      for (const handler of this.messageHandlers) {
+        await handler({ text, context, images: images.length > 0 ? images : undefined });
+      }
+    });
+  }
+
+  private dispatch(work: () => Promise<void>): void {
+    work().catch((error) => consola.error('[teams] handler error:', error));
+  }
+
+  /**
+   * Download an image/audio attachment. Teams file uploads come with a pre-authorized URL,
+   * inline images need the bot's token which the connector client doesn't expose, so they
+   * are only fetched when reachable without it.
+   */
+  private async downloadAttachment(attachment: Attachment): Promise<IMImageAttachment | null> {
+    let url = attachment.contentUrl;
+    let mimetype = attachment.contentType;
+    const filename = attachment.name || 'attachment';
+
+    if (attachment.contentType === 'application/vnd.microsoft.teams.file.download.info') {
+      const info = attachment.content as { downloadUrl?: string; fileType?: string };
+      url = info.downloadUrl;
+      mimetype = this.guessMimeType(info.fileType || filename.split('.').pop() || '');
+    }
+
+    if (!url || !(mimetype.startsWith('image/') || mimetype.startsWith('audio/'))) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      return { buffer: Buffer.from(await response.arrayBuffer()), filename, mimetype };
+    } catch (error) {
+      consola.warn(`Failed to download Teams attachment ${filename}:`, error);
+      return null;
+    }
+  }
+
+  private guessMimeType(extension: string): string {
+    const ext = extension.toLowerCase();
+    if (['png', 'gif', 'webp'].includes(ext)) return `image/${ext}`;
+    if (['jpg', 'jpeg'].includes(ext)) return 'image/jpeg';
+    if (['mp3', 'mpeg'].includes(ext)) return 'audio/mpeg';
+    if (['m4a', 'mp4'].includes(ext)) return 'audio/mp4';
+    if (['wav', 'ogg', 'webm'].includes(ext)) return `audio/${ext}`;
+    return 'application/octet-stream';
+  }
+
+  private async sendCard(
+    channel: string,
+    threadTs: string | undefined,
+    summary: string,
+    body: unknown[],
+    actions: unknown[]
+  ): Promise<string> {
+    const card = CardFactory.adaptiveCard({
+      type: 'AdaptiveCard',
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      version: '1.4',
+      body,
+      actions,
+    });
+
+    return this.sendActivity(channel, threadTs, {
+      type: ActivityTypes.Message,
+      summary,
+      attachments: [card],
+    });
+  }
+
+  private submitAction(title: string, data: SubmitData, style?: string): unknown {
+    return {
+      type: 'Action.Submit',
+      title,
+      data,
+      ...(style === 'primary' ? { style: 'positive' } : {}),
+      ...(style === 'danger' ? { style: 'destructive' } : {}),
+    };
+  }
+
+  private async sendActivity(
+    channel: string,
+    threadTs: string | undefined,
+    activity: Partial<Activity>
+  ): Promise<string> {
+    // Only channels have reply chains, in chats everything goes to the conversation
+    const isChannel = this.references.get(channel)?.conversation?.conversationType === 'channel';
+    const conversationId = threadTs && isChannel ? `${channel};messageid=${threadTs}` : channel;
+    let activityId = '';
+
+    await this.continueConversation(conversationId, async (context) => {
+      const response = await context.sendActivity(activity);
+      activityId = response?.id || '';
+    });
+
+    if (activityId) {
+      this.activityConversations.set(activityId, conversationId);
+      if (this.activityConversations.size > TeamsAdapter.MAX_TRACKED_ACTIVITIES) {
+        const oldest = this.activityConversations.keys().next().value;
+        if (oldest) this.activityConversations.delete(oldest);
+      }
+    }
+    return activityId;
+  }
+
+  /**
+   * Run logic in a conversation, addressed by "<conversation>[;messageid=<root>]"
+   */
+  private async continueConversation(
+    conversationId: string,
+    logic: (context: TurnContext) => Promise<void>
+  ): Promise<void> {
+    const { channelId } = this.splitConversationId(conversationId);
+    const reference = this.references.get(channelId);
+    if (!reference?.conversation) {
+      throw new Error(`No Teams conversation reference for ${channelId}, wait for a message first`);
+    }
+
+    await this.adapter.continueConversationAsync(
+      this.config.appId || '',
+      { ...reference, conversation: { ...reference.conversation, id: conversationId } },
+      logic
+    );
+  }
+
+  private splitConversationId(conversationId: string): { channelId: string; threadTs?: string } {
+    const [channelId, messageId] = conversationId.split(';messageid=');
+    return { channelId, threadTs: messageId || undefined };
+  }
+
+  /**
+   * Convert the processor's Slack mrkdwn to Teams markdown and stay under the size limit,
+   * keeping the end of long output since that's where streaming text grows
+   */
+  private formatText(text: string): string {
+    // Slack uses *bold* and <url|text>, Teams uses **bold** and [text](url)
+    let result = text.replace(/(?<![*\w])\*([^*\n]+)\*(?![*\w])/g, '**$1**');
+    result = result.replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '[$2]($1)');
+
+    if (result.length > TeamsAdapter.MAX_TEXT_LENGTH) {
+      result = `…${result.slice(-(TeamsAdapter.MAX_TEXT_LENGTH - 1))}`;
+    }
+    return result;
+  }
+}
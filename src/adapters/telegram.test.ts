@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { TelegramAdapter } from './telegram';
+
+let adapter: TelegramAdapter | null = null;
+let api: Server | null = null;
+
+afterEach(async () => {
+  await adapter?.stop();
+  api?.close();
+  adapter = null;
+  api = null;
+});
+
+// Stand-in Bot API where every chat's first message has ID 1, like the real one
+async function startApi(calls: Array<{ method: string; params: Record<string, unknown> }>) {
+  api = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const params = JSON.parse(Buffer.concat(chunks).toString() || '{}');
+    const method = (req.url || '').split('/').pop() || '';
+    calls.push({ method, params });
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true, result: { message_id: 1, chat: { id: params.chat_id } } }));
+  });
+  await new Promise<void>((resolve) => api?.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+}
+
+describe('TelegramAdapter', () => {
+  test('keeps messages with the same ID in different chats apart', async () => {
+    const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+    adapter = new TelegramAdapter({
+      enabled: true,
+      botToken: '123:abc',
+      apiUrl: await startApi(calls),
+    });
+
+    const first = await adapter.sendMessage('100', 'working', undefined, { runState: 'running' });
+    const second = await adapter.sendMessage('200', 'working', undefined, { runState: 'running' });
+    expect(first).not.toBe(second);
+
+    // The second update of each is throttled and sent later from its timer
+    await adapter.updateMessage('100', first, 'chat 100, part 1', { runState: 'running' });
+    await adapter.updateMessage('200', second, 'chat 200, part 1', { runState: 'running' });
+    await adapter.updateMessage('100', first, 'chat 100, part 2', { runState: 'done' });
+    await adapter.updateMessage('200', second, 'chat 200, part 2', { runState: 'done' });
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+
+    const edits = calls
+      .filter((call) => call.method === 'editMessageText')
+      .map((call) => [call.params.chat_id, call.params.message_id, call.params.text]);
+    expect(edits).toEqual([
+      ['100', 1, 'chat 100, part 1'],
+      ['200', 1, 'chat 200, part 1'],
+      ['100', 1, 'chat 100, part 2'],
+      ['200', 1, 'chat 200, part 2'],
+    ]);
+  });
+
+  test('replies to the message a chat-qualified threadTs points at', async () => {
+    const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+    adapter = new TelegramAdapter({
+      enabled: true,
+      botToken: '123:abc',
+      apiUrl: await startApi(calls),
+    });
+
+    await adapter.sendMessage('100', 'reply', '100:42');
+    expect(calls[0].params.reply_parameters).toMatchObject({ message_id: 42 });
+  });
+});
@@ -0,0 +1,663 @@
+import { consola } from 'consola';
+import type {
+  AudioMessageHandler,
+  ConfigField,
+  IMAdapter,
+  IMImageAttachment,
+  InteractionHandler,
+  MessageContext,
+  MessageHandler,
+  MessageOptions,
+  TelegramAdapterConfig,
+  ValidationResult,
+} from '../types';
+import { parseSlackBlocks, slackBlocksText } from './slack-blocks';
+
+interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  username?: string;
+}
+
+interface TelegramFile {
+  file_id: string;
+  file_size?: number;
+  mime_type?: string;
+  file_name?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  message_thread_id?: number;
+  is_topic_message?: boolean;
+  from?: TelegramUser;
+  chat: { id: number; type: 'private' | 'group' | 'supergroup' | 'channel' };
+  text?: string;
+  caption?: string;
+  reply_to_message?: TelegramMessage;
+  photo?: TelegramFile[];
+  document?: TelegramFile;
+  voice?: TelegramFile;
+  audio?: TelegramFile;
+  video_note?: TelegramFile;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface InlineButton {
+  text: string;
+  callback_data: string;
+}
+
+/**
+ * Telegram bot adapter using long polling, so no public URL is needed.
+ * Chats map to channelId. Message IDs only count up within a chat, so messageTs is
+ * "chat:message". Forum topics map to threadTs; in other chats threadTs is
+ * the message a reply hangs off. Buttons are inline keyboards whose callbacks become
+ * interactions, and in-progress status messages carry a Stop button.
+ */
+export class TelegramAdapter implements IMAdapter {
+  readonly name = 'telegram';
+  // Telegram cuts text at 4096 characters, so pages of at most that many bytes fit
+  readonly maxMessageBytes = 4096;
+  private config: TelegramAdapterConfig;
+  private messageHandlers: MessageHandler[] = [];
+  private audioMessageHandlers: AudioMessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+  private bot: TelegramUser | null = null;
+  private polling = false;
+  private pollAbort: AbortController | null = null;
+  private offset = 0;
+  // Forum topics seen so far ("chat:thread"), the other threadTs values are reply targets
+  private topics: Set<string> = new Set();
+  // Button values too long for callback_data (key -> value)
+  private buttonValues: Map<string, string> = new Map();
+  private nextButtonKey = 1;
+
+  // Throttle edits, Telegram rate limits them per chat
+  private lastUpdateTime: Map<string, number> = new Map();
+  private pendingUpdates: Map<string, { message: string; options?: MessageOptions }> = new Map();
+  private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private static readonly UPDATE_INTERVAL = 1000;
+  private static readonly POLL_TIMEOUT_SECONDS = 30;
+  private static readonly RETRY_DELAY = 5000;
+  private static readonly MAX_TEXT_LENGTH = 4096;
+  private static readonly MAX_CALLBACK_DATA_BYTES = 64;
+  private static readonly MAX_BUTTON_VALUES = 500;
+
+  // Bot commands, mapped to interactions the same way as Slack's slash commands
+  private static readonly COMMAND_ACTIONS: Record<string, string> = {
+    project: 'show_project_selector',
+    stop: 'stop_execution',
+    clear: 'clear_session',
+  };
+
+  constructor(config: TelegramAdapterConfig) {
+    this.config = config;
+  }
+
+  async init(): Promise<void> {
+    this.bot = await this.call<TelegramUser>('getMe', {});
+    consola.debug(`Telegram bot: @${this.bot.username}`);
+  }
+
+  getConfigTemplate(): ConfigField[] {
+    return TelegramAdapter.getConfigTemplate();
+  }
+
+  static getConfigTemplate(): ConfigField[] {
+    return [
+      {
+        name: 'botToken',
+        type: 'string',
+        required: true,
+        description: 'Bot token from @BotFather (123456:ABC-...)',
+        secret: true,
+      },
+    ];
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    return TelegramAdapter.validateConfig(config);
+  }
+
+  static validateConfig(config: unknown): ValidationResult {
+    const errors: string[] = [];
+    const c = config as Partial<TelegramAdapterConfig>;
+
+    if (!c.botToken || !/^\d+:[\w-]+$/.test(c.botToken)) {
+      errors.push('Invalid botToken: expected the "123456:ABC-..." token from @BotFather');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  async start(): Promise<void> {
+    await this.init();
+
+    // getUpdates doesn't work while a webhook is set
+    await this.call('deleteWebhook', { drop_pending_updates: false });
+    await this.call('setMyCommands', {
+      commands: [
+        { command: 'project', description: 'Switch project' },
+        { command: 'stop', description: 'Stop the current run' },
+        { command: 'clear', description: 'Start a new session' },
+        { command: 'help', description: 'Show help' },
+      ],
+    }).catch((error) => consola.warn('Failed to set Telegram commands:', error));
+
+    this.polling = true;
+    this.poll();
+    consola.success(`Telegram adapter polling as @${this.bot?.username}`);
+  }
+
+  async stop(): Promise<void> {
+    this.polling = false;
+    this.pollAbort?.abort();
+    this.pollAbort = null;
+
+    for (const timer of this.updateTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.updateTimers.clear();
+    this.pendingUpdates.clear();
+    this.lastUpdateTime.clear();
+    consola.debug('Telegram adapter stopped');
+  }
+
+  async sendMessage(
+    channel: string,
+    message: string,
+    threadTs?: string,
+    options?: MessageOptions
+  ): Promise<string> {
+    const sent = await this.sendText(
+      channel,
+      message,
+      threadTs,
+      options?.runState === 'running' ? this.stopKeyboard() : undefined
+    );
+    return TelegramAdapter.toTs(sent);
+  }
+
+  async updateMessage(
+    channel: string,
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
+    const now = Date.now();
+    const lastUpdate = this.lastUpdateTime.get(messageTs) || 0;
+    const timeSinceLastUpdate = now - lastUpdate;
+
+    // Within the throttle interval only the latest text is kept
+    if (timeSinceLastUpdate < TelegramAdapter.UPDATE_INTERVAL) {
+      this.pendingUpdates.set(messageTs, { message, options });
+
+      if (!this.updateTimers.has(messageTs)) {
+        const timer = setTimeout(() => {
+          this.flushPendingUpdate(channel, messageTs);
+        }, TelegramAdapter.UPDATE_INTERVAL - timeSinceLastUpdate);
+        this.updateTimers.set(messageTs, timer);
+      }
+      return;
+    }
+
+    await this.doUpdateMessage(channel, messageTs, message, options);
+  }
+
+  private async flushPendingUpdate(channel: string, messageTs: string): Promise<void> {
+    const pending = this.pendingUpdates.get(messageTs);
+    this.pendingUpdates.delete(messageTs);
+    this.updateTimers.delete(messageTs);
+
+    if (pending) {
+      try {
+        await this.doUpdateMessage(channel, messageTs, pending.message, pending.options);
+      } catch (error) {
+        consola.warn('Failed to update Telegram message:', error);
+      }
+    }
+  }
+
+  private async doUpdateMessage(
+    channel: string,
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
+    this.lastUpdateTime.set(messageTs, Date.now());
+
+    try {
+      // The keyboard is replaced too: a Stop button while running, none afterwards
+      await this.callWithMarkdown('editMessageText', {
+        chat_id: channel,
+        message_id: TelegramAdapter.toMessageId(messageTs),
+        text: this.formatText(message),
+        reply_markup:
+          options?.runState === 'running' ? this.stopKeyboard() : { inline_keyboard: [] },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('message is not modified')) return;
+      throw error;
+    }
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  onAudioMessage(handler: AudioMessageHandler): void {
+    this.audioMessageHandlers.push(handler);
+  }
+
+  /**
+   * Buttons become an inline keyboard, one row per block
+   */
+  async sendInteractiveMessage(
+    channel: string,
+    text: string,
+    blocks: unknown[],
+    threadTs?: string
+  ): Promise<string> {
+    const parts = parseSlackBlocks(blocks);
+    const rows = parts
+      .filter((part) => part.buttons.length > 0)
+      .map((part) =>
+        part.buttons.map((button) => this.button(button.label, button.action, button.value))
+      );
+
+    const sent = await this.sendText(channel, slackBlocksText(parts).join('\n') || text, threadTs, {
+      inline_keyboard: rows,
+    });
+    return TelegramAdapter.toTs(sent);
+  }
+
+  async sendPermissionCard(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
+  ): Promise<string> {
+    const inputStr = JSON.stringify(toolInput, null, 2).slice(0, 500);
+
+    const sent = await this.sendText(
+      channel,
+      `⚠️ *Permission Request*\nClaude wants to use *${toolName}*\n\`\`\`\n${inputStr}\n\`\`\``,
+      threadTs,
+      {
+        inline_keyboard: [
+          [
+            this.button('✅ Allow', 'permission_approve', requestId),
+            this.button('❌ Deny', 'permission_deny', requestId),
+          ],
+        ],
+      }
+    );
+    return TelegramAdapter.toTs(sent);
+  }
+
+  /**
+   * Send a project selection card: paths listed in the text, one numbered button each
+   */
+  async sendProjectSelectionCard(
+    channel: string,
+    projects: Array<{ name: string; path: string }>,
+    pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string> {
+    const shown = projects.slice(0, 20);
+    const lines = shown.map((project, index) => `${index + 1}. \`${project.path}\``);
+
+    if (projects.length > shown.length) {
+      lines.push(`_...and ${projects.length - shown.length} more projects_`);
+    }
+    if (pendingPrompt && !pendingPrompt.startsWith('Current:')) {
+      lines.push(
+        `Your message: _"${pendingPrompt.slice(0, 100)}${pendingPrompt.length > 100 ? '...' : ''}"_`
+      );
+    }
+
+    const sent = await this.sendText(
+      channel,
+      `*Please select a project to work with:*\n${lines.join('\n')}`,
+      threadTs,
+      {
+        inline_keyboard: shown.map((project, index) => [
+          this.button(`${index + 1}. ${project.name}`, 'select_project', project.path),
+        ]),
+      }
+    );
+    return TelegramAdapter.toTs(sent);
+  }
+
+  /**
+   * Upload a code snippet as a document
+   */
+  async uploadSnippet(
+    channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    try {
+      const form = new FormData();
+      form.append('chat_id', channel);
+      for (const [key, value] of Object.entries(this.threadParams(channel, options.threadTs))) {
+        form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
+      const caption = options.initialComment || options.title;
+      if (caption) form.append('caption', caption.slice(0, 1024));
+      form.append(
+        'document',
+        new Blob([content], { type: 'text/plain' }),
+        options.filename || 'snippet.txt'
+      );
+
+      await this.request('sendDocument', { method: 'POST', body: form });
+    } catch (error) {
+      consola.error('Failed to upload snippet:', error);
+    }
+  }
+
+  /**
+   * Long-poll getUpdates until stopped. Updates are dispatched without waiting,
+   * since a message handler runs for as long as Claude does.
+   */
+  private async poll(): Promise<void> {
+    while (this.polling) {
+      this.pollAbort = new AbortController();
+      try {
+        const updates = await this.call<TelegramUpdate[]>(
+          'getUpdates',
+          {
+            offset: this.offset,
+            timeout: TelegramAdapter.POLL_TIMEOUT_SECONDS,
+            allowed_updates: ['message', 'callback_query'],
+          },
+          this.pollAbort.signal
+        );
+
+        for (const update of updates) {
+          this.offset = update.update_id + 1;
+          this.handleUpdate(update).catch((error) =>
+            consola.error('[telegram] handler error:', error)
+          );
+        }
+      } catch (error) {
+        if (!this.polling) break;
+        consola.warn('Telegram getUpdates failed, retrying:', error);
+        await new Promise((resolve) => setTimeout(resolve, TelegramAdapter.RETRY_DELAY));
+      }
+    }
+  }
+
+  private async handleUpdate(update: TelegramUpdate): Promise<void> {
+    if (update.callback_query) {
+      await this.handleCallbackQuery(update.callback_query);
+    } else if (update.message) {
+      await this.handleMessage(update.message);
+    }
+  }
+
+  private async handleMessage(message: TelegramMessage): Promise<void> {
+    if (!message.from || message.from.is_bot) return;
+
+    const username = this.bot?.username || '';
+    const rawText = message.text ?? message.caption ?? '';
+    const isPrivate = message.chat.type === 'private';
+    const isMention = !!username && rawText.includes(`@${username}`);
+    const isReplyToBot = message.reply_to_message?.from?.id === this.bot?.id;
+
+    // In groups only react when addressed (privacy mode already filters most of the rest)
+    if (!isPrivate && !isMention && !isReplyToBot) return;
+
+    const context = this.getContext(message, message.from);
+    const text = rawText.replace(new RegExp(`@${username}\\b`, 'g'), '').trim();
+
+    consola.info(
+      `[telegram:message] user=${context.userId} chat=${context.channelId} text="${text.slice(0, 50)}"`
+    );
+
+    // Bot commands, like Slack's slash commands
+    const command = /^\/(\w+)\s*$/.exec(text)?.[1]?.toLowerCase();
+    const commandAction = command ? TelegramAdapter.COMMAND_ACTIONS[command] : undefined;
+    if (commandAction) {
+      for (const handler of this.interactionHandlers) {
+        await handler(commandAction, '', context);
+      }
+      return;
+    }
+
+    // Voice notes and audio go to transcription instead of Claude
+    const audio = message.voice || message.audio || message.video_note;
+    if (audio) {
+      try {
+        const audioBuffer = await this.downloadFile(audio.file_id);
+        const mimeType = audio.mime_type || (message.video_note ? 'video/mp4' : 'audio/ogg');
+        for (const handler of this.audioMessageHandlers) {
+          await handler({ audioBuffer, mimeType, context });
+        }
+      } catch (error) {
+        consola.error('Failed to download Telegram audio:', error);
+      }
+      return;
+    }
+
+    const images: IMImageAttachment[] = [];
+    // Photos come in several sizes, the last one is the largest
+    const photo = message.photo?.[message.photo.length - 1];
+    const imageDocument = message.document?.mime_type?.startsWith('image/')
+      ? message.document
+      : undefined;
+    const image = photo || imageDocument;
+    if (image) {
+      try {
+        images.push({
+          buffer: await this.downloadFile(image.file_id),
+          filename: image.file_name || `photo-${message.message_id}.jpg`,
+          mimetype: image.mime_type || 'image/jpeg',
+        });
+      } catch (error) {
+        consola.error('Failed to download Telegram image:', error);
+      }
+    }
+
+    // /start is what Telegram sends when a user first opens the bot
+    const prompt = command === 'start' ? 'help' : text;
+    if (!prompt && images.length === 0) return;
+
+    for (const handler of this.messageHandlers) {
+      await handler({ text: prompt, context, images: images.length > 0 ? images : undefined });
+    }
+  }
+
+  private async handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
+    // Stops the loading spinner on the button
+    await this.call('answerCallbackQuery', { callback_query_id: query.id }).catch(() => {});
+
+    if (!query.message || !query.data) return;
+
+    const separator = query.data.indexOf('|');
+    const action = separator >= 0 ? query.data.slice(0, separator) : query.data;
+    const encoded = separator >= 0 ? query.data.slice(separator + 1) : '';
+    const value = encoded.startsWith('#') ? this.buttonValues.get(encoded) || '' : encoded;
+
+    consola.debug(`Telegram action received: ${action} = ${value}`);
+
+    const context = this.getContext(query.message, query.from);
+    for (const handler of this.interactionHandlers) {
+      await handler(action, value, context);
+    }
+  }
+
+  private getContext(message: TelegramMessage, from: TelegramUser): MessageContext {
+    const channelId = String(message.chat.id);
+    const context: MessageContext = {
+      channelId,
+      userId: String(from.id),
+      messageTs: TelegramAdapter.toTs(message),
+    };
+
+    if (message.is_topic_message && message.message_thread_id) {
+      context.threadTs = String(message.message_thread_id);
+      this.topics.add(`${channelId}:${context.threadTs}`);
+    }
+    return context;
+  }
+
+  private async sendText(
+    channel: string,
+    text: string,
+    threadTs?: string,
+    replyMarkup?: { inline_keyboard: InlineButton[][] }
+  ): Promise<TelegramMessage> {
+    return this.callWithMarkdown<TelegramMessage>('sendMessage', {
+      chat_id: channel,
+      text: this.formatText(text),
+      ...this.threadParams(channel, threadTs),
+      ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+    });
+  }
+
+  private static toTs(message: TelegramMessage): string {
+    return `${message.chat.id}:${message.message_id}`;
+  }
+
+  // The message ID of a "chat:message" ts (or of a bare message ID)
+  private static toMessageId(ts: string): number {
+    return Number(ts.slice(ts.lastIndexOf(':') + 1));
+  }
+
+  /**
+   * Post into a forum topic, or as a reply to the message threadTs points at
+   */
+  private threadParams(channel: string, threadTs?: string): Record<string, unknown> {
+    if (!threadTs) return {};
+    if (this.topics.has(`${channel}:${threadTs}`)) {
+      return { message_thread_id: Number(threadTs) };
+    }
+    return {
+      reply_parameters: {
+        message_id: TelegramAdapter.toMessageId(threadTs),
+        allow_sending_without_reply: true,
+      },
+    };
+  }
+
+  /**
+   * Send with Telegram's legacy Markdown, which matches Slack mrkdwn closely, and
+   * fall back to plain text when Claude's output doesn't parse
+   */
+  private async callWithMarkdown<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    try {
+      return await this.call<T>(method, { ...params, parse_mode: 'Markdown' });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("can't parse entities")) {
+        return this.call<T>(method, params);
+      }
+      throw error;
+    }
+  }
+
+  private async call<T = unknown>(
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this.request<T>(method, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal,
+    });
+  }
+
+  private async request<T>(method: string, init: RequestInit): Promise<T> {
+    const response = await fetch(`${this.apiUrl()}/bot${this.config.botToken}/${method}`, init);
+    const data = (await response.json()) as { ok: boolean; result: T; description?: string };
+    if (!data.ok) {
+      throw new Error(`Telegram ${method} failed: ${data.description || response.status}`);
+    }
+    return data.result;
+  }
+
+  private async downloadFile(fileId: string): Promise<Buffer> {
+    const file = await this.call<{ file_path?: string }>('getFile', { file_id: fileId });
+    if (!file.file_path) {
+      throw new Error('Telegram file has no download path (larger than 20 MB?)');
+    }
+
+    const response = await fetch(
+      `${this.apiUrl()}/file/bot${this.config.botToken}/${file.file_path}`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private apiUrl(): string {
+    return (this.config.apiUrl || 'https://api.telegram.org').replace(/\/$/, '');
+  }
+
+  /**
+   * Pack action and value into callback_data (64 bytes max), keeping long values in memory
+   */
+  private button(text: string, action: string, value: string): InlineButton {
+    let data = `${action}|${value}`;
+    if (
+      Buffer.byteLength(data) > TelegramAdapter.MAX_CALLBACK_DATA_BYTES ||
+      value.startsWith('#')
+    ) {
+      const key = `#${this.nextButtonKey++}`;
+      this.buttonValues.set(key, value);
+      if (this.buttonValues.size > TelegramAdapter.MAX_BUTTON_VALUES) {
+        const oldest = this.buttonValues.keys().next().value;
+        if (oldest) this.buttonValues.delete(oldest);
+      }
+      data = `${action}|${key}`;
+    }
+    return { text: text.slice(0, 64), callback_data: data };
+  }
+
+  private stopKeyboard(): { inline_keyboard: InlineButton[][] } {
+    return { inline_keyboard: [[this.button('🛑 Stop', 'stop_execution', '')]] };
+  }
+
+  /**
+   * Slack links become Markdown links, and long output keeps its end under the size
+   * limit since that's where streaming text grows
+   */
+  private formatText(text: string): string {
+    let result = text.replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '[$2]($1)');
+
+    if (result.length > TelegramAdapter.MAX_TEXT_LENGTH) {
+      result = `…${result.slice(-(TelegramAdapter.MAX_TEXT_LENGTH - 1))}`;
+    }
+    return result || '…';
+  }
+}
@@ -0,0 +1,344 @@
+import { userInfo } from 'node:os';
+import { type Interface, createInterface } from 'node:readline';
+import { consola } from 'consola';
+import { colors, stripAnsi } from 'consola/utils';
+import { TERMINAL_ADAPTER_NAME } from '../constants';
+import type {
+  ConfigField,
+  IMAdapter,
+  InteractionHandler,
+  MessageContext,
+  MessageHandler,
+  MessageOptions,
+  ValidationResult,
+} from '../types';
+import { parseSlackBlocks, slackBlocksText } from './slack-blocks';
+
+export interface TerminalAdapterOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WriteStream;
+  channelId?: string;
+}
+
+// A numbered choice from the latest card
+interface Choice {
+  label: string;
+  action: string;
+  value: string;
+}
+
+/**
+ * Renders the bot into the terminal for `hmdg chat`. The terminal is a single
+ * channel without threads. The message being streamed is redrawn in place, and
+ * card buttons become numbered choices picked by typing the number.
+ */
+export class TerminalAdapter implements IMAdapter {
+  readonly name = TERMINAL_ADAPTER_NAME;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WriteStream;
+  private channelId: string;
+  private userId: string;
+  private rl: Interface | null = null;
+  private closed = false;
+  private exitWaiters: Array<() => void> = [];
+  private messageHandlers: MessageHandler[] = [];
+  private interactionHandlers: InteractionHandler[] = [];
+  private nextId = 1;
+  private texts: Map<string, string> = new Map();
+  // The block printed last, the only one that can be redrawn in place
+  private lastBlock: { id: string; rows: number } | null = null;
+  private choices: Choice[] = [];
+  private choicesMessageId: string | null = null;
+
+  constructor(options: TerminalAdapterOptions = {}) {
+    this.input = options.input || process.stdin;
+    this.output = options.output || process.stdout;
+    this.channelId = options.channelId || 'terminal';
+    // Matched against access.users like an IM user ID
+    this.userId = `terminal:${userInfo().username}`;
+  }
+
+  async init(): Promise<void> {}
+
+  getConfigTemplate(): ConfigField[] {
+    return [];
+  }
+
+  validateConfig(): ValidationResult {
+    return { valid: true, errors: [] };
+  }
+
+  async start(): Promise<void> {
+    this.rl = createInterface({
+      input: this.input,
+      output: this.output,
+      prompt: colors.cyan('> '),
+      terminal: this.isTTY(),
+    });
+
+    this.rl.on('line', (line) => this.handleLine(line));
+    this.rl.on('SIGINT', () => this.rl?.close());
+    this.rl.on('close', () => {
+      this.closed = true;
+      for (const resolve of this.exitWaiters) resolve();
+      this.exitWaiters = [];
+    });
+
+    this.output.write(
+      `${colors.dim(`Chatting as ${this.userId}. Type "help" for commands, a number to pick a choice, /exit to quit.`)}\n\n`
+    );
+    this.showPrompt();
+  }
+
+  async stop(): Promise<void> {
+    this.closed = true;
+    this.rl?.close();
+    this.rl = null;
+  }
+
+  /**
+   * Resolves once the user quits (/exit, Ctrl+D or Ctrl+C)
+   */
+  waitForExit(): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    return new Promise((resolve) => this.exitWaiters.push(resolve));
+  }
+
+  getContext(): MessageContext {
+    return { channelId: this.channelId, userId: this.userId };
+  }
+
+  async sendMessage(
+    _channel: string,
+    message: string,
+    _threadTs?: string,
+    options?: MessageOptions
+  ): Promise<string> {
+    const id = `t${this.nextId++}`;
+    this.texts.set(id, message);
+    this.printBlock(id, message, options?.runState === 'running');
+    return id;
+  }
+
+  async updateMessage(
+    _channel: string,
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void> {
+    const inProgress = options?.runState === 'running';
+    if (this.texts.get(messageTs) === message) return;
+    this.texts.set(messageTs, message);
+
+    // Updating a card answers it, like buttons disappearing in Slack
+    if (this.choicesMessageId === messageTs) {
+      this.choices = [];
+      this.choicesMessageId = null;
+    }
+
+    if (!this.isTTY()) {
+      // Without cursor control only finished messages are worth printing
+      if (!inProgress) this.printBlock(messageTs, message);
+      return;
+    }
+    this.printBlock(messageTs, message, inProgress);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onInteraction(handler: InteractionHandler): void {
+    this.interactionHandlers.push(handler);
+  }
+
+  /**
+   * Buttons are listed as numbered choices
+   */
+  async sendInteractiveMessage(_channel: string, text: string, blocks: unknown[]): Promise<string> {
+    const parts = parseSlackBlocks(blocks);
+    const texts = slackBlocksText(parts);
+    const choices: Choice[] = parts.flatMap((part) =>
+      part.buttons.map(({ label, action, value }) => ({ label, action, value }))
+    );
+
+    return this.sendCard(texts.join('\n') || text, choices);
+  }
+
+  async sendPermissionCard(
+    _channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>
+  ): Promise<string> {
+    const inputStr = JSON.stringify(toolInput, null, 2).slice(0, 500);
+
+    return this.sendCard(
+      `⚠️ *Permission Request*\nClaude wants to use *${toolName}*\n\`\`\`\n${inputStr}\n\`\`\``,
+      [
+        { label: '✅ Allow', action: 'permission_approve', value: requestId },
+        { label: '❌ Deny', action: 'permission_deny', value: requestId },
+      ]
+    );
+  }
+
+  async sendProjectSelectionCard(
+    _channel: string,
+    projects: Array<{ name: string; path: string }>,
+    pendingPrompt: string
+  ): Promise<string> {
+    const lines = ['*Please select a project to work with:*'];
+    if (pendingPrompt && !pendingPrompt.startsWith('Current:')) {
+      lines.push(
+        `Your message: _"${pendingPrompt.slice(0, 100)}${pendingPrompt.length > 100 ? '...' : ''}"_`
+      );
+    }
+
+    return this.sendCard(
+      lines.join('\n'),
+      projects.map((project) => ({
+        label: project.path,
+        action: 'select_project',
+        value: project.path,
+      }))
+    );
+  }
+
+  async uploadSnippet(
+    _channel: string,
+    content: string,
+    options: {
+      filename?: string;
+      title?: string;
+      threadTs?: string;
+      initialComment?: string;
+    } = {}
+  ): Promise<void> {
+    const title = options.initialComment || options.title || options.filename || 'Snippet';
+    await this.sendMessage(this.channelId, `${title}\n\`\`\`\n${content}\n\`\`\``);
+  }
+
+  private async sendCard(text: string, choices: Choice[]): Promise<string> {
+    const numbered = choices.map(
+      (choice, index) => `  ${colors.cyan(`[${index + 1}]`)} ${choice.label}`
+    );
+    const id = await this.sendMessage(this.channelId, [text, ...numbered].join('\n'));
+
+    // Only the latest card can be answered
+    this.choices = choices;
+    this.choicesMessageId = id;
+    return id;
+  }
+
+  private handleLine(line: string): void {
+    const text = line.trim();
+    // The typed line is part of the scrollback now, nothing above can be redrawn
+    this.lastBlock = null;
+
+    if (!text) {
+      this.showPrompt();
+      return;
+    }
+
+    if (text === '/exit' || text === '/quit') {
+      this.rl?.close();
+      return;
+    }
+
+    const context: MessageContext = {
+      channelId: this.channelId,
+      userId: this.userId,
+      messageTs: `m${this.nextId++}`,
+    };
+
+    const choice = /^\d+$/.test(text) ? this.choices[Number(text) - 1] : undefined;
+    if (choice && this.choicesMessageId) {
+      context.messageTs = this.choicesMessageId;
+      this.dispatch(async () => {
+        for (const handler of this.interactionHandlers) {
+          await handler(choice.action, choice.value, context);
+        }
+      });
+    } else {
+      // Not awaited: a prompt runs for as long as Claude does, and `stop` must get through
+      this.dispatch(async () => {
+        for (const handler of this.messageHandlers) {
+          await handler({ text, context });
+        }
+      });
+    }
+    this.showPrompt();
+  }
+
+  private showPrompt(preserveCursor = false): void {
+    // Piped input has no one to prompt
+    if (this.isTTY()) this.rl?.prompt(preserveCursor);
+  }
+
+  private dispatch(task: () => Promise<void>): void {
+    task().catch((error) => consola.error('[terminal] handler error:', error));
+  }
+
+  /**
+   * Print a message, or redraw it in place when it is still the last thing on screen
+   */
+  private printBlock(id: string, message: string, inProgress = false): void {
+    if (this.closed) return;
+
+    const screenRows = this.output.rows || 24;
+    let rendered = this.render(message);
+    // A block taller than the screen can't be redrawn, so show the tail while it streams
+    if (this.isTTY() && inProgress) {
+      const lines = rendered.split('\n');
+      if (this.countRows(rendered) > screenRows - 2) {
+        rendered = [colors.dim('…'), ...lines.slice(-(screenRows - 4))].join('\n');
+      }
+    }
+
+    if (this.isTTY()) {
+      // Clear the prompt line, and the previous version of this block if it's the last one
+      this.output.write('\r\x1b[2K');
+      if (this.lastBlock?.id === id) {
+        this.output.write(`\x1b[${this.lastBlock.rows}A\x1b[J`);
+      }
+    }
+
+    this.output.write(`${rendered}\n\n`);
+    const rows = this.countRows(rendered) + 1;
+    this.lastBlock = rows < screenRows ? { id, rows } : null;
+    this.showPrompt(true);
+  }
+
+  private countRows(rendered: string): number {
+    const columns = this.output.columns || 80;
+    return rendered
+      .split('\n')
+      .reduce((rows, line) => rows + Math.max(1, Math.ceil(stripAnsi(line).length / columns)), 0);
+  }
+
+  /**
+   * Slack mrkdwn to terminal styles: *bold*, _italic_, `code`, ```blocks``` and <url|text>
+   */
+  private render(text: string): string {
+    return text
+      .split(/(```[\s\S]*?```)/)
+      .map((part) => {
+        if (part.startsWith('```')) {
+          return colors.dim(part.replace(/^```\w*\n?|\n?```$/g, ''));
+        }
+        return part
+          .replace(
+            /<(https?:\/\/[^|>]+)\|([^>]+)>/g,
+            (_m, url, label) => `${label} (${colors.underline(url)})`
+          )
+          .replace(/(?<![*\w])\*([^*\n]+)\*(?![*\w])/g, (_m, bold) => colors.bold(bold))
+          .replace(/(?<![_\w])_([^_\n]+)_(?![_\w])/g, (_m, italic) => colors.italic(italic))
+          .replace(/`([^`\n]+)`/g, (_m, code) => colors.cyan(code));
+      })
+      .join('');
+  }
+
+  private isTTY(): boolean {
+    return !!this.output.isTTY;
+  }
+}
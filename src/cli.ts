@@ -4,6 +4,7 @@ import { Command } from 'commander';
 import { consola } from 'consola';
 import { APP_NAME, CLI_NAME, VERSION } from './constants';
 
+import { chatCommand } from './commands/chat';
 import { configCommand } from './commands/config';
 // Import commands
 import { initCommand } from './commands/init';
@@ -30,6 +31,7 @@ program.addCommand(statusCommand);
 program.addCommand(projectCommand);
 program.addCommand(projectsCommand);
 program.addCommand(logsCommand);
+program.addCommand(chatCommand);
 
 // Error handling
 program.exitOverride((err) => {
@@ -0,0 +1,39 @@
+import { Command } from 'commander';
+import { consola } from 'consola';
+import { TerminalAdapter } from '../adapters/terminal';
+import { TERMINAL_STATE_FILE } from '../constants';
+import { ConfigManager } from '../services/config-manager';
+import { MessageProcessor } from '../services/message-processor';
+
+export const chatCommand = new Command('chat')
+  .description(
+    'Chat with Claude in the terminal, with the same commands and sessions as the IM bot'
+  )
+  .option('--verbose', 'Show service logs while chatting')
+  .action(async (options) => {
+    const configManager = new ConfigManager();
+    // Works without `hmdg init`, sessions state still needs somewhere to go
+    configManager.ensureConfigDir();
+
+    // Logs would break up the conversation
+    consola.level = options.verbose ? 4 : 0;
+
+    // Same config as the service, but its own state file: both rewrite theirs whole
+    // while running side by side (Claude's session history is still shared)
+    const messageProcessor = new MessageProcessor(configManager, TERMINAL_STATE_FILE);
+    const adapter = new TerminalAdapter();
+
+    adapter.onMessage(async (message) => {
+      await messageProcessor.handleMessage(message, adapter);
+    });
+    adapter.onInteraction(async (action, value, context) => {
+      await messageProcessor.handleInteraction(action, value, context, adapter);
+    });
+
+    await adapter.start();
+    await adapter.waitForExit();
+
+    // Don't leave Claude running in the background (the adapter is closed, so nothing is printed)
+    await messageProcessor.handleInteraction('stop_execution', '', adapter.getContext(), adapter);
+    process.exit(0);
+  });
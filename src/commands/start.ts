@@ -2,8 +2,10 @@ import { spawnSync } from 'node:child_process';
 import { dirname, join } from 'node:path';
 import { Command } from 'commander';
 import { consola } from 'consola';
+import { getEnabledAdapterNames } from '../adapters/registry';
 import { ConfigManager } from '../services/config-manager';
 import { ServiceManager } from '../services/service-manager';
+import type { AdapterConfigs } from '../types';
 
 export const startCommand = new Command('start')
   .description('Start the heimerdinger service')
@@ -19,16 +21,13 @@ export const startCommand = new Command('start')
       process.exit(1);
     }
 
-    // Check if adapter is configured
-    const activeAdapter = configManager.get('activeAdapter');
-    if (!activeAdapter) {
-      consola.error('No IM adapter configured. Run `hmdg init` first.');
-      process.exit(1);
-    }
-
-    const adapterConfig = configManager.get<{ enabled?: boolean }>(`adapters.${activeAdapter}`);
-    if (!adapterConfig?.enabled) {
-      consola.error(`Adapter "${activeAdapter}" is not enabled or configured.`);
+    // Check if an adapter is configured
+    const adapterNames = getEnabledAdapterNames(
+      configManager.get<AdapterConfigs>('adapters') || {},
+      configManager.get<string>('activeAdapter')
+    );
+    if (adapterNames.length === 0) {
+      consola.error('No IM adapter enabled. Run `hmdg init` first.');
       process.exit(1);
     }
 
@@ -20,7 +20,7 @@ export const statusCommand = new Command('status')
     console.log('');
     console.log(`  PID:          ${status.pid}`);
     console.log(`  Port:         ${status.port}`);
-    console.log(`  Adapter:      ${status.adapter}`);
+    console.log(`  Adapters:     ${status.adapters?.join(', ') || '(none)'}`);
     console.log(`  Project Dir:  ${status.projectDir || '(not set)'}`);
 
     if (status.uptime) {
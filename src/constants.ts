@@ -19,6 +19,12 @@ export const PID_FILE = join(CONFIG_DIR, 'heimerdinger.pid');
 export const LOG_DIR = join(CONFIG_DIR, 'logs');
 export const LOG_FILE = join(LOG_DIR, 'app.log');
 export const SESSIONS_STATE_FILE = join(CONFIG_DIR, 'sessions-state.json');
+// hmdg chat keeps its own, the service rewrites its file whole and would drop the other's changes
+export const TERMINAL_STATE_FILE = join(CONFIG_DIR, 'terminal-state.json');
+export const WORKTREES_DIR = join(CONFIG_DIR, 'worktrees');
+
+// Branches created for conversation worktrees
+export const WORKTREE_BRANCH_PREFIX = 'hmdg/';
 
 // Claude Code paths
 export const CLAUDE_CONFIG_FILE = join(HOME_DIR, '.claude.json');
@@ -38,7 +44,10 @@ export const DEFAULT_CONFIG: HeimerdingerConfig = {
     includeThinking: true,
     defaultModel: 'sonnet',
     timeout: 300000, // 5 minutes
+    idleTimeout: 180000, // 3 minutes without output
     permissionMode: 'acceptEdits', // Auto-accept edit operations
+    maxConcurrent: 2, // Parallel runs across different projects
+    worktrees: false, // Run each conversation in its own git worktree
   },
   permissions: {
     allowedTools: ['Read', 'Glob', 'Grep', 'WebFetch', 'WebSearch'],
@@ -47,6 +56,14 @@ export const DEFAULT_CONFIG: HeimerdingerConfig = {
     confirmTimeout: 60,
     timeoutAction: 'deny',
   },
+  access: {
+    users: {},
+    defaultRole: 'none',
+  },
+  attachments: {
+    maxFileSize: 20, // MB
+    extractArchives: false, // Unpack .zip/.tar(.gz) attachments
+  },
   projectDir: '',
   adapters: {},
   activeAdapter: '',
@@ -56,6 +73,24 @@ export const DEFAULT_CONFIG: HeimerdingerConfig = {
   },
 };
 
+// Model aliases the Claude CLI accepts besides full names like claude-opus-4-1
+export const CLAUDE_MODEL_ALIASES = ['opus', 'sonnet', 'haiku', 'opusplan'];
+
+// Thinking budgets (MAX_THINKING_TOKENS) of the /effort levels
+export const CLAUDE_EFFORT_LEVELS: Record<string, number> = {
+  low: 4000,
+  medium: 10000,
+  high: 31999,
+};
+
 // Adapter names
 export const SLACK_ADAPTER_NAME = 'slack';
 export const FEISHU_ADAPTER_NAME = 'feishu';
+export const HTTP_ADAPTER_NAME = 'http';
+export const DISCORD_ADAPTER_NAME = 'discord';
+export const TEAMS_ADAPTER_NAME = 'teams';
+export const TELEGRAM_ADAPTER_NAME = 'telegram';
+export const MATTERMOST_ADAPTER_NAME = 'mattermost';
+export const EMAIL_ADAPTER_NAME = 'email';
+// Used by `hmdg chat` only, not configurable as a service adapter
+export const TERMINAL_ADAPTER_NAME = 'terminal';
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { AccessControl } from './access-control';
+
+describe('AccessControl', () => {
+  test('lets everyone do everything while no user is configured', () => {
+    const access = new AccessControl({ users: {}, defaultRole: 'none' });
+    expect(access.isEnabled()).toBe(false);
+    expect(access.getRole('U1')).toBe('approver');
+    expect(access.can('U1', 'approve')).toBe(true);
+  });
+
+  test('grants each role its own level and the ones below', () => {
+    const access = new AccessControl({
+      users: { V: 'viewer', P: 'prompter', A: 'approver' },
+      defaultRole: 'none',
+    });
+
+    expect(access.can('V', 'view')).toBe(true);
+    expect(access.can('V', 'prompt')).toBe(false);
+    expect(access.can('P', 'prompt')).toBe(true);
+    expect(access.can('P', 'approve')).toBe(false);
+    expect(access.can('A', 'approve')).toBe(true);
+  });
+
+  test('gives unlisted users the default role', () => {
+    const closed = new AccessControl({ users: { A: 'approver' }, defaultRole: 'none' });
+    expect(closed.getRole('stranger')).toBe('none');
+    expect(closed.can('stranger', 'view')).toBe(false);
+
+    const open = new AccessControl({ users: { A: 'approver' }, defaultRole: 'viewer' });
+    expect(open.can('stranger', 'view')).toBe(true);
+    expect(open.can('stranger', 'prompt')).toBe(false);
+  });
+
+  test('ignores IDs that name object properties', () => {
+    const access = new AccessControl({ users: { A: 'approver' }, defaultRole: 'none' });
+    expect(access.getRole('constructor')).toBe('none');
+    expect(access.can('__proto__', 'view')).toBe(false);
+  });
+
+  test('names the role a level needs', () => {
+    const access = new AccessControl({ users: {}, defaultRole: 'none' });
+    expect(access.requiredRole('approve')).toBe('approver');
+  });
+});
@@ -0,0 +1,53 @@
+import type { AccessConfig, UserRole } from '../types';
+
+// What a user is trying to do, from least to most privileged
+export type AccessLevel = 'view' | 'prompt' | 'approve';
+
+const ROLE_RANK: Record<UserRole | 'none', number> = {
+  none: 0,
+  viewer: 1,
+  prompter: 2,
+  approver: 3,
+};
+
+const LEVEL_ROLE: Record<AccessLevel, UserRole> = {
+  view: 'viewer',
+  prompt: 'prompter',
+  approve: 'approver',
+};
+
+/**
+ * Decides which IM users may drive Claude.
+ * Users are matched by their adapter user ID (Slack user ID, Feishu open_id).
+ */
+export class AccessControl {
+  private config: AccessConfig;
+
+  constructor(config: AccessConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Access control only applies once at least one user is configured
+   */
+  isEnabled(): boolean {
+    return Object.keys(this.config.users || {}).length > 0;
+  }
+
+  getRole(userId: string): UserRole | 'none' {
+    if (!this.isEnabled()) return 'approver';
+    const role = Object.hasOwn(this.config.users, userId) ? this.config.users[userId] : undefined;
+    return role || this.config.defaultRole || 'none';
+  }
+
+  can(userId: string, level: AccessLevel): boolean {
+    return ROLE_RANK[this.getRole(userId)] >= ROLE_RANK[LEVEL_ROLE[level]];
+  }
+
+  /**
+   * Role needed for an access level (for error messages)
+   */
+  requiredRole(level: AccessLevel): UserRole {
+    return LEVEL_ROLE[level];
+  }
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AttachmentStore } from './attachments';
+
+const store = new AttachmentStore({ maxFileSize: 1, extractArchives: false });
+const file = (name: string) => ({
+  buffer: Buffer.from('log line\n'),
+  filename: name,
+  mimetype: 'text/plain',
+});
+
+const dirs: string[] = [];
+function createRepo(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'hmdg-attachments-'));
+  dirs.push(dir);
+  execFileSync('git', ['init', '-q'], { cwd: dir });
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+describe('AttachmentStore', () => {
+  test('keeps saved files out of git', async () => {
+    const repo = createRepo();
+    const [saved] = await store.save([file('app.log')], repo);
+    await store.save([file('other.log')], repo);
+
+    expect(existsSync(saved.path)).toBe(true);
+    const status = execFileSync('git', ['status', '--porcelain', '--untracked-files=all'], {
+      cwd: repo,
+      encoding: 'utf-8',
+    });
+    expect(status).toBe('');
+    const exclude = readFileSync(join(repo, '.git', 'info', 'exclude'), 'utf-8');
+    expect(exclude.split('\n').filter((line) => line === '**/.claude/files/')).toHaveLength(1);
+  });
+
+  test('keeps user supplied names inside the files directory', async () => {
+    const repo = createRepo();
+    const [saved] = await store.save([file('../../escape.txt')], repo);
+    expect(saved.path.startsWith(join(repo, '.claude', 'files'))).toBe(true);
+  });
+
+  test('uses the reported size of files that were not downloaded', () => {
+    expect(store.isTooLarge(file('a.log'))).toBe(false);
+    expect(
+      store.isTooLarge({ ...file('a.log'), buffer: Buffer.alloc(0), size: 2 * 1024 * 1024 })
+    ).toBe(true);
+  });
+});
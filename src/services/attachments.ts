@@ -0,0 +1,180 @@
+import { execFileSync, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { consola } from 'consola';
+import type { AttachmentsConfig, IMFileAttachment } from '../types';
+
+// An attached file as written into the project
+export interface SavedAttachment {
+  path: string;
+  // Directory the archive was unpacked into
+  extractedTo?: string;
+}
+
+// Extracted archives may grow this much larger than the attachment size limit
+const EXTRACTED_SIZE_FACTOR = 10;
+
+// Keeps saved files out of /commit and /revert, at any depth of the repository
+const GIT_EXCLUDE_PATTERN = '**/.claude/files/';
+
+/**
+ * Saves files sent in chat (logs, patches, archives...) under `.claude/files/` of the
+ * project, where Claude can read them. Unlike images they are kept, so follow-up
+ * prompts can still refer to them. The directory is added to the repository's
+ * `info/exclude`, so the files are never committed or cleaned up by git commands.
+ */
+export class AttachmentStore {
+  private config: AttachmentsConfig;
+
+  constructor(config: AttachmentsConfig) {
+    this.config = config;
+  }
+
+  get maxFileSizeBytes(): number {
+    return (this.config.maxFileSize || 20) * 1024 * 1024;
+  }
+
+  isTooLarge(file: IMFileAttachment): boolean {
+    return (file.size ?? file.buffer.length) > this.maxFileSizeBytes;
+  }
+
+  async save(files: IMFileAttachment[], projectDir: string): Promise<SavedAttachment[]> {
+    const fileDir = join(projectDir, '.claude', 'files');
+    if (!existsSync(fileDir)) {
+      mkdirSync(fileDir, { recursive: true });
+    }
+    this.excludeFromGit(projectDir);
+
+    const saved: SavedAttachment[] = [];
+    for (const file of files) {
+      const id = randomUUID().slice(0, 8);
+      // The name comes from the user, keep it inside fileDir
+      const name = basename(file.filename).replace(/[^\w.-]/g, '_') || 'file';
+      const path = join(fileDir, `${id}-${name}`);
+      writeFileSync(path, file.buffer);
+      consola.info(`Saved file to: ${path} (${file.buffer.length} bytes)`);
+
+      const attachment: SavedAttachment = { path };
+      const archiveType = this.config.extractArchives ? this.getArchiveType(name) : null;
+      if (archiveType) {
+        const dir = join(fileDir, `${id}-${name.replace(/\.(zip|tar|tar\.gz|tgz)$/i, '')}`);
+        try {
+          await this.extract(path, dir, archiveType);
+          attachment.extractedTo = dir;
+          consola.info(`Extracted ${path} to ${dir}`);
+        } catch (error) {
+          rmSync(dir, { recursive: true, force: true });
+          consola.warn(`Failed to extract ${path}:`, error);
+        }
+      }
+      saved.push(attachment);
+    }
+    return saved;
+  }
+
+  /**
+   * Build prompt with attached file references
+   */
+  buildPrompt(prompt: string, saved: SavedAttachment[]): string {
+    if (saved.length === 0) return prompt;
+    const fileRefs = saved
+      .map((f) =>
+        f.extractedTo ? `  - ${f.path} (extracted to ${f.extractedTo})` : `  - ${f.path}`
+      )
+      .join('\n');
+    const fileInstruction = `[The user attached ${saved.length} file(s), saved at:\n${fileRefs}]`;
+    return prompt ? `${fileInstruction}\n\n${prompt}` : fileInstruction;
+  }
+
+  /**
+   * Add the attachments directory to the repository's info/exclude, unless it is there
+   */
+  private excludeFromGit(projectDir: string): void {
+    let excludePath: string;
+    try {
+      const gitPath = execFileSync('git', ['rev-parse', '--git-path', 'info/exclude'], {
+        cwd: projectDir,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim();
+      excludePath = resolve(projectDir, gitPath);
+    } catch {
+      return; // Not a git repository
+    }
+
+    try {
+      const current = existsSync(excludePath) ? readFileSync(excludePath, 'utf-8') : '';
+      if (current.split('\n').some((line) => line.trim() === GIT_EXCLUDE_PATTERN)) return;
+      mkdirSync(dirname(excludePath), { recursive: true });
+      const separator = current && !current.endsWith('\n') ? '\n' : '';
+      appendFileSync(excludePath, `${separator}${GIT_EXCLUDE_PATTERN}\n`);
+    } catch (error) {
+      consola.warn(`Failed to update ${excludePath}:`, error);
+    }
+  }
+
+  private getArchiveType(name: string): 'zip' | 'tar' | null {
+    if (/\.zip$/i.test(name)) return 'zip';
+    if (/\.(tar|tar\.gz|tgz)$/i.test(name)) return 'tar';
+    return null;
+  }
+
+  /**
+   * Unpack with the system unzip/tar, which both refuse paths outside the target directory
+   */
+  private async extract(archive: string, dir: string, type: 'zip' | 'tar'): Promise<void> {
+    const command = type === 'zip' ? 'unzip' : 'tar';
+
+    // Measure the contents first, so an archive bomb never reaches the disk
+    const maxBytes = this.maxFileSizeBytes * EXTRACTED_SIZE_FACTOR;
+    const size = await this.run(
+      command,
+      type === 'zip' ? ['-p', archive] : ['-xOf', archive],
+      maxBytes
+    );
+    if (size > maxBytes) {
+      throw new Error(`Extracted contents exceed ${Math.round(maxBytes / 1024 / 1024)} MB`);
+    }
+
+    mkdirSync(dir, { recursive: true });
+    await this.run(
+      command,
+      type === 'zip' ? ['-q', '-o', archive, '-d', dir] : ['-xf', archive, '-C', dir],
+      0
+    );
+  }
+
+  /**
+   * Run a command and return how many bytes it wrote to stdout.
+   * With a limit, the command is stopped as soon as its output goes over it.
+   */
+  private run(command: string, args: string[], limit: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      let bytes = 0;
+      let stderr = '';
+
+      proc.stdout.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (limit && bytes > limit) proc.kill();
+      });
+      proc.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      proc.on('error', reject);
+      proc.on('close', (code) => {
+        // Stopped for going over the limit, not a failure
+        if ((limit && bytes > limit) || code === 0) resolve(bytes);
+        else reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      });
+    });
+  }
+}
@@ -1,16 +1,61 @@
 import { execSync, spawn } from 'node:child_process';
-import { existsSync, readFileSync, readdirSync, realpathSync } from 'node:fs';
-import { basename, join } from 'node:path';
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  realpathSync,
+  rmSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, join, resolve as resolvePath } from 'node:path';
 
 import { consola } from 'consola';
-import { CLAUDE_CONFIG_FILE, CLAUDE_PROJECTS_DIR } from '../constants';
+import {
+  CLAUDE_CONFIG_FILE,
+  CLAUDE_PROJECTS_DIR,
+  WORKTREES_DIR,
+  WORKTREE_BRANCH_PREFIX,
+} from '../constants';
 import type {
   ClaudeProject,
   ClaudeSession,
   ClaudeSessionsIndex,
   ClaudeStreamChunk,
+  FileDiff,
+  PermissionDecision,
+  PermissionMode,
+  PermissionRequest,
+  WorktreeInfo,
 } from '../types';
 
+// Time Claude gets to exit after SIGTERM before it is killed
+const KILL_GRACE_PERIOD = 5000;
+
+/**
+ * A run stopped for taking too long (`total`) or going quiet (`idle`)
+ */
+export class ClaudeTimeoutError extends Error {
+  readonly kind: 'total' | 'idle';
+  // Session of the stopped run, to continue it
+  readonly sessionId?: string;
+
+  constructor(kind: 'total' | 'idle', limit: number, sessionId?: string) {
+    const duration =
+      limit >= 60000 ? `${Math.round(limit / 60000)} min` : `${Math.round(limit / 1000)}s`;
+    super(
+      kind === 'total'
+        ? `Claude timed out after ${duration}`
+        : `Claude produced no output for ${duration}`
+    );
+    this.name = 'ClaudeTimeoutError';
+    this.kind = kind;
+    this.sessionId = sessionId;
+  }
+}
+
 export class ClaudeCodeService {
   private claudeConfigPath: string;
   private projectsDir: string;
@@ -218,33 +263,67 @@ export class ClaudeCodeService {
   /**
    * Execute Claude CLI command with streaming output
    * Returns an object with the result promise and an abort function
+   *
+   * When onPermissionRequest is given, the prompt is sent over stdin (stream-json input)
+   * and Claude asks us via control_request messages before running tools that need
+   * approval; the run pauses until the returned decision is written back.
+   *
+   * With `timeout` (wall clock) or `idleTimeout` (no output, not counting time spent
+   * waiting for a permission decision), the run is stopped with SIGTERM, then SIGKILL,
+   * and the promise rejects with a ClaudeTimeoutError.
    */
   execute(
     projectDir: string,
     prompt: string,
     options: {
       sessionId?: string;
+      // Model alias or full name, Claude's own default when omitted
+      model?: string;
+      // Thinking budget in tokens (MAX_THINKING_TOKENS), Claude's own default when omitted
+      thinkingTokens?: number;
       allowedTools?: string[];
-      permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+      disallowedTools?: string[];
+      permissionMode?: PermissionMode;
       outputFormat?: 'json' | 'stream-json';
       onChunk?: (chunk: ClaudeStreamChunk) => void;
+      onPermissionRequest?: (request: PermissionRequest) => Promise<PermissionDecision>;
+      // Run in this worktree of projectDir instead of the project's own working tree
+      worktree?: WorktreeInfo;
       abortSignal?: AbortSignal;
+      // In milliseconds, 0 or omitted for no limit
+      timeout?: number;
+      idleTimeout?: number;
     } = {}
   ): { promise: Promise<ClaudeStreamChunk | null>; abort: () => void } {
+    const cwd = options.worktree?.path || projectDir;
     const args = ['-p'];
 
     // Output format (stream-json requires --verbose with -p)
-    const outputFormat = options.outputFormat || 'stream-json';
+    // Interactive permission prompts need stream-json on both ends
+    const interactive = !!options.onPermissionRequest;
+    const outputFormat = interactive ? 'stream-json' : options.outputFormat || 'stream-json';
     args.push('--output-format', outputFormat);
     if (outputFormat === 'stream-json') {
       args.push('--verbose');
     }
+    if (interactive) {
+      args.push('--input-format', 'stream-json', '--permission-prompt-tool', 'stdio');
+    }
+
+    if (options.model) {
+      args.push('--model', options.model);
+    }
 
     // Permission mode
     if (options.permissionMode) {
       args.push('--permission-mode', options.permissionMode);
     }
 
+    // Deny rules are enforced by Claude before any allow rule or permission mode
+    if (options.disallowedTools?.length) {
+      args.push('--disallowedTools', ...options.disallowedTools);
+    }
+
     // Resume session if provided
     if (options.sessionId) {
       args.push('--resume', options.sessionId);
@@ -253,12 +332,19 @@ export class ClaudeCodeService {
       consola.info('Starting new session');
     }
 
-    // Add prompt (must be last)
-    args.push(prompt);
+    // Add prompt (must be last); in interactive mode it is written to stdin instead
+    // `--` keeps variadic flags like --disallowedTools from swallowing the prompt
+    if (!interactive) {
+      args.push('--', prompt);
+    }
 
     // Verify cwd exists before spawning
-    if (!existsSync(projectDir)) {
-      throw new Error(`Project directory does not exist: ${projectDir}`);
+    if (!existsSync(cwd)) {
+      throw new Error(
+        options.worktree
+          ? `Worktree does not exist: ${cwd}`
+          : `Project directory does not exist: ${projectDir}`
+      );
     }
 
     // Resolve binary path (lazy, cached after first call)
@@ -304,35 +390,132 @@ export class ClaudeCodeService {
 
     // Remove all env vars that trigger Claude "nested session" detection
     const { CLAUDECODE, CLAUDE_CODE_ENTRYPOINT, CLAUDE_CODE_SESSION, ...cleanEnv } = process.env;
-    const spawnEnv = { ...cleanEnv, PATH: spawnPath };
+    const spawnEnv: NodeJS.ProcessEnv = { ...cleanEnv, PATH: spawnPath };
+    if (options.thinkingTokens) {
+      spawnEnv.MAX_THINKING_TOKENS = String(options.thinkingTokens);
+    }
 
     // 直接用当前 node 执行 claude 脚本，绕过 symlink + shebang 解析
     // process.execPath = 当前运行的 node 绝对路径（永远可靠）
 
-    consola.info(
-      `Spawning claude: node=${process.execPath}, script=${realScript}, cwd=${projectDir}`
-    );
+    consola.info(`Spawning claude: node=${process.execPath}, script=${realScript}, cwd=${cwd}`);
     const proc = spawn(process.execPath, [realScript, ...args], {
-      cwd: projectDir,
-      stdio: ['ignore', 'pipe', 'pipe'],
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
       env: spawnEnv,
       shell: false,
     });
 
+    // Write a JSON line to Claude's stdin (interactive mode only)
+    const writeStdin = (message: unknown) => {
+      if (!proc.stdin.destroyed && proc.stdin.writable) {
+        proc.stdin.write(`${JSON.stringify(message)}\n`);
+      }
+    };
+
+    // Answer a can_use_tool control request with the caller's decision
+    const answerPermissionRequest = async (
+      chunk: ClaudeStreamChunk,
+      handler: (request: PermissionRequest) => Promise<PermissionDecision>
+    ) => {
+      const requestId = chunk.request_id || '';
+      const input = chunk.request?.input || {};
+      let decision: PermissionDecision;
+      // Waiting for someone to answer isn't Claude going quiet
+      pendingDecisions++;
+      clearTimeout(idleTimer);
+      try {
+        decision = await handler({
+          requestId,
+          toolName: chunk.request?.tool_name || 'unknown',
+          input,
+        });
+      } catch (error) {
+        consola.error('Permission handler failed:', error);
+        decision = { behavior: 'deny', message: 'Permission check failed' };
+      } finally {
+        pendingDecisions--;
+        resetIdleTimer();
+      }
+      writeStdin({
+        type: 'control_response',
+        response: {
+          subtype: 'success',
+          request_id: requestId,
+          response:
+            decision.behavior === 'allow'
+              ? { behavior: 'allow', updatedInput: decision.updatedInput || input }
+              : decision,
+        },
+      });
+    };
+
+    proc.stdin.on('error', (err) => {
+      consola.debug('Claude stdin error:', err.message);
+    });
+    if (!interactive) {
+      // Prompt is passed as an argument, nothing to send
+      proc.stdin.end();
+    } else {
+      writeStdin({
+        type: 'user',
+        message: { role: 'user', content: prompt },
+        parent_tool_use_id: null,
+        session_id: '',
+      });
+    }
+
     let lastResult: ClaudeStreamChunk | null = null;
     let buffer = '';
     let stderrBuffer = '';
     let aborted = false;
+    let sessionId: string | undefined;
+    let timedOut: { kind: 'total' | 'idle'; limit: number } | null = null;
+
+    // SIGTERM first so Claude can save the session, SIGKILL if it doesn't exit
+    let killTimer: NodeJS.Timeout | undefined;
+    const terminate = () => {
+      proc.kill('SIGTERM');
+      killTimer = setTimeout(() => {
+        if (proc.exitCode === null && proc.signalCode === null) {
+          consola.warn('Claude did not exit after SIGTERM, sending SIGKILL');
+          proc.kill('SIGKILL');
+        }
+      }, KILL_GRACE_PERIOD);
+    };
 
     // Abort function to kill the process
     const abort = () => {
-      if (!aborted) {
+      if (!aborted && !timedOut) {
         aborted = true;
         consola.info('Aborting Claude process...');
-        proc.kill('SIGTERM');
+        terminate();
       }
     };
 
+    const stopForTimeout = (kind: 'total' | 'idle', limit: number) => {
+      if (aborted || timedOut) return;
+      timedOut = { kind, limit };
+      consola.warn(`Claude ${kind} timeout (${limit}ms) reached, stopping Claude process...`);
+      terminate();
+    };
+
+    const totalTimer = options.timeout
+      ? setTimeout(() => stopForTimeout('total', options.timeout || 0), options.timeout)
+      : undefined;
+    let idleTimer: NodeJS.Timeout | undefined;
+    let pendingDecisions = 0;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      if (options.idleTimeout && pendingDecisions === 0) {
+        idleTimer = setTimeout(
+          () => stopForTimeout('idle', options.idleTimeout || 0),
+          options.idleTimeout
+        );
+      }
+    };
+    resetIdleTimer();
+
     // Listen for abort signal if provided
     if (options.abortSignal) {
       options.abortSignal.addEventListener('abort', abort);
@@ -340,6 +523,7 @@ export class ClaudeCodeService {
 
     const promise = new Promise<ClaudeStreamChunk | null>((resolve, reject) => {
       proc.stdout.on('data', (data: Buffer) => {
+        resetIdleTimer();
         buffer += data.toString('utf8');
         const lines = buffer.split('\n');
         buffer = lines.pop() || '';
@@ -348,11 +532,20 @@ export class ClaudeCodeService {
           if (line.trim()) {
             try {
               const chunk: ClaudeStreamChunk = JSON.parse(line);
+              if (chunk.session_id) sessionId = chunk.session_id;
+              if (chunk.type === 'control_request') {
+                if (chunk.request?.subtype === 'can_use_tool' && options.onPermissionRequest) {
+                  answerPermissionRequest(chunk, options.onPermissionRequest);
+                }
+                continue;
+              }
               if (options.onChunk) {
                 options.onChunk(chunk);
               }
               if (chunk.type === 'result') {
                 lastResult = chunk;
+                // The run is over; closing stdin lets Claude exit
+                if (interactive) proc.stdin.end();
               }
             } catch {
               // Ignore parse errors
@@ -368,6 +561,10 @@ export class ClaudeCodeService {
       });
 
       proc.on('close', (code) => {
+        clearTimeout(totalTimer);
+        clearTimeout(idleTimer);
+        clearTimeout(killTimer);
+
         // Process remaining buffer
         if (buffer.trim()) {
           try {
@@ -385,6 +582,8 @@ export class ClaudeCodeService {
 
         if (aborted) {
           resolve(null); // Resolve with null if aborted
+        } else if (timedOut && !lastResult) {
+          reject(new ClaudeTimeoutError(timedOut.kind, timedOut.limit, sessionId));
         } else if (code === 0 || lastResult) {
           resolve(lastResult);
         } else {
@@ -395,7 +594,9 @@ export class ClaudeCodeService {
       });
 
       proc.on('error', (err) => {
-        const errorMsg = `Claude process error: ${err.message}, node=${process.execPath}, script=${realScript}, cwd=${projectDir}, nodeExists=${existsSync(process.execPath)}, scriptExists=${existsSync(realScript)}, cwdExists=${existsSync(projectDir)}`;
+        clearTimeout(totalTimer);
+        clearTimeout(idleTimer);
+        const errorMsg = `Claude process error: ${err.message}, node=${process.execPath}, script=${realScript}, cwd=${cwd}, nodeExists=${existsSync(process.execPath)}, scriptExists=${existsSync(realScript)}, cwdExists=${existsSync(cwd)}`;
         consola.error(errorMsg);
         console.error(errorMsg, err);
         reject(err);
@@ -477,13 +678,13 @@ export class ClaudeCodeService {
   }
 
   /**
-   * Get git diff for uncommitted changes in a project
+   * Get git diff for uncommitted changes in a project (or everything since baseRef)
    * Returns null if not a git repo or no changes
    */
-  async getGitDiff(projectDir: string): Promise<string | null> {
+  async getGitDiff(projectDir: string, baseRef = 'HEAD'): Promise<string | null> {
     return new Promise((resolve) => {
       // Get both staged and unstaged changes
-      const proc = spawn('git', ['diff', 'HEAD'], {
+      const proc = spawn('git', ['diff', baseRef], {
         cwd: projectDir,
         stdio: ['ignore', 'pipe', 'pipe'],
       });
@@ -511,9 +712,9 @@ export class ClaudeCodeService {
   /**
    * Get list of changed files (for summary)
    */
-  async getChangedFiles(projectDir: string): Promise<string[]> {
+  async getChangedFiles(projectDir: string, baseRef = 'HEAD'): Promise<string[]> {
     return new Promise((resolve) => {
-      const proc = spawn('git', ['diff', '--name-only', 'HEAD'], {
+      const proc = spawn('git', ['diff', '--name-only', baseRef], {
         cwd: projectDir,
         stdio: ['ignore', 'pipe', 'pipe'],
       });
@@ -537,4 +738,304 @@ export class ClaudeCodeService {
       });
     });
   }
+
+  /**
+   * Uncommitted changes as `git status --porcelain` lines (untracked files included)
+   */
+  async getStatus(projectDir: string): Promise<string[]> {
+    const result = await this.runGit(projectDir, ['status', '--porcelain']);
+    if (result.code !== 0) {
+      return [];
+    }
+    return result.stdout.split('\n').filter(Boolean);
+  }
+
+  async getCurrentBranch(projectDir: string): Promise<string> {
+    const result = await this.runGit(projectDir, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    return result.code === 0 ? result.stdout.trim() : 'HEAD';
+  }
+
+  /**
+   * Stage everything and commit it, returning the short hash of the new commit
+   */
+  async commitAll(projectDir: string, message: string): Promise<string> {
+    const added = await this.runGit(projectDir, ['add', '-A']);
+    if (added.code !== 0) {
+      throw new Error(`git add failed: ${added.stderr.trim()}`);
+    }
+
+    const commit = await this.runGit(projectDir, ['commit', '-m', message]);
+    if (commit.code !== 0) {
+      throw new Error(`git commit failed: ${(commit.stderr || commit.stdout).trim()}`);
+    }
+
+    const head = await this.runGit(projectDir, ['rev-parse', '--short', 'HEAD']);
+    return head.stdout.trim();
+  }
+
+  /**
+   * Create a branch at HEAD and switch to it, keeping uncommitted changes
+   */
+  async createBranch(projectDir: string, branch: string): Promise<void> {
+    const result = await this.runGit(projectDir, ['switch', '-c', branch]);
+    if (result.code !== 0) {
+      throw new Error(`git switch failed: ${result.stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Throw away uncommitted changes, including untracked files
+   */
+  async discardChanges(projectDir: string): Promise<void> {
+    const reset = await this.runGit(projectDir, ['reset', '--hard', 'HEAD']);
+    if (reset.code !== 0) {
+      throw new Error(`git reset failed: ${reset.stderr.trim()}`);
+    }
+
+    const clean = await this.runGit(projectDir, ['clean', '-fd']);
+    if (clean.code !== 0) {
+      throw new Error(`git clean failed: ${clean.stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Ask Claude for a commit message describing the given changes
+   */
+  async generateCommitMessage(
+    projectDir: string,
+    changes: string,
+    options: { disallowedTools?: string[]; timeout?: number } = {}
+  ): Promise<string> {
+    const prompt = `Write a git commit message for the changes below. Reply with the commit message only: a summary line of at most 72 characters, optionally followed by a blank line and a short body.\n\n${changes.slice(0, 20000)}`;
+
+    const { promise } = this.execute(projectDir, prompt, {
+      outputFormat: 'json',
+      permissionMode: 'plan', // Read-only
+      disallowedTools: options.disallowedTools,
+      timeout: options.timeout,
+    });
+    const result = await promise;
+
+    const message = (result?.result || '')
+      .trim()
+      .replace(/^```\w*\n?|\n?```$/g, '')
+      .trim();
+    if (!message || result?.is_error) {
+      throw new Error('Claude did not return a commit message');
+    }
+    return message;
+  }
+
+  /**
+   * Record the current working tree (tracked and untracked, minus ignored files) as a
+   * git tree object, without touching the real index. Returns null outside git repos.
+   */
+  async snapshotWorkingTree(projectDir: string): Promise<string | null> {
+    const tempDir = mkdtempSync(join(tmpdir(), 'hmdg-index-'));
+    const env = { GIT_INDEX_FILE: join(tempDir, 'index') };
+
+    try {
+      // Start from a copy of the real index, whose stat cache lets `add -A` skip hashing
+      // unchanged files. Without one (no commits yet), start from HEAD, which fails harmlessly.
+      const indexPath = await this.runGit(projectDir, ['rev-parse', '--git-path', 'index']);
+      const realIndex = resolvePath(projectDir, indexPath.stdout.trim());
+      if (indexPath.code === 0 && existsSync(realIndex)) {
+        copyFileSync(realIndex, env.GIT_INDEX_FILE);
+      } else {
+        await this.runGit(projectDir, ['read-tree', 'HEAD'], env);
+      }
+      const added = await this.runGit(projectDir, ['add', '-A'], env);
+      if (added.code !== 0) {
+        return null;
+      }
+
+      const tree = await this.runGit(projectDir, ['write-tree'], env);
+      return tree.code === 0 ? tree.stdout.trim() : null;
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Per-file unified diffs between two snapshots from snapshotWorkingTree
+   */
+  async diffSnapshots(projectDir: string, before: string, after: string): Promise<FileDiff[]> {
+    if (before === after) {
+      return [];
+    }
+
+    const [numstat, patch] = await Promise.all([
+      this.runGit(projectDir, ['diff', '--no-renames', '--numstat', '-z', before, after]),
+      this.runGit(projectDir, ['diff', '--no-renames', '--no-color', before, after]),
+    ]);
+    if (numstat.code !== 0 || patch.code !== 0) {
+      return [];
+    }
+
+    // Both outputs list files in the same order, one "diff --git" section per file
+    const patches = patch.stdout
+      .split(/^(?=diff --git )/m)
+      .filter((p) => p.startsWith('diff --git'));
+    const entries = numstat.stdout.split('\0').filter(Boolean);
+
+    return entries.map((entry, index) => {
+      const [added, deleted, file] = entry.split('\t');
+      const binary = added === '-';
+      const filePatch = patches[index] || '';
+      let status: FileDiff['status'] = 'modified';
+      if (/^new file mode/m.test(filePatch)) status = 'added';
+      else if (/^deleted file mode/m.test(filePatch)) status = 'deleted';
+
+      return {
+        file,
+        status,
+        additions: binary ? 0 : Number(added),
+        deletions: binary ? 0 : Number(deleted),
+        binary,
+        patch: filePatch,
+      };
+    });
+  }
+
+  /**
+   * Create a worktree of projectDir on a new branch, starting from its current HEAD
+   */
+  async createWorktree(projectDir: string): Promise<WorktreeInfo> {
+    const head = await this.runGit(projectDir, ['rev-parse', 'HEAD']);
+    if (head.code !== 0) {
+      throw new Error(`Not a git repository with commits: ${projectDir}`);
+    }
+
+    const baseRef = head.stdout.trim();
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const branch = `${WORKTREE_BRANCH_PREFIX}${id}`;
+    const path = join(WORKTREES_DIR, `${basename(projectDir)}-${id}`);
+
+    mkdirSync(WORKTREES_DIR, { recursive: true });
+    const added = await this.runGit(projectDir, ['worktree', 'add', '-b', branch, path, baseRef]);
+    if (added.code !== 0) {
+      throw new Error(`git worktree add failed: ${added.stderr.trim()}`);
+    }
+
+    consola.info(`Created worktree ${path} on ${branch}`);
+    return { path, branch, baseRef, projectPath: projectDir, createdAt: new Date().toISOString() };
+  }
+
+  /**
+   * List the conversation worktrees (branches under WORKTREE_BRANCH_PREFIX) of a project
+   */
+  async listWorktrees(projectDir: string): Promise<Array<{ path: string; branch: string }>> {
+    const result = await this.runGit(projectDir, ['worktree', 'list', '--porcelain']);
+    if (result.code !== 0) {
+      return [];
+    }
+
+    const worktrees: Array<{ path: string; branch: string }> = [];
+    for (const entry of result.stdout.split('\n\n')) {
+      const lines = entry.split('\n');
+      const path = lines.find((l) => l.startsWith('worktree '))?.slice('worktree '.length);
+      const branch = lines
+        .find((l) => l.startsWith('branch '))
+        ?.slice('branch '.length)
+        .replace(/^refs\/heads\//, '');
+      if (path && branch?.startsWith(WORKTREE_BRANCH_PREFIX)) {
+        worktrees.push({ path, branch });
+      }
+    }
+    return worktrees;
+  }
+
+  /**
+   * Commit what's left in the worktree and merge its branch into the branch checked out
+   * in the project. The worktree is removed after a successful merge; a failed merge is
+   * aborted and leaves everything in place.
+   */
+  async mergeWorktree(
+    worktree: WorktreeInfo,
+    message: string
+  ): Promise<{ merged: boolean; output: string; files: string[] }> {
+    await this.runGit(worktree.path, ['add', '-A']);
+    const staged = await this.runGit(worktree.path, ['diff', '--cached', '--quiet']);
+    if (staged.code !== 0) {
+      const commit = await this.runGit(worktree.path, ['commit', '-m', message]);
+      if (commit.code !== 0) {
+        throw new Error(`git commit failed: ${(commit.stderr || commit.stdout).trim()}`);
+      }
+    }
+
+    // Everything is committed now, so this covers new files too
+    const files = await this.getChangedFiles(worktree.path, worktree.baseRef);
+
+    const merge = await this.runGit(worktree.projectPath, [
+      'merge',
+      '--no-ff',
+      '-m',
+      `Merge ${worktree.branch}`,
+      worktree.branch,
+    ]);
+    if (merge.code !== 0) {
+      await this.runGit(worktree.projectPath, ['merge', '--abort']);
+      return { merged: false, output: (merge.stdout + merge.stderr).trim(), files };
+    }
+
+    await this.removeWorktree(worktree);
+    return { merged: true, output: merge.stdout.trim(), files };
+  }
+
+  /**
+   * Delete a worktree and its branch, discarding any changes in it
+   */
+  async removeWorktree(worktree: WorktreeInfo): Promise<void> {
+    const removed = await this.runGit(worktree.projectPath, [
+      'worktree',
+      'remove',
+      '--force',
+      worktree.path,
+    ]);
+    if (removed.code !== 0) {
+      if (existsSync(worktree.path)) {
+        throw new Error(`git worktree remove failed: ${removed.stderr.trim()}`);
+      }
+      // Directory is already gone, just forget about it
+      await this.runGit(worktree.projectPath, ['worktree', 'prune']);
+    }
+
+    await this.runGit(worktree.projectPath, ['branch', '-D', worktree.branch]);
+    consola.info(`Removed worktree ${worktree.path}`);
+  }
+
+  /**
+   * Run a git command, resolving with its exit code and output
+   */
+  private runGit(
+    cwd: string,
+    args: string[],
+    env?: Record<string, string>
+  ): Promise<{ code: number; stdout: string; stderr: string }> {
+    return new Promise((resolve) => {
+      const proc = spawn('git', args, {
+        cwd,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: env ? { ...process.env, ...env } : undefined,
+      });
+
+      let stdout = '';
+      let stderr = '';
+
+      proc.stdout.on('data', (data: Buffer) => {
+        stdout += data.toString('utf8');
+      });
+      proc.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString('utf8');
+      });
+
+      proc.on('close', (code) => {
+        resolve({ code: code ?? 1, stdout, stderr });
+      });
+
+      proc.on('error', (error) => {
+        resolve({ code: 1, stdout, stderr: error.message });
+      });
+    });
+  }
 }
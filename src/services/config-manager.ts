@@ -37,6 +37,8 @@ export class ConfigManager {
       server: { ...DEFAULT_CONFIG.server, ...loaded.server },
       claude: { ...DEFAULT_CONFIG.claude, ...loaded.claude },
       permissions: { ...DEFAULT_CONFIG.permissions, ...loaded.permissions },
+      access: { ...DEFAULT_CONFIG.access, ...loaded.access },
+      attachments: { ...DEFAULT_CONFIG.attachments, ...loaded.attachments },
       logging: { ...DEFAULT_CONFIG.logging, ...loaded.logging },
       adapters: { ...DEFAULT_CONFIG.adapters, ...loaded.adapters },
     };
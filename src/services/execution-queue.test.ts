@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { ExecutionQueue } from './execution-queue';
+
+// Whether a ticket's ready promise has settled, and how
+async function settled(ready: Promise<boolean>): Promise<boolean | 'pending'> {
+  return Promise.race([
+    ready,
+    new Promise<'pending'>((resolve) => setTimeout(resolve, 0, 'pending')),
+  ]);
+}
+
+describe('ExecutionQueue', () => {
+  test('starts a job right away when there is room', async () => {
+    const queue = new ExecutionQueue(() => 2);
+    const ticket = queue.enqueue('/a');
+
+    expect(ticket.position).toBe(0);
+    expect(await settled(ticket.ready)).toBe(true);
+    expect(queue.runningCount).toBe(1);
+  });
+
+  test('serializes jobs on the same project', async () => {
+    const queue = new ExecutionQueue(() => 2);
+    const first = queue.enqueue('/a');
+    const second = queue.enqueue('/a');
+
+    expect(second.position).toBe(1);
+    expect(await settled(second.ready)).toBe('pending');
+
+    first.release();
+    expect(await settled(second.ready)).toBe(true);
+  });
+
+  test('runs different projects in parallel up to the limit', async () => {
+    const queue = new ExecutionQueue(() => 2);
+    const a = queue.enqueue('/a');
+    queue.enqueue('/b');
+    const c = queue.enqueue('/c');
+
+    expect(queue.runningCount).toBe(2);
+    expect(c.position).toBe(1);
+
+    a.release();
+    expect(await settled(c.ready)).toBe(true);
+  });
+
+  test("doesn't let a busy project hold up the jobs behind it", async () => {
+    const queue = new ExecutionQueue(() => 2);
+    queue.enqueue('/a');
+    const blocked = queue.enqueue('/a');
+    const other = queue.enqueue('/b');
+
+    expect(await settled(other.ready)).toBe(true);
+    expect(await settled(blocked.ready)).toBe('pending');
+  });
+
+  test('reports position changes and cancels waiting jobs', async () => {
+    const queue = new ExecutionQueue(() => 1);
+    const running = queue.enqueue('/a');
+    const positions: number[] = [];
+    const cancelled = queue.enqueue('/b');
+    const last = queue.enqueue('/c', (position) => positions.push(position));
+
+    expect(last.position).toBe(2);
+    cancelled.cancel();
+    expect(await settled(cancelled.ready)).toBe(false);
+    expect(positions).toEqual([1]);
+
+    running.release();
+    expect(await settled(last.ready)).toBe(true);
+    expect(queue.waitingCount).toBe(0);
+  });
+
+  test('reports projects with running or waiting jobs as busy', () => {
+    const queue = new ExecutionQueue(() => 1);
+    const running = queue.enqueue('/a');
+    const waiting = queue.enqueue('/b');
+
+    expect(queue.isBusy('/a')).toBe(true);
+    expect(queue.isBusy('/b')).toBe(true);
+    expect(queue.isBusy('/c')).toBe(false);
+
+    waiting.cancel();
+    running.release();
+    expect(queue.isBusy('/a')).toBe(false);
+    expect(queue.isBusy('/b')).toBe(false);
+  });
+
+  test('ignores release before start and cancel after start', async () => {
+    const queue = new ExecutionQueue(() => 1);
+    const first = queue.enqueue('/a');
+    const second = queue.enqueue('/a');
+
+    second.release();
+    first.cancel();
+    expect(queue.runningCount).toBe(1);
+    expect(await settled(second.ready)).toBe('pending');
+  });
+});
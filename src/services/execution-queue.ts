@@ -0,0 +1,137 @@
+import { consola } from 'consola';
+
+interface QueuedJob {
+  id: number;
+  projectDir: string;
+  start: () => void;
+  cancel: () => void;
+  onPositionChange?: (position: number) => void;
+  position: number;
+}
+
+/**
+ * A place in the execution queue, handed out by ExecutionQueue.enqueue
+ */
+export interface QueueTicket {
+  // Resolves true once the job may run, false if it was cancelled while waiting
+  ready: Promise<boolean>;
+  // 0 when the job started right away, otherwise its place in line
+  position: number;
+  // Leave the queue without running (no-op once started)
+  cancel: () => void;
+  // Free the slot after the job finished (no-op while still waiting)
+  release: () => void;
+}
+
+/**
+ * Schedules Claude executions.
+ * Runs on the same project directory are serialized, runs on different projects
+ * go in parallel up to the configured limit. Waiting jobs start in arrival order,
+ * except that a job whose project is busy doesn't hold up the ones behind it.
+ */
+export class ExecutionQueue {
+  private getLimit: () => number;
+  private running: Map<string, number> = new Map();
+  private waiting: QueuedJob[] = [];
+  private nextId = 1;
+
+  constructor(getLimit: () => number) {
+    this.getLimit = getLimit;
+  }
+
+  get runningCount(): number {
+    return this.running.size;
+  }
+
+  get waitingCount(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Whether a job on projectDir is running or waiting
+   */
+  isBusy(projectDir: string): boolean {
+    return (
+      this.running.has(projectDir) || this.waiting.some((job) => job.projectDir === projectDir)
+    );
+  }
+
+  enqueue(projectDir: string, onPositionChange?: (position: number) => void): QueueTicket {
+    const id = this.nextId++;
+    let state: 'waiting' | 'running' | 'done' = 'waiting';
+    let resolveReady: (started: boolean) => void = () => {};
+    const ready = new Promise<boolean>((resolve) => {
+      resolveReady = resolve;
+    });
+
+    const job: QueuedJob = {
+      id,
+      projectDir,
+      position: 0,
+      onPositionChange,
+      start: () => {
+        state = 'running';
+        this.running.set(projectDir, id);
+        resolveReady(true);
+      },
+      cancel: () => {
+        state = 'done';
+        resolveReady(false);
+      },
+    };
+
+    this.waiting.push(job);
+    this.pump();
+
+    const ticket: QueueTicket = {
+      ready,
+      position: state === 'waiting' ? job.position : 0,
+      cancel: () => {
+        if (state !== 'waiting') return;
+        this.waiting = this.waiting.filter((j) => j.id !== id);
+        job.cancel();
+        this.pump();
+      },
+      release: () => {
+        if (state !== 'running') return;
+        state = 'done';
+        if (this.running.get(projectDir) === id) {
+          this.running.delete(projectDir);
+        }
+        this.pump();
+      },
+    };
+
+    if (ticket.position > 0) {
+      consola.info(`Queued run for ${projectDir} at position ${ticket.position}`);
+    }
+    return ticket;
+  }
+
+  /**
+   * Start every waiting job that can run, then renumber the rest
+   */
+  private pump(): void {
+    const limit = Math.max(1, this.getLimit());
+    const remaining: QueuedJob[] = [];
+
+    for (const job of this.waiting) {
+      if (this.running.size < limit && !this.running.has(job.projectDir)) {
+        job.start();
+      } else {
+        remaining.push(job);
+      }
+    }
+    this.waiting = remaining;
+
+    remaining.forEach((job, index) => {
+      const position = index + 1;
+      if (job.position !== position) {
+        // Only report moves after the initial placement
+        const moved = job.position !== 0;
+        job.position = position;
+        if (moved) job.onPositionChange?.(position);
+      }
+    });
+  }
+}
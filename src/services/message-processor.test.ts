@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { MessageProcessor } from './message-processor';
+
+const { findPageBreak } = MessageProcessor;
+
+describe('MessageProcessor.findPageBreak', () => {
+  test('cuts at the byte limit when there are no line breaks', () => {
+    expect(findPageBreak('a'.repeat(100), 80)).toBe('a'.repeat(80));
+  });
+
+  test('breaks at the last paragraph in the second half', () => {
+    const text = `${'a'.repeat(30)}\n\n${'b'.repeat(30)}\n\n${'c'.repeat(30)}`;
+    expect(findPageBreak(text, 80)).toBe(`${'a'.repeat(30)}\n\n${'b'.repeat(30)}`);
+  });
+
+  test('falls back to a line break when there is no paragraph', () => {
+    const text = `${'a'.repeat(50)}\n${'b'.repeat(50)}`;
+    expect(findPageBreak(text, 80)).toBe('a'.repeat(50));
+  });
+
+  test('ignores breaks in the first half of the page', () => {
+    const text = `${'a'.repeat(10)}\n\n${'b'.repeat(100)}`;
+    expect(findPageBreak(text, 80)).toBe(text.slice(0, 80));
+  });
+
+  test('counts bytes, not characters, and never splits a character', () => {
+    const text = '汉'.repeat(40);
+    const page = findPageBreak(text, 30);
+    expect(page).toBe('汉'.repeat(10));
+    expect(Buffer.byteLength(page)).toBeLessThanOrEqual(30);
+  });
+});
@@ -1,61 +1,190 @@
 import { randomUUID } from 'node:crypto';
 import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
 import { consola } from 'consola';
-import { SESSIONS_STATE_FILE } from '../constants';
+import { CLAUDE_EFFORT_LEVELS, CLAUDE_MODEL_ALIASES, SESSIONS_STATE_FILE } from '../constants';
 import type {
+  FileDiff,
   IMAdapter,
   IMAudioMessage,
+  IMFileAttachment,
   IMImageAttachment,
   IMMessage,
   MessageContext,
+  MessageOptions,
+  PermissionDecision,
   PermissionDenial,
+  PermissionMode,
+  PermissionRequest,
+  WorktreeInfo,
 } from '../types';
-import { ClaudeCodeService } from './claude-code';
+import { AccessControl, type AccessLevel } from './access-control';
+import { AttachmentStore } from './attachments';
+import { ClaudeCodeService, ClaudeTimeoutError } from './claude-code';
 import type { ConfigManager } from './config-manager';
+import { ExecutionQueue } from './execution-queue';
+import { PermissionPolicy } from './permission-policy';
+import { TOOL_VERBOSITY_LEVELS, ToolTimeline, type ToolVerbosity } from './tool-timeline';
 import { WhisperService } from './whisper';
 
 interface ChannelState {
   projectPath?: string;
   sessionId?: string;
   pendingPrompt?: string;
+  // Worktree the session runs in (claude.worktrees mode)
+  worktree?: WorktreeInfo;
+  // Adapter of a channel saved before state keys were prefixed with it (channel states only)
+  adapter?: string;
+  // Tool activity shown while Claude works (channel states only)
+  toolVerbosity?: ToolVerbosity;
+  // Post Claude's thinking after a run, defaults to claude.includeThinking (channel states only)
+  showThinking?: boolean;
+  // Model prompts run with unless they name one, defaults to claude.defaultModel (channel states only)
+  model?: string;
+  // Thinking effort prompts run with unless they name one, defaults to claude.defaultEffort (channel states only)
+  effort?: string;
+  // Session picked with /session outside a thread, continued by the next new thread (channel states only)
+  nextSessionId?: string;
 }
 
 interface PendingRetry {
   prompt: string;
   projectDir: string;
   channelId: string;
+  threadTs?: string;
   sessionId?: string;
+  worktree?: WorktreeInfo;
+  model?: string;
+  effort?: string;
+}
+
+interface PendingPermission {
+  channelId: string;
+  threadTs?: string;
+  // Status message of the run that is waiting
+  messageTs: string;
+  toolName: string;
+  settle: (approved: boolean) => void;
+}
+
+// A git command waiting for its confirmation card to be clicked
+interface PendingGitAction {
+  kind: 'commit' | 'branch' | 'revert' | 'worktree_merge' | 'worktree_discard';
+  workDir: string;
+  channelId: string;
+  threadTs?: string;
+  // Commit message or branch name
+  argument?: string;
+  // The conversation's worktree (worktree_merge and worktree_discard)
+  worktree?: WorktreeInfo;
+}
+
+// A run that has been started, either waiting in the queue or executing
+interface ActiveExecution {
+  sessionKey: string;
+  // "adapter:channel", channel IDs alone may repeat across platforms
+  channelKey: string;
+  channelId: string;
+  messageTs: string;
+  // Newest message of long output that continues over several messages
+  pageTs?: string;
+  // Directory Claude works in
+  workDir: string;
+  abort: () => void;
+  aborted: boolean;
+  queued: boolean;
+}
+
+// Where a tool approval is asked, and which run is waiting on it
+interface PermissionTarget {
+  channelId: string;
+  threadTs: string;
+  messageTs: string;
+}
+
+interface FileChange {
+  file: string;
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+// A single Claude execution, as started by runClaude
+interface ClaudeRun {
+  prompt: string;
+  projectDir: string;
+  sessionId?: string;
+  // Take the session from the thread's state once the run leaves the queue, so a prompt
+  // queued behind another one in the same thread continues the session that one ends in
+  sessionFromState?: boolean;
+  permissionMode: PermissionMode;
+  model?: string;
+  // Thinking effort, one of CLAUDE_EFFORT_LEVELS
+  effort?: string;
+  // Run in this worktree of projectDir
+  worktree?: WorktreeInfo;
+  images?: IMImageAttachment[];
+  files?: IMFileAttachment[];
+  // Existing message to stream into (e.g. voice transcription status)
+  messageTs?: string;
+  // Text of the status message when a new one has to be sent
+  initialText?: string;
+  // Fixed text shown above Claude's output
+  header?: string;
 }
 
 interface SessionsState {
-  // channel -> state
+  // Unset before keys were prefixed with the adapter name
+  version?: number;
+  // "adapter:channel" -> state (channel defaults, and sessions for adapters without threads)
   channels: Record<string, ChannelState>;
+  // "adapter:channel:threadTs" -> state (one Claude session per IM thread)
+  threads?: Record<string, ChannelState>;
   // project -> last session ID (for auto-resume)
   projectSessions: Record<string, string>;
 }
 
+// A one-off option in front of a prompt, e.g. "!opus" or "!high"
+const PROMPT_PREFIX_PATTERN = /^\s*!(\S+)(?:\s+|$)/;
+
 export class MessageProcessor {
   private configManager: ConfigManager;
   private claudeService: ClaudeCodeService;
   private whisperService: WhisperService;
 
-  // Track user states (channel -> state)
+  // Track user states ("adapter:channel" -> state)
   private userStates: Map<string, ChannelState> = new Map();
+  // Track per-thread states ("adapter:channel:threadTs" -> state)
+  private threadStates: Map<string, ChannelState> = new Map();
+  // Upper bound on persisted thread states
+  private static readonly MAX_THREAD_STATES = 500;
+  private static readonly STATE_VERSION = 2;
+  // Files whose diff is posted after a run
+  private static readonly MAX_DIFF_FILES = 10;
   // Track project -> session mapping for persistence
   private projectSessions: Map<string, string> = new Map();
   // Track pending retries (retryId -> retry info)
   private pendingRetries: Map<string, PendingRetry> = new Map();
-  // Track active executions per channel (for /stop command)
-  private activeExecutions: Map<
-    string,
-    { abort: () => void; messageTs: string; aborted: boolean }
-  > = new Map();
-
-  constructor(configManager: ConfigManager) {
+  // Track timed out runs that can be continued (continueId -> run info)
+  private pendingContinues: Map<string, PendingRetry> = new Map();
+  // Track tool permission requests waiting for a click (requestId -> request)
+  private pendingPermissions: Map<string, PendingPermission> = new Map();
+  // Track git commands waiting for confirmation (actionId -> action)
+  private pendingGitActions: Map<string, PendingGitAction> = new Map();
+  // Track queued and running executions (status messageTs -> execution, for /stop command)
+  private activeExecutions: Map<string, ActiveExecution> = new Map();
+  // Serializes runs per project and caps how many run at once
+  private executionQueue: ExecutionQueue;
+  // Where channel, thread and project session state is persisted
+  private stateFile: string;
+
+  constructor(configManager: ConfigManager, stateFile = SESSIONS_STATE_FILE) {
     this.configManager = configManager;
+    this.stateFile = stateFile;
     this.claudeService = new ClaudeCodeService();
     this.whisperService = new WhisperService();
+    this.executionQueue = new ExecutionQueue(
+      () => this.configManager.get<number>('claude.maxConcurrent') || 2
+    );
     this.loadState();
   }
 
@@ -64,13 +193,40 @@ export class MessageProcessor {
    */
   private loadState(): void {
     try {
-      if (existsSync(SESSIONS_STATE_FILE)) {
-        const content = readFileSync(SESSIONS_STATE_FILE, 'utf-8');
+      if (existsSync(this.stateFile)) {
+        const content = readFileSync(this.stateFile, 'utf-8');
         const state: SessionsState = JSON.parse(content);
+        const legacy = (state.version ?? 1) < MessageProcessor.STATE_VERSION;
+        // Older files keyed states by bare channel ID, the channel's adapter was stored in its state
+        const legacyAdapters = new Map(
+          Object.entries(state.channels || {}).map(([channel, channelState]) => [
+            channel,
+            channelState.adapter || this.configManager.get<string>('activeAdapter') || 'slack',
+          ])
+        );
 
         // Restore channel states
         for (const [channel, channelState] of Object.entries(state.channels || {})) {
-          this.userStates.set(channel, channelState);
+          if (legacy) {
+            channelState.adapter = undefined;
+            this.userStates.set(`${legacyAdapters.get(channel)}:${channel}`, channelState);
+          } else {
+            this.userStates.set(channel, channelState);
+          }
+        }
+
+        // Restore thread states
+        for (const [threadKey, threadState] of Object.entries(state.threads || {})) {
+          if (legacy) {
+            const channel = threadKey.slice(0, threadKey.lastIndexOf(':'));
+            const adapter =
+              legacyAdapters.get(channel) ||
+              this.configManager.get<string>('activeAdapter') ||
+              'slack';
+            this.threadStates.set(`${adapter}:${threadKey}`, threadState);
+          } else {
+            this.threadStates.set(threadKey, threadState);
+          }
         }
 
         // Restore project sessions
@@ -79,7 +235,7 @@ export class MessageProcessor {
         }
 
         consola.info(
-          `Loaded ${this.userStates.size} channel states, ${this.projectSessions.size} project sessions`
+          `Loaded ${this.userStates.size} channel states, ${this.threadStates.size} thread states, ${this.projectSessions.size} project sessions`
         );
         // Log channel states for debugging
         for (const [channel, channelState] of this.userStates) {
@@ -102,11 +258,25 @@ export class MessageProcessor {
    */
   private saveState(): void {
     try {
+      // Keep only the most recently created threads. Threads that own a worktree are kept
+      // until it's merged or discarded, otherwise its directory and branch would be orphaned.
+      const excess = this.threadStates.size - MessageProcessor.MAX_THREAD_STATES;
+      if (excess > 0) {
+        const prunable = [...this.threadStates]
+          .filter(([, threadState]) => !threadState.worktree)
+          .map(([key]) => key);
+        for (const key of prunable.slice(0, excess)) {
+          this.threadStates.delete(key);
+        }
+      }
+
       const state: SessionsState = {
+        version: MessageProcessor.STATE_VERSION,
         channels: Object.fromEntries(this.userStates),
+        threads: Object.fromEntries(this.threadStates),
         projectSessions: Object.fromEntries(this.projectSessions),
       };
-      writeFileSync(SESSIONS_STATE_FILE, JSON.stringify(state, null, 2));
+      writeFileSync(this.stateFile, JSON.stringify(state, null, 2));
     } catch (error) {
       consola.warn('Failed to save sessions state:', error);
     }
@@ -123,7 +293,9 @@ export class MessageProcessor {
     }
     for (const img of images) {
       const id = randomUUID().slice(0, 8);
-      const filename = `${id}-${img.filename}`;
+      // The name comes from the user, keep it inside imageDir
+      const name = basename(img.filename).replace(/[^\w.-]/g, '_') || 'image';
+      const filename = `${id}-${name}`;
       const filePath = join(imageDir, filename);
       writeFileSync(filePath, img.buffer);
       paths.push(filePath);
@@ -158,13 +330,15 @@ export class MessageProcessor {
   /**
    * Get or resolve session ID for a project
    * Priority: 1. state.sessionId, 2. projectSessions map, 3. latest from Claude's sessions-index
+   * Threads only use their own session: a new thread starts a new session.
    */
   private async resolveSessionId(
     projectPath: string,
-    stateSessionId?: string
+    stateSessionId?: string,
+    autoResume = true
   ): Promise<string | undefined> {
     // 1. Use explicit session from state
-    if (stateSessionId) {
+    if (stateSessionId || !autoResume) {
       return stateSessionId;
     }
 
@@ -189,18 +363,117 @@ export class MessageProcessor {
     return undefined;
   }
 
-  getChannelIds(): string[] {
-    return [...this.userStates.keys()];
+  /**
+   * A new thread continues the session picked with /session outside a thread, if any.
+   * It's picked up once, by a new thread or by the thread of the /session message.
+   * (Worktree threads can't, sessions are bound to the directory they ran in.)
+   */
+  private takeNextSession(context: MessageContext, state: ChannelState): void {
+    const channelState = this.userStates.get(this.getChannelKey(context));
+    const nextSessionId = channelState?.nextSessionId;
+    if (!context.threadTs || !channelState || !nextSessionId || state.worktree) return;
+    if (state.sessionId && state.sessionId !== nextSessionId) return;
+
+    state.sessionId = nextSessionId;
+    channelState.nextSessionId = undefined;
+    this.saveState();
+  }
+
+  /**
+   * Key of the channel's state. Prefixed with the adapter, since channel IDs of
+   * different platforms can collide.
+   */
+  private getChannelKey(context: MessageContext): string {
+    return `${context.adapter ?? ''}:${context.channelId}`;
+  }
+
+  /**
+   * Key that state and executions are tracked under: the thread when the adapter
+   * provides one (every top-level message starts its own thread), else the channel
+   */
+  private getSessionKey(context: MessageContext): string {
+    const channelKey = this.getChannelKey(context);
+    return context.threadTs ? `${channelKey}:${context.threadTs}` : channelKey;
+  }
+
+  /**
+   * Get the state for the message's thread (or channel), creating it if needed.
+   * New threads start from the channel's project with a fresh session.
+   */
+  private getState(context: MessageContext): ChannelState {
+    if (!context.threadTs) {
+      let state = this.userStates.get(this.getChannelKey(context));
+      if (!state) {
+        state = {};
+        this.userStates.set(this.getChannelKey(context), state);
+      }
+      return state;
+    }
+
+    const key = this.getSessionKey(context);
+    let state = this.threadStates.get(key);
+    if (!state) {
+      state = { projectPath: this.userStates.get(this.getChannelKey(context))?.projectPath };
+      this.threadStates.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * Select a project for this thread and make it the channel's default for new threads
+   */
+  private setProject(context: MessageContext, projectPath: string): ChannelState {
+    const state = this.getState(context);
+    state.projectPath = projectPath;
+    state.sessionId = undefined; // Will be resolved from projectSessions or Claude's history
+
+    if (context.threadTs) {
+      const channelState = this.userStates.get(this.getChannelKey(context)) || {};
+      channelState.projectPath = projectPath;
+      this.userStates.set(this.getChannelKey(context), channelState);
+    }
+
+    this.saveState();
+    return state;
+  }
+
+  /**
+   * Known channels of an adapter
+   */
+  getChannelIds(adapterName: string): string[] {
+    const prefix = `${adapterName}:`;
+    const threadChannels = [...this.threadStates.keys()].map((key) =>
+      key.slice(0, key.lastIndexOf(':'))
+    );
+    return [...new Set([...this.userStates.keys(), ...threadChannels])]
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
   }
 
   async handleMessage(message: IMMessage, adapter: IMAdapter): Promise<void> {
-    const { text, context, images } = message;
+    const { text, context, images, files } = message;
     const command = text.trim().toLowerCase();
+    context.adapter = adapter.name;
 
     consola.info(
-      `[handleMessage] text="${text}" command="${command}" channel=${context.channelId} images=${images?.length || 0}`
+      `[handleMessage] text="${text}" command="${command}" channel=${context.channelId} images=${images?.length || 0} files=${files?.length || 0}`
     );
 
+    // Read-only commands only need the viewer role, everything else drives Claude
+    const readOnly = [
+      'help',
+      '/help',
+      'projects',
+      '/projects',
+      'status',
+      '/status',
+      'worktree list',
+      '/worktree list',
+    ].includes(command);
+    if (!(await this.checkAccess(adapter, context, readOnly ? 'view' : 'prompt'))) {
+      return;
+    }
+
     // Handle commands
     if (command === 'help' || command === '/help') {
       consola.info('[handleMessage] -> help');
@@ -252,9 +525,55 @@ export class MessageProcessor {
       return;
     }
 
+    // Git commands need the slash so prompts like "commit the fix" still reach Claude
+    const gitCommand = command.match(/^\/(commit|branch|revert|diff)(?:\s+|$)/);
+    if (gitCommand) {
+      const argument = text.trim().replace(/^\/\w+\s*/, '');
+      consola.info(`[handleMessage] -> git ${gitCommand[1]}`);
+      await this.handleGitCommand(adapter, context, gitCommand[1], argument);
+      return;
+    }
+
+    // Without the slash only exact forms, so prompts like "tools are slow" still reach Claude
+    if (/^\/tools( |$)/.test(command) || /^tools( (off|compact|full))?$/.test(command)) {
+      const level = command.replace(/^\/?tools/, '').trim();
+      consola.info(`[handleMessage] -> tools: ${level}`);
+      await this.setToolVerbosity(adapter, context, level);
+      return;
+    }
+
+    // Model names are free-form, so only with the slash
+    if (/^\/model( |$)/.test(command)) {
+      const model = command.replace(/^\/model/, '').trim();
+      consola.info(`[handleMessage] -> model: ${model}`);
+      await this.setChannelModel(adapter, context, model);
+      return;
+    }
+
+    if (/^\/effort( |$)/.test(command)) {
+      const effort = command.replace(/^\/effort/, '').trim();
+      consola.info(`[handleMessage] -> effort: ${effort}`);
+      await this.setChannelEffort(adapter, context, effort);
+      return;
+    }
+
+    if (/^\/thinking( |$)/.test(command) || /^thinking( (on|off))?$/.test(command)) {
+      const setting = command.replace(/^\/?thinking/, '').trim();
+      consola.info(`[handleMessage] -> thinking: ${setting}`);
+      await this.setShowThinking(adapter, context, setting);
+      return;
+    }
+
+    if (/^\/?worktree( |$)/.test(command)) {
+      const subcommand = command.replace(/^\/?worktree/, '').trim();
+      consola.info(`[handleMessage] -> worktree: ${subcommand}`);
+      await this.handleWorktreeCommand(adapter, context, subcommand);
+      return;
+    }
+
     // Default: treat as prompt for Claude
     consola.info('[handleMessage] -> handlePrompt');
-    await this.handlePrompt(adapter, context, text, images);
+    await this.handlePrompt(adapter, context, text, images, files);
   }
 
   /**
@@ -262,28 +581,41 @@ export class MessageProcessor {
    */
   async handleAudioMessage(message: IMAudioMessage, adapter: IMAdapter): Promise<void> {
     const { audioBuffer, mimeType, context } = message;
+    context.adapter = adapter.name;
 
     consola.info(`Received audio message: ${mimeType}, ${audioBuffer.length} bytes`);
 
+    if (!(await this.checkAccess(adapter, context, 'prompt'))) {
+      return;
+    }
+
     // Check if whisper is available
     const whisperAvailable = await this.whisperService.isAvailable();
     if (!whisperAvailable) {
       await adapter.sendMessage(
         context.channelId,
-        '语音转文字服务不可用。请检查 whisper-cli 是否已安装。'
+        '语音转文字服务不可用。请检查 whisper-cli 是否已安装。',
+        context.threadTs
       );
       return;
     }
 
-    // Send processing message (directly to channel, not thread)
-    const messageTs = await adapter.sendMessage(context.channelId, '🎤 正在转写语音...');
+    // Send processing message into the message's thread
+    const messageTs = await this.sendStatusMessage(
+      adapter,
+      context.channelId,
+      '🎤 正在转写语音...',
+      context.threadTs
+    );
 
     try {
       // Transcribe audio
       const text = await this.whisperService.transcribe(audioBuffer);
 
       if (!text || text.trim() === '') {
-        await adapter.updateMessage(context.channelId, messageTs, '❌ 无法识别语音内容');
+        await adapter.updateMessage(context.channelId, messageTs, '❌ 无法识别语音内容', {
+          runState: 'failed',
+        });
         return;
       }
 
@@ -293,7 +625,8 @@ export class MessageProcessor {
       await adapter.updateMessage(
         context.channelId,
         messageTs,
-        `🎤 _"${text}"_\n\n🔄 Processing...`
+        `🎤 _"${text}"_\n\n🔄 Processing...`,
+        { runState: 'running' }
       );
 
       // Process as normal text message
@@ -303,7 +636,8 @@ export class MessageProcessor {
       await adapter.updateMessage(
         context.channelId,
         messageTs,
-        `❌ 语音转写失败: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `❌ 语音转写失败: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { runState: 'failed' }
       );
     }
   }
@@ -317,12 +651,8 @@ export class MessageProcessor {
     prompt: string,
     messageTs: string
   ): Promise<void> {
-    // Ensure state exists for this channel
-    let state = this.userStates.get(context.channelId);
-    if (!state) {
-      state = {};
-      this.userStates.set(context.channelId, state);
-    }
+    // Ensure state exists for this thread
+    const state = this.getState(context);
 
     const projectDir = state.projectPath || this.configManager.get<string>('projectDir');
 
@@ -334,7 +664,8 @@ export class MessageProcessor {
         await adapter.updateMessage(
           context.channelId,
           messageTs,
-          '没有找到 Claude Code 项目。请先在项目目录中使用 Claude Code。'
+          '没有找到 Claude Code 项目。请先在项目目录中使用 Claude Code。',
+          { runState: 'done' }
         );
         return;
       }
@@ -344,136 +675,30 @@ export class MessageProcessor {
 
       // Show project selection
       if (adapter.sendProjectSelectionCard) {
-        await adapter.updateMessage(context.channelId, messageTs, `🎤 _"${prompt}"_`);
+        await adapter.updateMessage(context.channelId, messageTs, `🎤 _"${prompt}"_`, {
+          runState: 'done',
+        });
         await adapter.sendProjectSelectionCard(
           context.channelId,
           projects.map((p) => ({ name: p.name, path: p.path })),
-          prompt
+          prompt,
+          context.threadTs
         );
       }
       return;
     }
 
-    // Resolve session ID
-    const sessionId = await this.resolveSessionId(projectDir, state.sessionId);
-
-    // Set up execution tracking early so /stop can work during setup phase
-    const execution = { abort: () => {}, messageTs, aborted: false };
-    this.activeExecutions.set(context.channelId, execution);
-    consola.debug(
-      `Execution started (audio): channelId=${context.channelId}, messageTs=${messageTs}`
-    );
-
-    const allowedTools = this.configManager.get<string[]>('permissions.allowedTools') || [];
-    const permissionMode = this.configManager.get<string>('claude.permissionMode') || 'acceptEdits';
-
-    let currentOutput = `🎤 _"${prompt}"_\n\n`;
-    let isProcessing = true;
-    const processingIndicator = '\n\n_⏳ Claude is still working..._';
-    const processedMessageIds = new Set<string>();
-
-    interface FileChange {
-      file: string;
-      tool: string;
-      input: Record<string, unknown>;
-    }
-    const fileChanges: FileChange[] = [];
-
-    const updateWithIndicator = async (content: string) => {
-      // Skip updates if execution was aborted
-      if (execution.aborted) return;
-      const displayContent = isProcessing ? content + processingIndicator : content;
-      await this.updateMessageThrottled(adapter, context.channelId, messageTs, displayContent);
-    };
-
-    // Check if already aborted before starting Claude
-    if (execution.aborted) {
-      this.activeExecutions.delete(context.channelId);
-      return;
-    }
-
-    try {
-      const { promise, abort } = this.claudeService.execute(projectDir, prompt, {
-        sessionId,
-        allowedTools,
-        permissionMode: permissionMode as 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan',
-        outputFormat: 'stream-json',
-        onChunk: async (chunk) => {
-          const messageId = chunk.uuid || chunk.message?.id;
-          if (messageId && processedMessageIds.has(messageId)) return;
-          if (messageId) processedMessageIds.add(messageId);
-
-          if (chunk.type === 'assistant' && chunk.message?.content) {
-            for (const block of chunk.message.content) {
-              if (block.type === 'text' && block.text) {
-                currentOutput += block.text;
-              } else if (block.type === 'tool_use' && block.name && block.input) {
-                if (block.name === 'Edit' || block.name === 'Write') {
-                  const filePath = block.input.file_path as string;
-                  if (filePath) {
-                    fileChanges.push({ file: filePath, tool: block.name, input: block.input });
-                  }
-                }
-              }
-            }
-            await updateWithIndicator(currentOutput);
-          } else if (chunk.type === 'result') {
-            isProcessing = false;
-          }
-        },
-      });
-
-      // Update the abort function now that we have the real one
-      execution.abort = abort;
-
-      // If aborted while setting up, abort immediately
-      if (execution.aborted) {
-        abort();
-        this.activeExecutions.delete(context.channelId);
-        return;
-      }
-
-      const result = await promise;
-      this.activeExecutions.delete(context.channelId);
-      consola.debug(`Execution completed: channelId=${context.channelId}`);
-
-      // If aborted, don't process further (message already updated by handleStopExecution)
-      if (execution.aborted || !result) return;
-
-      isProcessing = false;
-
-      if (result.session_id) {
-        state.sessionId = result.session_id;
-        state.projectPath = projectDir;
-        this.userStates.set(context.channelId, state);
-        this.projectSessions.set(projectDir, result.session_id);
-        this.saveState();
-      }
-
-      const cost = result.total_cost_usd || result.cost_usd;
-      if (cost) {
-        currentOutput += `\n\n_Cost: $${cost.toFixed(4)}_`;
-      }
-
-      await adapter.updateMessage(
-        context.channelId,
-        messageTs,
-        this.truncateForSlack(currentOutput)
-      );
+    const worktree = await this.resolveWorktree(adapter, context, state, projectDir);
 
-      if (fileChanges.length > 0) {
-        await this.showFileChanges(adapter, context.channelId, messageTs, fileChanges);
-      }
-    } catch (error) {
-      this.activeExecutions.delete(context.channelId);
-      consola.debug(`Execution errored: channelId=${context.channelId}`);
-      consola.error('Error executing Claude:', error);
-      await adapter.updateMessage(
-        context.channelId,
-        messageTs,
-        `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
+    await this.runClaude(adapter, context, {
+      ...this.resolvePromptOptions(context, prompt),
+      projectDir,
+      sessionFromState: true,
+      permissionMode: this.getPermissionMode(),
+      worktree,
+      messageTs,
+      header: `🎤 _"${prompt}"_\n\n`,
+    });
   }
 
   async handleInteraction(
@@ -482,8 +707,22 @@ export class MessageProcessor {
     context: MessageContext,
     adapter: IMAdapter
   ): Promise<void> {
+    context.adapter = adapter.name;
     consola.debug(`Interaction: ${action} = ${value}`);
 
+    // Approving tools and elevated retries need the approver role
+    // (git_confirm includes /revert and worktree discard, which throw away work)
+    const approvalActions = [
+      'permission_approve',
+      'permission_deny',
+      'retry_with_permissions',
+      'git_confirm',
+    ];
+    const level: AccessLevel = approvalActions.includes(action) ? 'approve' : 'prompt';
+    if (!(await this.checkAccess(adapter, context, level))) {
+      return;
+    }
+
     if (action === 'select_project') {
       // Select project and execute pending prompt if exists
       await this.selectProjectAndExecute(adapter, context, value);
@@ -493,16 +732,18 @@ export class MessageProcessor {
     } else if (action === 'select_session') {
       await this.selectSession(adapter, context, value);
     } else if (action === 'new_session') {
-      const state = this.userStates.get(context.channelId);
-      if (state) {
-        state.sessionId = undefined;
-        // Clear project session so it won't auto-resume
-        if (state.projectPath) {
-          this.projectSessions.delete(state.projectPath);
-        }
-        this.saveState();
+      const state = this.getState(context);
+      state.sessionId = undefined;
+      // Clear project session so it won't auto-resume
+      if (state.projectPath) {
+        this.projectSessions.delete(state.projectPath);
       }
-      await adapter.sendMessage(context.channelId, '✅ Next message will start a new session.');
+      this.saveState();
+      await adapter.sendMessage(
+        context.channelId,
+        '✅ Next message will start a new session.',
+        context.threadTs
+      );
     } else if (action === 'permission_approve') {
       // Handle permission approval
       await this.handlePermissionResponse(adapter, context, value, true);
@@ -515,7 +756,19 @@ export class MessageProcessor {
     } else if (action === 'cancel_retry') {
       // Cancel retry - just remove from pending
       this.pendingRetries.delete(value);
-      await adapter.sendMessage(context.channelId, '❌ Retry cancelled.');
+      await adapter.sendMessage(context.channelId, '❌ Retry cancelled.', context.threadTs);
+    } else if (action === 'continue_session') {
+      await this.handleContinueSession(adapter, context, value);
+    } else if (action === 'git_confirm') {
+      await this.executeGitAction(adapter, value);
+    } else if (action === 'git_cancel') {
+      const pending = this.pendingGitActions.get(value);
+      this.pendingGitActions.delete(value);
+      await adapter.sendMessage(
+        pending?.channelId || context.channelId,
+        '❌ Cancelled.',
+        pending?.threadTs || context.threadTs
+      );
     } else if (action === 'stop_execution') {
       // Stop current Claude execution
       await this.handleStopExecution(adapter, context);
@@ -526,52 +779,105 @@ export class MessageProcessor {
   }
 
   /**
-   * Stop the current Claude execution for this channel
+   * Check the user's role, telling them what is missing when it isn't enough
+   */
+  private async checkAccess(
+    adapter: IMAdapter,
+    context: MessageContext,
+    level: AccessLevel
+  ): Promise<boolean> {
+    const access = new AccessControl(this.configManager.getAll().access);
+    if (access.can(context.userId, level)) {
+      return true;
+    }
+
+    const role = access.getRole(context.userId);
+    consola.warn(`Access denied: user=${context.userId} role=${role} needs=${level}`);
+    if (context.channelId) {
+      await adapter.sendMessage(
+        context.channelId,
+        `🚫 This needs the *${access.requiredRole(level)}* role. Ask an admin to add your user ID \`${context.userId}\` to \`access.users\`.`,
+        context.threadTs
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Stop the running and queued Claude executions for this thread.
+   * Sent outside a thread (top-level message or /stop slash command), it stops every
+   * execution in the channel.
    */
   private async handleStopExecution(adapter: IMAdapter, context: MessageContext): Promise<void> {
-    consola.debug(`handleStopExecution called: channelId=${context.channelId}`);
+    const sessionKey = this.getSessionKey(context);
+    consola.debug(`handleStopExecution called: sessionKey=${sessionKey}`);
     consola.debug(
-      `Active executions keys: [${Array.from(this.activeExecutions.keys()).join(', ')}]`
+      `Active executions: [${Array.from(this.activeExecutions.values())
+        .map((e) => e.sessionKey)
+        .join(', ')}]`
     );
 
-    const execution = this.activeExecutions.get(context.channelId);
+    const all = [...this.activeExecutions.values()];
+    const topLevel = !context.threadTs || context.threadTs === context.messageTs;
+    let executions = all.filter((e) => e.sessionKey === sessionKey);
+    if (executions.length === 0 && topLevel) {
+      const channelKey = this.getChannelKey(context);
+      executions = all.filter((e) => e.channelKey === channelKey);
+    }
 
-    if (!execution) {
+    if (executions.length === 0) {
       // Provide more helpful debug info
       const activeCount = this.activeExecutions.size;
       const debugMsg =
         activeCount > 0
-          ? `当前有 ${activeCount} 个任务在运行，但不在此频道。`
+          ? `当前有 ${activeCount} 个任务在运行，但不在此会话。`
           : '没有正在运行的任务。';
-      consola.warn(`No execution found for channel ${context.channelId}. ${debugMsg}`);
-      await adapter.sendMessage(context.channelId, `${debugMsg}`);
+      consola.warn(`No execution found for ${sessionKey}. ${debugMsg}`);
+      await adapter.sendMessage(context.channelId, `${debugMsg}`, context.threadTs);
       return;
     }
 
-    // Mark as aborted first to prevent further message updates
-    execution.aborted = true;
-    // Abort the execution
-    execution.abort();
+    for (const execution of executions) {
+      const wasQueued = execution.queued;
 
-    // Update the message to show it was stopped
-    try {
-      await adapter.updateMessage(context.channelId, execution.messageTs, '🛑 已停止');
-    } catch {
-      // If update fails, send a new message
-      await adapter.sendMessage(context.channelId, '🛑 已停止当前任务。');
-    }
+      // Mark as aborted first to prevent further message updates
+      execution.aborted = true;
+      // Deny any approval the run is still waiting on, then abort the execution
+      // (for queued runs, abort just leaves the queue)
+      this.settlePendingPermissions((pending) => pending.messageTs === execution.messageTs, false);
+      execution.abort();
+
+      // Update the message to show it was stopped (the newest one of long output)
+      const statusTs = execution.pageTs || execution.messageTs;
+      this.cancelThrottledUpdate(context.channelId, statusTs);
+      try {
+        await adapter.updateMessage(
+          context.channelId,
+          statusTs,
+          wasQueued ? '🛑 已取消排队' : '🛑 已停止',
+          { runState: 'stopped' }
+        );
+      } catch {
+        // If update fails, send a new message
+        await adapter.sendMessage(context.channelId, '🛑 已停止当前任务。', context.threadTs);
+      }
 
-    consola.info(`Execution stopped for channel ${context.channelId}`);
+      consola.info(`Execution ${wasQueued ? 'dequeued' : 'stopped'} for ${execution.sessionKey}`);
+    }
   }
 
   /**
    * Clear session - start fresh conversation (like /clear in Claude Code)
    */
   private async handleClearSession(adapter: IMAdapter, context: MessageContext): Promise<void> {
-    const state = this.userStates.get(context.channelId);
+    const state = this.getState(context);
 
-    if (!state?.projectPath) {
-      await adapter.sendMessage(context.channelId, '当前没有选择项目，无需清除。');
+    if (!state.projectPath) {
+      await adapter.sendMessage(
+        context.channelId,
+        '当前没有选择项目，无需清除。',
+        context.threadTs
+      );
       return;
     }
 
@@ -588,37 +894,569 @@ export class MessageProcessor {
 
     await adapter.sendMessage(
       context.channelId,
-      `🧹 已清除会话。下一条消息将在 \`${projectPath}\` 中开始新的对话。`
+      `🧹 已清除会话。下一条消息将在 \`${projectPath}\` 中开始新的对话。`,
+      context.threadTs
     );
 
-    consola.info(`Session cleared for channel ${context.channelId}, project ${projectPath}`);
+    consola.info(`Session cleared for ${this.getSessionKey(context)}, project ${projectPath}`);
   }
 
-  private async sendHelp(adapter: IMAdapter, context: MessageContext): Promise<void> {
-    const help = `*Heimerdinger - Claude Code Bridge*
+  /**
+   * `worktree list|merge|discard` - manage the conversation's worktree
+   */
+  private async handleWorktreeCommand(
+    adapter: IMAdapter,
+    context: MessageContext,
+    subcommand: string
+  ): Promise<void> {
+    const state = this.getState(context);
+    const worktree = state.worktree;
+    const reply = (message: string) =>
+      adapter.sendMessage(context.channelId, message, context.threadTs);
+
+    if (subcommand === 'list') {
+      const projectDir = state.projectPath || this.configManager.get<string>('projectDir');
+      if (!projectDir) {
+        await reply('Please select a project first with `/project <name>`');
+        return;
+      }
 
-Available commands:
-• \`project\` - Select a project (interactive)
-• \`project <name>\` - Select a project by name
-• \`projects\` - List available projects
-• \`session <id>\` - Resume a session
-• \`stop\` - Stop current execution
-• \`clear\` - Clear session
-• \`status\` - Show current status
-• \`help\` - Show this help
+      const worktrees = await this.claudeService.listWorktrees(projectDir);
+      if (worktrees.length === 0) {
+        await reply(`No conversation worktrees in \`${projectDir}\`.`);
+        return;
+      }
 
-Or just send a message to start coding with Claude!`;
+      const lines = worktrees.map((w) => {
+        const marker = w.path === worktree?.path ? ' ← this conversation' : '';
+        return `• \`${w.branch}\` - ${w.path}${marker}`;
+      });
+      await reply(`*Worktrees of \`${projectDir}\`:*\n${lines.join('\n')}`);
+      return;
+    }
 
-    await adapter.sendMessage(context.channelId, help);
-  }
+    if (subcommand !== 'merge' && subcommand !== 'discard') {
+      await reply(
+        'Usage: `worktree list` | `worktree merge` | `worktree discard` (merge and discard apply to this conversation)'
+      );
+      return;
+    }
 
-  private async sendProjectList(adapter: IMAdapter, context: MessageContext): Promise<void> {
-    const projects = await this.claudeService.getProjects();
+    if (!worktree) {
+      await reply('This conversation has no worktree.');
+      return;
+    }
 
-    if (projects.length === 0) {
-      await adapter.sendMessage(
-        context.channelId,
-        'No Claude Code projects found. Start using Claude Code in a project directory first.'
+    if (!adapter.sendInteractiveMessage) {
+      await reply(
+        '⚠️ Worktree commands need confirmation cards, which this platform does not support.'
+      );
+      return;
+    }
+
+    // Like /revert, an approver confirms before anything is merged or deleted
+    if (subcommand === 'merge') {
+      await this.sendGitConfirmation(
+        adapter,
+        context,
+        {
+          kind: 'worktree_merge',
+          workDir: worktree.path,
+          channelId: context.channelId,
+          worktree,
+        },
+        'worktree merge',
+        `🔀 *Merge \`${worktree.branch}\` into \`${worktree.projectPath}\`?*\nUncommitted changes in the worktree are committed first, then the worktree is removed.`
+      );
+    } else {
+      await this.sendGitConfirmation(
+        adapter,
+        context,
+        {
+          kind: 'worktree_discard',
+          workDir: worktree.path,
+          channelId: context.channelId,
+          worktree,
+        },
+        'worktree discard',
+        `⚠️ *Delete branch \`${worktree.branch}\` and its worktree \`${worktree.path}\`?*\nAll of its changes are lost. This cannot be undone.`
+      );
+    }
+  }
+
+  /**
+   * `/diff`, `/commit [message]`, `/branch <name>`, `/revert` on the conversation's
+   * working tree. Everything but /diff asks for confirmation first.
+   */
+  private async handleGitCommand(
+    adapter: IMAdapter,
+    context: MessageContext,
+    name: string,
+    argument: string
+  ): Promise<void> {
+    const state = this.getState(context);
+    const workDir =
+      state.worktree?.path || state.projectPath || this.configManager.get<string>('projectDir');
+    const reply = (message: string) =>
+      adapter.sendMessage(context.channelId, message, context.threadTs);
+
+    if (!workDir) {
+      await reply('Please select a project first with `/project <name>`');
+      return;
+    }
+
+    const status = await this.claudeService.getStatus(workDir);
+
+    if (name === 'diff') {
+      const diff = await this.claudeService.getGitDiff(workDir);
+      const untracked = status.filter((line) => line.startsWith('??')).map((l) => l.slice(3));
+      if (!diff && untracked.length === 0) {
+        await reply(`No uncommitted changes in \`${workDir}\`.`);
+        return;
+      }
+
+      if (untracked.length > 0) {
+        await reply(`*Untracked files:*\n${untracked.map((f) => `• \`${f}\``).join('\n')}`);
+      }
+      if (diff) {
+        await this.postDiff(adapter, context.channelId, context.threadTs, diff, 'changes');
+      }
+      return;
+    }
+
+    if (!adapter.sendInteractiveMessage) {
+      await reply('⚠️ Git commands need confirmation cards, which this platform does not support.');
+      return;
+    }
+
+    const branch = await this.claudeService.getCurrentBranch(workDir);
+    const fileList = status
+      .slice(0, 10)
+      .map((line) => `• \`${line.slice(3)}\``)
+      .join('\n');
+    const moreFiles = status.length > 10 ? `\n• _...and ${status.length - 10} more_` : '';
+
+    let action: PendingGitAction;
+    let text: string;
+
+    if (name === 'commit') {
+      if (status.length === 0) {
+        await reply(`Nothing to commit in \`${workDir}\`.`);
+        return;
+      }
+
+      let message = argument;
+      if (!message) {
+        await reply('✍️ Writing a commit message...');
+        // Like any other run: one at a time per directory, and never past blocked patterns
+        const ticket = this.executionQueue.enqueue(workDir);
+        try {
+          await ticket.ready;
+          const diff = (await this.claudeService.getGitDiff(workDir)) || '';
+          message = await this.claudeService.generateCommitMessage(
+            workDir,
+            `${status.join('\n')}\n\n${diff}`,
+            {
+              disallowedTools: this.getPermissionPolicy().blockedPatterns,
+              timeout: this.configManager.get<number>('claude.timeout') || 0,
+            }
+          );
+        } catch (error) {
+          consola.error('Failed to generate commit message:', error);
+          await reply('❌ Could not generate a commit message, use `/commit <message>` instead.');
+          return;
+        } finally {
+          ticket.release();
+        }
+      }
+
+      action = { kind: 'commit', workDir, channelId: context.channelId, argument: message };
+      text = `📝 *Commit ${status.length} file(s) on \`${branch}\`?*\n\`\`\`${message}\`\`\`\n${fileList}${moreFiles}`;
+    } else if (name === 'branch') {
+      if (!argument) {
+        await reply('Usage: `/branch <name>`');
+        return;
+      }
+
+      action = { kind: 'branch', workDir, channelId: context.channelId, argument };
+      text = `🌿 *Create branch \`${argument}\` from \`${branch}\` and switch to it?*\nUncommitted changes move to the new branch.`;
+    } else {
+      if (status.length === 0) {
+        await reply(`No uncommitted changes in \`${workDir}\`.`);
+        return;
+      }
+
+      action = { kind: 'revert', workDir, channelId: context.channelId };
+      text = `⚠️ *Discard all uncommitted changes in \`${workDir}\`?*\nThis cannot be undone.\n${fileList}${moreFiles}`;
+    }
+
+    await this.sendGitConfirmation(adapter, context, action, `git ${name}`, text);
+  }
+
+  /**
+   * Ask for a git action to be confirmed; the git_confirm button needs the approver role
+   */
+  private async sendGitConfirmation(
+    adapter: IMAdapter,
+    context: MessageContext,
+    action: PendingGitAction,
+    title: string,
+    text: string
+  ): Promise<void> {
+    if (!adapter.sendInteractiveMessage) return;
+
+    action.threadTs = context.threadTs;
+    const actionId = `git_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    this.pendingGitActions.set(actionId, action);
+
+    const blocks = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text,
+        },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '✅ Confirm',
+            },
+            style:
+              action.kind === 'revert' || action.kind === 'worktree_discard' ? 'danger' : 'primary',
+            action_id: 'git_confirm',
+            value: actionId,
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '❌ Cancel',
+            },
+            action_id: 'git_cancel',
+            value: actionId,
+          },
+        ],
+      },
+    ];
+
+    await adapter.sendInteractiveMessage(context.channelId, title, blocks, context.threadTs);
+  }
+
+  /**
+   * Run a confirmed git command
+   */
+  private async executeGitAction(adapter: IMAdapter, actionId: string): Promise<void> {
+    const action = this.pendingGitActions.get(actionId);
+    if (!action) {
+      return;
+    }
+    this.pendingGitActions.delete(actionId);
+
+    const reply = (message: string) =>
+      adapter.sendMessage(action.channelId, message, action.threadTs);
+
+    // Don't pull the tree out from under a running or queued Claude. A merge also
+    // writes into the project's own checkout.
+    const dirs = [action.workDir];
+    if (action.kind === 'worktree_merge' && action.worktree) {
+      dirs.push(action.worktree.projectPath);
+    }
+    const busyDir = dirs.find(
+      (dir) =>
+        this.executionQueue.isBusy(dir) ||
+        [...this.activeExecutions.values()].some((e) => e.workDir === dir)
+    );
+    if (busyDir) {
+      await reply(`Claude is still working in \`${busyDir}\`, try again when it's done.`);
+      return;
+    }
+
+    try {
+      if (action.kind === 'commit') {
+        const hash = await this.claudeService.commitAll(action.workDir, action.argument || '');
+        const summary = (action.argument || '').split('\n')[0];
+        await reply(`✅ Committed \`${hash}\`: ${summary}`);
+      } else if (action.kind === 'branch') {
+        await this.claudeService.createBranch(action.workDir, action.argument || '');
+        await reply(`✅ Switched to new branch \`${action.argument}\``);
+      } else if (action.worktree) {
+        await this.finishWorktree(action.worktree, action.kind === 'worktree_merge', reply);
+      } else {
+        await this.claudeService.discardChanges(action.workDir);
+        await reply(`↩️ Discarded uncommitted changes in \`${action.workDir}\``);
+      }
+    } catch (error) {
+      consola.error(`git ${action.kind} failed:`, error);
+      await reply(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Merge or discard a conversation's worktree, then let the conversations that ran in
+   * it start over (their sessions lived in the worktree)
+   */
+  private async finishWorktree(
+    worktree: WorktreeInfo,
+    merge: boolean,
+    reply: (message: string) => Promise<unknown>
+  ): Promise<void> {
+    if (merge) {
+      const result = await this.claudeService.mergeWorktree(
+        worktree,
+        `Changes from ${worktree.branch}`
+      );
+      if (!result.merged) {
+        await reply(
+          `❌ Could not merge \`${worktree.branch}\` into \`${worktree.projectPath}\`, the worktree was kept:\n\`\`\`\n${result.output.slice(0, 2000)}\n\`\`\``
+        );
+        return;
+      }
+      await reply(
+        `✅ Merged \`${worktree.branch}\` into \`${worktree.projectPath}\` (${result.files.length} file(s) changed) and removed the worktree.`
+      );
+    } else {
+      await this.claudeService.removeWorktree(worktree);
+      await reply(`🗑️ Discarded \`${worktree.branch}\` and its worktree.`);
+    }
+
+    for (const state of [...this.userStates.values(), ...this.threadStates.values()]) {
+      if (state.worktree?.path === worktree.path) {
+        state.worktree = undefined;
+        state.sessionId = undefined;
+      }
+    }
+    this.saveState();
+  }
+
+  private async sendHelp(adapter: IMAdapter, context: MessageContext): Promise<void> {
+    const help = `*Heimerdinger - Claude Code Bridge*
+
+Available commands:
+• \`project\` - Select a project (interactive)
+• \`project <name>\` - Select a project by name
+• \`projects\` - List available projects
+• \`session <id>\` - Resume a session
+• \`stop\` - Stop current execution
+• \`clear\` - Clear session
+• \`tools off|compact|full\` - How much tool activity to show while Claude works
+• \`thinking on|off\` - Show Claude's thinking after each run
+• \`/model <name>|default\` - Set the model for this channel (\`!opus <prompt>\` for one prompt)
+• \`/effort low|medium|high|default\` - Set how much Claude thinks in this channel (\`!high <prompt>\` for one prompt)
+• \`worktree list|merge|discard\` - Manage this conversation's git worktree
+• \`/diff\` - Show uncommitted changes
+• \`/commit [message]\` - Commit all changes (Claude writes the message if omitted)
+• \`/branch <name>\` - Create and switch to a branch
+• \`/revert\` - Discard uncommitted changes
+• \`status\` - Show current status
+• \`help\` - Show this help
+
+Or just send a message to start coding with Claude!
+Each thread is its own session: reply in a thread to continue it, post a new message to start fresh.`;
+
+    await adapter.sendMessage(context.channelId, help, context.threadTs);
+  }
+
+  /**
+   * Set the channel's tool activity verbosity, or show it when no level is given
+   */
+  private async setToolVerbosity(
+    adapter: IMAdapter,
+    context: MessageContext,
+    level: string
+  ): Promise<void> {
+    const channelState = this.userStates.get(this.getChannelKey(context)) || {};
+    const reply = (text: string) => adapter.sendMessage(context.channelId, text, context.threadTs);
+
+    if (!level) {
+      await reply(
+        `Tool activity: \`${channelState.toolVerbosity || 'compact'}\` (\`tools off|compact|full\` to change)`
+      );
+      return;
+    }
+    if (!TOOL_VERBOSITY_LEVELS.includes(level as ToolVerbosity)) {
+      await reply('Usage: `tools off|compact|full`');
+      return;
+    }
+
+    channelState.toolVerbosity = level as ToolVerbosity;
+    this.userStates.set(this.getChannelKey(context), channelState);
+    this.saveState();
+    await reply(`✅ Tool activity in this channel: \`${level}\``);
+  }
+
+  /**
+   * Set the channel's model, or show it when no name is given
+   */
+  private async setChannelModel(
+    adapter: IMAdapter,
+    context: MessageContext,
+    model: string
+  ): Promise<void> {
+    const channelState = this.userStates.get(this.getChannelKey(context)) || {};
+    const reply = (text: string) => adapter.sendMessage(context.channelId, text, context.threadTs);
+
+    if (!model) {
+      await reply(
+        `Model: ${this.describeModel(this.getChannelModel(context))} (\`/model <name>|default\` to change)`
+      );
+      return;
+    }
+    if (model !== 'default' && !this.isModelName(model)) {
+      await reply(
+        `Unknown model \`${model}\`. Use an alias (${CLAUDE_MODEL_ALIASES.map((m) => `\`${m}\``).join(', ')}) or a full name like \`claude-opus-4-1\`.`
+      );
+      return;
+    }
+
+    channelState.model = model === 'default' ? undefined : model;
+    this.userStates.set(this.getChannelKey(context), channelState);
+    this.saveState();
+    await reply(`✅ Model in this channel: ${this.describeModel(this.getChannelModel(context))}`);
+  }
+
+  /**
+   * The channel's model, or claude.defaultModel
+   */
+  private getChannelModel(context: MessageContext): string | undefined {
+    return (
+      this.userStates.get(this.getChannelKey(context))?.model ||
+      this.configManager.get<string>('claude.defaultModel') ||
+      undefined
+    );
+  }
+
+  private describeModel(model: string | undefined): string {
+    return model ? `\`${model}\`` : "Claude's default";
+  }
+
+  private isModelName(name: string): boolean {
+    const base = name.replace(/\[1m\]$/, '');
+    return CLAUDE_MODEL_ALIASES.includes(base) || /^claude-[\w.-]+$/.test(base);
+  }
+
+  /**
+   * Set the channel's thinking effort, or show it when no level is given
+   */
+  private async setChannelEffort(
+    adapter: IMAdapter,
+    context: MessageContext,
+    effort: string
+  ): Promise<void> {
+    const channelState = this.userStates.get(this.getChannelKey(context)) || {};
+    const reply = (text: string) => adapter.sendMessage(context.channelId, text, context.threadTs);
+    const levels = Object.keys(CLAUDE_EFFORT_LEVELS);
+
+    if (!effort) {
+      await reply(
+        `Effort: ${this.describeEffort(this.getChannelEffort(context))} (\`/effort ${levels.join('|')}|default\` to change)`
+      );
+      return;
+    }
+    if (effort !== 'default' && !levels.includes(effort)) {
+      await reply(`Unknown effort \`${effort}\`. Use ${levels.map((l) => `\`${l}\``).join(', ')}.`);
+      return;
+    }
+
+    channelState.effort = effort === 'default' ? undefined : effort;
+    this.userStates.set(this.getChannelKey(context), channelState);
+    this.saveState();
+    await reply(
+      `✅ Effort in this channel: ${this.describeEffort(this.getChannelEffort(context))}`
+    );
+  }
+
+  /**
+   * The channel's thinking effort, or claude.defaultEffort
+   */
+  private getChannelEffort(context: MessageContext): string | undefined {
+    return (
+      this.userStates.get(this.getChannelKey(context))?.effort ||
+      this.configManager.get<string>('claude.defaultEffort') ||
+      undefined
+    );
+  }
+
+  private describeEffort(effort: string | undefined): string {
+    return effort ? `\`${effort}\`` : "Claude's default";
+  }
+
+  /**
+   * Split one-off model and effort prefixes off a prompt: "!opus !high fix the flaky test".
+   * Prefixes that aren't a known model or effort level are left in the prompt.
+   */
+  private resolvePromptOptions(
+    context: MessageContext,
+    prompt: string
+  ): { prompt: string; model: string | undefined; effort: string | undefined } {
+    let model = this.getChannelModel(context);
+    let effort = this.getChannelEffort(context);
+    let rest = prompt;
+    let prefix = rest.match(PROMPT_PREFIX_PATTERN);
+    while (prefix) {
+      const name = prefix[1].toLowerCase();
+      if (Object.hasOwn(CLAUDE_EFFORT_LEVELS, name)) effort = name;
+      else if (this.isModelName(name)) model = name;
+      else break;
+      rest = rest.slice(prefix[0].length);
+      prefix = rest.match(PROMPT_PREFIX_PATTERN);
+    }
+    return { prompt: rest, model, effort };
+  }
+
+  /**
+   * Model and effort of a run for status messages, e.g. "`opus` · effort `high`"
+   */
+  private describeRunOptions(model: string | undefined, effort: string | undefined): string {
+    return [...(model ? [`\`${model}\``] : []), ...(effort ? [`effort \`${effort}\``] : [])].join(
+      ' · '
+    );
+  }
+
+  /**
+   * Turn posting Claude's thinking on or off for the channel, or show the setting
+   */
+  private async setShowThinking(
+    adapter: IMAdapter,
+    context: MessageContext,
+    setting: string
+  ): Promise<void> {
+    const channelState = this.userStates.get(this.getChannelKey(context)) || {};
+    const reply = (text: string) => adapter.sendMessage(context.channelId, text, context.threadTs);
+
+    if (!setting) {
+      const current = this.isThinkingShown(context) ? 'on' : 'off';
+      await reply(`Thinking: \`${current}\` (\`thinking on|off\` to change)`);
+      return;
+    }
+    if (setting !== 'on' && setting !== 'off') {
+      await reply('Usage: `thinking on|off`');
+      return;
+    }
+
+    channelState.showThinking = setting === 'on';
+    this.userStates.set(this.getChannelKey(context), channelState);
+    this.saveState();
+    await reply(`✅ Thinking in this channel: \`${setting}\``);
+  }
+
+  private isThinkingShown(context: MessageContext): boolean {
+    const showThinking = this.userStates.get(this.getChannelKey(context))?.showThinking;
+    return showThinking ?? this.configManager.get<boolean>('claude.includeThinking') !== false;
+  }
+
+  private async sendProjectList(adapter: IMAdapter, context: MessageContext): Promise<void> {
+    const projects = await this.claudeService.getProjects();
+
+    if (projects.length === 0) {
+      await adapter.sendMessage(
+        context.channelId,
+        'No Claude Code projects found. Start using Claude Code in a project directory first.',
+        context.threadTs
       );
       return;
     }
@@ -627,11 +1465,14 @@ Or just send a message to start coding with Claude!`;
 
     const message = `*Available Projects:*\n\n${projectList}\n\nUse \`/project <name>\` to select one.`;
 
-    await adapter.sendMessage(context.channelId, message);
+    await adapter.sendMessage(context.channelId, message, context.threadTs);
   }
 
   private async sendStatus(adapter: IMAdapter, context: MessageContext): Promise<void> {
-    const state = this.userStates.get(context.channelId);
+    // A thread that hasn't run anything yet shows the channel's defaults
+    const state =
+      this.threadStates.get(this.getSessionKey(context)) ||
+      this.userStates.get(this.getChannelKey(context));
     const projectDir = this.configManager.get<string>('projectDir');
 
     let status = '*Current Status:*\n\n';
@@ -650,7 +1491,15 @@ Or just send a message to start coding with Claude!`;
       status += 'Session: (new session)\n';
     }
 
-    await adapter.sendMessage(context.channelId, status);
+    status += `Model: ${this.describeModel(this.getChannelModel(context))}\n`;
+    status += `Effort: ${this.describeEffort(this.getChannelEffort(context))}\n`;
+
+    const { runningCount, waitingCount } = this.executionQueue;
+    if (runningCount > 0 || waitingCount > 0) {
+      status += `Queue: ${runningCount} running, ${waitingCount} waiting\n`;
+    }
+
+    await adapter.sendMessage(context.channelId, status, context.threadTs);
   }
 
   private async selectProject(
@@ -666,17 +1515,14 @@ Or just send a message to start coding with Claude!`;
     if (!project) {
       await adapter.sendMessage(
         context.channelId,
-        `Project "${projectName}" not found. Use \`/projects\` to see available projects.`
+        `Project "${projectName}" not found. Use \`/projects\` to see available projects.`,
+        context.threadTs
       );
       return;
     }
 
     // Update state - keep sessionId undefined, resolveSessionId will find the right one
-    const state = this.userStates.get(context.channelId) || {};
-    state.projectPath = project.path;
-    state.sessionId = undefined; // Will be resolved from projectSessions or Claude's history
-    this.userStates.set(context.channelId, state);
-    this.saveState();
+    this.setProject(context, project.path);
 
     // Get sessions for this project
     const sessions = await this.claudeService.getSessions(project.path);
@@ -708,7 +1554,7 @@ Or just send a message to start coding with Claude!`;
       message += '\nNo previous sessions. Send a message to start coding!';
     }
 
-    await adapter.sendMessage(context.channelId, message);
+    await adapter.sendMessage(context.channelId, message, context.threadTs);
   }
 
   /**
@@ -728,15 +1574,7 @@ Or just send a message to start coding with Claude!`;
     );
 
     // Update state with selected project
-    let state = this.userStates.get(context.channelId);
-    if (!state) {
-      state = {};
-      this.userStates.set(context.channelId, state);
-    }
-
-    state.projectPath = projectPath;
-    state.sessionId = undefined; // Will be resolved from projectSessions or Claude's history
-    this.saveState();
+    const state = this.setProject(context, projectPath);
 
     // Persist project selection to config
     this.configManager.set('projectDir', projectPath);
@@ -744,7 +1582,11 @@ Or just send a message to start coding with Claude!`;
     // Display the path directly (it's more useful than just the name)
     const displayPath = projectPath || '(unknown)';
 
-    await adapter.sendMessage(context.channelId, `✅ Selected project: \`${displayPath}\``);
+    await adapter.sendMessage(
+      context.channelId,
+      `✅ Selected project: \`${displayPath}\``,
+      context.threadTs
+    );
 
     // Execute pending prompt if exists
     const pendingPrompt = state.pendingPrompt;
@@ -763,21 +1605,23 @@ Or just send a message to start coding with Claude!`;
     if (projects.length === 0) {
       await adapter.sendMessage(
         context.channelId,
-        'No Claude Code projects found. Please use Claude Code in a project directory first.'
+        'No Claude Code projects found. Please use Claude Code in a project directory first.',
+        context.threadTs
       );
       return;
     }
 
     // Get current project for display
-    const state = this.userStates.get(context.channelId);
-    const currentProject = state?.projectPath || this.configManager.get<string>('projectDir');
+    const state = this.getState(context);
+    const currentProject = state.projectPath || this.configManager.get<string>('projectDir');
 
     // Use interactive card if available
     if (adapter.sendProjectSelectionCard) {
       await adapter.sendProjectSelectionCard(
         context.channelId,
         projects.map((p) => ({ name: p.name, path: p.path })),
-        currentProject ? `Current: ${currentProject}` : 'Select a project'
+        currentProject ? `Current: ${currentProject}` : 'Select a project',
+        context.threadTs
       );
     } else {
       // Fallback to text message
@@ -787,22 +1631,30 @@ Or just send a message to start coding with Claude!`;
         .join('\n');
       await adapter.sendMessage(
         context.channelId,
-        `*Available Projects:*\n${projectList}\n\nUse \`/project <path>\` to select one.`
+        `*Available Projects:*\n${projectList}\n\nUse \`/project <path>\` to select one.`,
+        context.threadTs
       );
     }
   }
 
+  /**
+   * Switch sessions. Inside a thread this applies to the thread; a top-level message
+   * starts a thread of its own, so there the session is kept for the next new thread.
+   */
   private async selectSession(
     adapter: IMAdapter,
     context: MessageContext,
     sessionId: string
   ): Promise<void> {
-    const state = this.userStates.get(context.channelId);
+    const state = this.getState(context);
+    const topLevel = !!context.threadTs && context.threadTs === context.messageTs;
+    const channelState = this.userStates.get(this.getChannelKey(context)) || {};
 
-    if (!state?.projectPath) {
+    if (!state.projectPath) {
       await adapter.sendMessage(
         context.channelId,
-        'Please select a project first with `/project <name>`'
+        'Please select a project first with `/project <name>`',
+        context.threadTs
       );
       return;
     }
@@ -810,11 +1662,17 @@ Or just send a message to start coding with Claude!`;
     // Handle "new" to start a fresh session
     if (sessionId.toLowerCase() === 'new') {
       state.sessionId = undefined;
+      channelState.nextSessionId = undefined;
       // Remove from project sessions so it won't auto-resume
       this.projectSessions.delete(state.projectPath);
-      this.userStates.set(context.channelId, state);
       this.saveState();
-      await adapter.sendMessage(context.channelId, '✅ Next message will start a new session.');
+      await adapter.sendMessage(
+        context.channelId,
+        context.threadTs && !topLevel
+          ? '✅ The next message in this thread will start a new session.'
+          : '✅ Next message will start a new session.',
+        context.threadTs
+      );
       return;
     }
 
@@ -824,20 +1682,32 @@ Or just send a message to start coding with Claude!`;
     if (!session) {
       await adapter.sendMessage(
         context.channelId,
-        `Session "${sessionId}" not found in current project.`
+        `Session "${sessionId}" not found in current project.`,
+        context.threadTs
       );
       return;
     }
 
     state.sessionId = session.sessionId;
-    this.userStates.set(context.channelId, state);
+    if (topLevel) {
+      channelState.nextSessionId = session.sessionId;
+      this.userStates.set(this.getChannelKey(context), channelState);
+    }
     // Also save to project mapping
     this.projectSessions.set(state.projectPath, session.sessionId);
     this.saveState();
 
+    const summary = session.summary || session.firstPrompt.slice(0, 50);
+    let scope = '';
+    if (topLevel) {
+      scope = '\nYour next message in this channel (or a reply in this thread) continues it.';
+    } else if (context.threadTs) {
+      scope = '\nReplies in this thread continue it.';
+    }
     await adapter.sendMessage(
       context.channelId,
-      `✅ Switched to session: ${session.summary || session.firstPrompt.slice(0, 50)}...`
+      `✅ Switched to session: ${summary}...${scope}`,
+      context.threadTs
     );
   }
 
@@ -845,26 +1715,41 @@ Or just send a message to start coding with Claude!`;
     adapter: IMAdapter,
     context: MessageContext,
     prompt: string,
-    images?: IMImageAttachment[]
+    images?: IMImageAttachment[],
+    files?: IMFileAttachment[]
   ): Promise<void> {
-    consola.debug('handlePrompt called with prompt:', prompt, 'images:', images?.length || 0);
+    consola.debug(
+      'handlePrompt called with prompt:',
+      prompt,
+      'images:',
+      images?.length || 0,
+      'files:',
+      files?.length || 0
+    );
 
-    // Ensure state exists for this channel
-    let state = this.userStates.get(context.channelId);
-    const stateExisted = !!state;
-    if (!state) {
-      state = {};
-      this.userStates.set(context.channelId, state);
+    // Files over attachments.maxFileSize are dropped, let the user know which
+    const store = this.getAttachmentStore();
+    const tooLarge = files?.filter((file) => store.isTooLarge(file)) || [];
+    const attachedFiles = files?.filter((file) => !store.isTooLarge(file));
+    if (tooLarge.length > 0) {
+      const maxSize = Math.round(store.maxFileSizeBytes / 1024 / 1024);
+      await adapter.sendMessage(
+        context.channelId,
+        `⚠️ Skipped files over ${maxSize} MB: ${tooLarge.map((file) => `\`${file.filename}\``).join(', ')}`,
+        context.threadTs
+      );
+      if (!prompt.trim() && !images?.length && !attachedFiles?.length) return;
     }
 
+    // Ensure state exists for this thread
+    const state = this.getState(context);
+
     const configProjectDir = this.configManager.get<string>('projectDir');
     const projectDir = state.projectPath || configProjectDir;
     consola.debug(
       'handlePrompt debug:',
-      'channelId=',
-      context.channelId,
-      'stateExisted=',
-      stateExisted,
+      'sessionKey=',
+      this.getSessionKey(context),
       'state.projectPath=',
       state.projectPath,
       'configProjectDir=',
@@ -882,16 +1767,13 @@ Or just send a message to start coding with Claude!`;
       if (projects.length === 0) {
         await adapter.sendMessage(
           context.channelId,
-          'No Claude Code projects found. Please use Claude Code in a project directory first.'
+          'No Claude Code projects found. Please use Claude Code in a project directory first.',
+          context.threadTs
         );
         return;
       }
 
       // Store pending prompt
-      if (!state) {
-        state = {};
-        this.userStates.set(context.channelId, state);
-      }
       state.pendingPrompt = prompt;
 
       // Use interactive card if available
@@ -899,7 +1781,8 @@ Or just send a message to start coding with Claude!`;
         await adapter.sendProjectSelectionCard(
           context.channelId,
           projects.map((p) => ({ name: p.name, path: p.path })),
-          prompt
+          prompt,
+          context.threadTs
         );
       } else {
         // Fallback to text message
@@ -909,69 +1792,337 @@ Or just send a message to start coding with Claude!`;
           .join('\n');
         await adapter.sendMessage(
           context.channelId,
-          `Please select a project first:\n${projectList}\n\nUse \`/project <name>\` to select one.`
+          `Please select a project first:\n${projectList}\n\nUse \`/project <name>\` to select one.`,
+          context.threadTs
         );
       }
       return;
     }
 
-    // Resolve session ID (from state, persisted mapping, or Claude's history)
-    const sessionId = await this.resolveSessionId(projectDir, state.sessionId);
+    const worktree = await this.resolveWorktree(adapter, context, state, projectDir);
 
-    // Send initial response
-    const messageTs = await adapter.sendMessage(context.channelId, '🔄 Processing...');
+    await this.runClaude(adapter, context, {
+      ...this.resolvePromptOptions(context, prompt),
+      projectDir,
+      sessionFromState: true,
+      permissionMode: this.getPermissionMode(),
+      worktree,
+      images,
+      files: attachedFiles,
+    });
+  }
 
-    // Set up execution tracking early so /stop can work during setup phase
-    const execution = { abort: () => {}, messageTs, aborted: false };
-    this.activeExecutions.set(context.channelId, execution);
-    consola.debug(`Execution started: channelId=${context.channelId}, messageTs=${messageTs}`);
+  /**
+   * In claude.worktrees mode, get the conversation's worktree, creating it on first prompt.
+   * Projects that aren't git repositories keep running in the project directory.
+   */
+  private async resolveWorktree(
+    adapter: IMAdapter,
+    context: MessageContext,
+    state: ChannelState,
+    projectDir: string
+  ): Promise<WorktreeInfo | undefined> {
+    if (!this.configManager.get<boolean>('claude.worktrees')) {
+      return undefined;
+    }
 
-    const allowedTools = this.configManager.get<string[]>('permissions.allowedTools') || [];
-    const permissionMode = this.configManager.get<string>('claude.permissionMode') || 'acceptEdits';
+    if (state.worktree?.projectPath === projectDir && existsSync(state.worktree.path)) {
+      return state.worktree;
+    }
+
+    try {
+      const worktree = await this.claudeService.createWorktree(projectDir);
+      state.worktree = worktree;
+      state.sessionId = undefined; // Sessions are bound to the directory they ran in
+      this.saveState();
+
+      await adapter.sendMessage(
+        context.channelId,
+        `🌿 This conversation works on branch \`${worktree.branch}\` in \`${worktree.path}\`. Use \`worktree merge\` or \`worktree discard\` when done.`,
+        context.threadTs
+      );
+      return worktree;
+    } catch (error) {
+      consola.warn('Failed to create worktree:', error);
+      await adapter.sendMessage(
+        context.channelId,
+        `⚠️ Could not create a worktree, running in \`${projectDir}\`: ${error instanceof Error ? error.message : String(error)}`,
+        context.threadTs
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Run a prompt through Claude, streaming the output into a status message.
+   * Shared by text prompts, transcribed voice messages and permission retries.
+   */
+  private async runClaude(
+    adapter: IMAdapter,
+    context: MessageContext,
+    run: ClaudeRun
+  ): Promise<void> {
+    const { prompt, projectDir, worktree, images, files } = run;
+    const elevated = run.permissionMode === 'bypassPermissions';
+    // Directory Claude actually works in
+    const workDir = worktree?.path || projectDir;
+    const runOptions = this.describeRunOptions(run.model, run.effort);
+    const initialText = `${run.initialText || '🔄 Processing...'}${runOptions ? ` · ${runOptions}` : ''}`;
+
+    // Send initial response, unless we were handed a message to stream into
+    const messageTs =
+      run.messageTs ||
+      (await this.sendStatusMessage(adapter, context.channelId, initialText, context.threadTs));
+    // Follow-up messages (approvals, diffs) go into the conversation thread
+    const replyTs = context.threadTs || messageTs;
+
+    // Set up execution tracking early so /stop can work while queued and during setup
+    const sessionKey = this.getSessionKey(context);
+    const execution: ActiveExecution = {
+      sessionKey,
+      channelKey: this.getChannelKey(context),
+      channelId: context.channelId,
+      messageTs,
+      workDir,
+      abort: () => {},
+      aborted: false,
+      queued: false,
+    };
+    this.activeExecutions.set(messageTs, execution);
+    consola.debug(`Execution started: sessionKey=${sessionKey}, messageTs=${messageTs}`);
+
+    // Wait for the project to be free and for a slot under claude.maxConcurrent
+    const showQueued = (position: number) =>
+      adapter
+        .updateMessage(
+          context.channelId,
+          messageTs,
+          `${run.header || ''}⏳ Queued (position ${position}), waiting for \`${workDir}\` or a free slot...`,
+          { runState: 'running' }
+        )
+        .catch(() => {});
+    const ticket = this.executionQueue.enqueue(workDir, (position) => {
+      if (!execution.aborted) showQueued(position);
+    });
+    if (ticket.position > 0) {
+      execution.queued = true;
+      execution.abort = ticket.cancel;
+      await showQueued(ticket.position);
+    }
+
+    const started = await ticket.ready;
+    if (!started || execution.aborted) {
+      ticket.release();
+      this.activeExecutions.delete(messageTs);
+      return;
+    }
+    if (execution.queued) {
+      execution.queued = false;
+      execution.abort = () => {};
+      await adapter
+        .updateMessage(context.channelId, messageTs, `${run.header || ''}${initialText}`, {
+          runState: 'running',
+        })
+        .catch(() => {});
+    }
 
-    let currentOutput = '';
+    const allowedTools = this.configManager.get<string[]>('permissions.allowedTools') || [];
+    const policy = this.getPermissionPolicy();
+    const blockedPatterns = policy.blockedPatterns;
+
+    // Blocked patterns are passed to Claude as deny rules and checked again, normalized,
+    // in the permission callback. bypassPermissions (elevated runs, or the configured
+    // claude.permissionMode) never calls it, so those runs use default mode instead and
+    // the callback approves everything that isn't blocked.
+    const useCallback = blockedPatterns.length > 0 || (!elevated && policy.hasConfirmTools());
+    const permissionMode: PermissionMode =
+      useCallback && run.permissionMode === 'bypassPermissions' ? 'default' : run.permissionMode;
+
+    let currentOutput = run.header || '';
     let isProcessing = true;
-    const processingIndicator = '\n\n_⏳ Claude is still working..._';
     const processedMessageIds = new Set<string>();
 
+    // Tools Claude uses, shown below the output
+    const timeline = new ToolTimeline(
+      this.userStates.get(this.getChannelKey(context))?.toolVerbosity || 'compact',
+      workDir
+    );
+    const withTimeline = (content: string) => {
+      const activity = timeline.render();
+      if (!activity) return content;
+      return content ? `${content}\n\n${activity}` : activity;
+    };
+    // Claude's thinking, posted after the output
+    const thinking: string[] = [];
+    // Full model name once Claude reports it
+    let activeModel = run.model;
+    // Shown below the output while Claude works, keeping the model in sight
+    const processingIndicator = (runOptions: string) =>
+      `\n\n_⏳ Claude is still working...${runOptions ? ` · ${runOptions}` : ''}_`;
+
     // Track file modifications made by Claude in this execution
-    interface FileChange {
-      file: string;
-      tool: string;
-      input: Record<string, unknown>;
-    }
+    // (only shown for projects outside git, which can't be snapshotted)
     const fileChanges: FileChange[] = [];
 
-    // Helper to update message with or without processing indicator
-    const updateWithIndicator = async (content: string) => {
-      // Skip updates if execution was aborted
-      if (execution.aborted) return;
-      const displayContent = isProcessing ? content + processingIndicator : content;
-      await this.updateMessageThrottled(adapter, context.channelId, messageTs, displayContent);
+    // Output longer than a message continues in new messages in the thread (pages).
+    // Earlier pages are final, updates only go to the newest one.
+    // (leaving room for the tool timeline and notes, at least half of small messages)
+    const maxBytes = adapter.maxMessageBytes || MessageProcessor.SLACK_MAX_BYTES;
+    const pageLimit = Math.max(
+      maxBytes - 2000,
+      Math.floor(maxBytes / 2),
+      MessageProcessor.MIN_PAGE_BYTES
+    );
+    let pageTs = messageTs;
+    let pageCount = 1;
+    // Where the newest page starts in currentOutput, and what it starts with
+    // (its part number, and a reopened code block when a page ended inside one)
+    let pageStart = 0;
+    let pagePrefix = '';
+    const currentPage = () => pagePrefix + currentOutput.slice(pageStart);
+
+    const rollOverPages = async () => {
+      while (MessageProcessor.getByteLength(currentPage()) > pageLimit) {
+        const page = currentPage();
+        let pageText = MessageProcessor.findPageBreak(page, pageLimit);
+        let nextStart = pageStart + pageText.length - pagePrefix.length;
+        while (currentOutput[nextStart] === '\n') nextStart++;
+        // Close a code block the break falls into, and reopen it on the next page
+        const inCodeBlock = (pageText.match(/```/g) || []).length % 2 === 1;
+        if (inCodeBlock) pageText += '\n```';
+
+        // Start the next page first, so nothing moves if that fails (retried on the next update)
+        let nextTs: string;
+        try {
+          nextTs = await this.sendStatusMessage(
+            adapter,
+            context.channelId,
+            `_Part ${pageCount + 1}_\n\n🔄 Processing...`,
+            replyTs
+          );
+        } catch (error) {
+          consola.warn('Failed to start next page:', error);
+          return;
+        }
+
+        const finishedTs = pageTs;
+        pageCount++;
+        pageStart = nextStart;
+        pagePrefix = `_Part ${pageCount}_\n\n${inCodeBlock ? '```\n' : ''}`;
+        pageTs = nextTs;
+        execution.pageTs = pageTs;
+
+        this.cancelThrottledUpdate(context.channelId, finishedTs);
+        try {
+          await adapter.updateMessage(
+            context.channelId,
+            finishedTs,
+            this.truncateForSlack(`${pageText}\n\n_⬇️ Continued in part ${pageCount}_`),
+            { runState: 'done' }
+          );
+        } catch (error) {
+          consola.warn('Failed to finish page:', error);
+        }
+      }
+    };
+
+    // Chunks arrive without waiting for each other, page updates run one at a time
+    // so a rollover can't interleave with an update to the page it replaces
+    let pageUpdates = Promise.resolve();
+    const queuePageUpdate = (update: () => Promise<void>) => {
+      pageUpdates = pageUpdates
+        .then(update)
+        .catch((error) => consola.warn('Failed to update status message:', error));
+      return pageUpdates;
     };
 
+    // Helper to update message with or without processing indicator
+    const updateWithIndicator = () =>
+      queuePageUpdate(async () => {
+        // Skip updates if execution was aborted
+        if (execution.aborted) return;
+        await rollOverPages();
+        const content = withTimeline(currentPage());
+        const runOptions = isProcessing
+          ? this.describeRunOptions(activeModel, run.effort)
+          : undefined;
+        const displayContent =
+          runOptions !== undefined && !adapter.showsRunState
+            ? content + processingIndicator(runOptions)
+            : content;
+        await this.updateMessageThrottled(adapter, context.channelId, pageTs, displayContent, {
+          runState: 'running',
+          runOptions,
+        });
+      });
+
+    // Tools listed in confirmTools pause the run until someone answers the card
+    const onPermissionRequest = useCallback
+      ? (request: PermissionRequest) =>
+          this.requestToolPermission(
+            adapter,
+            { channelId: context.channelId, threadTs: replyTs, messageTs },
+            policy,
+            request,
+            { elevated }
+          )
+      : undefined;
+
     // Check if already aborted before starting Claude
     if (execution.aborted) {
-      this.activeExecutions.delete(context.channelId);
+      ticket.release();
+      this.activeExecutions.delete(messageTs);
       return;
     }
 
-    // Save images to temp files and build enriched prompt
+    // Set up inside the try, so a failure still releases the project and reports the error
+    let sessionId = run.sessionId;
     let imagePaths: string[] = [];
     let effectivePrompt = prompt;
-    if (images && images.length > 0) {
-      imagePaths = this.saveImagesToTemp(images, projectDir);
-      effectivePrompt = this.buildPromptWithImages(prompt, imagePaths);
-      consola.info(`Prompt enriched with ${imagePaths.length} image(s)`);
-    }
 
     try {
-      consola.debug('Executing Claude with projectDir:', projectDir, 'prompt:', effectivePrompt);
+      // Resolve session ID (from state, or for channels the persisted mapping or Claude's history).
+      // Worktree sessions live in the worktree, so never fall back to the project's sessions.
+      if (run.sessionFromState) {
+        const state = this.getState(context);
+        this.takeNextSession(context, state);
+        sessionId = await this.resolveSessionId(
+          projectDir,
+          state.sessionId,
+          !context.threadTs && !worktree
+        );
+      }
+
+      // Save images to temp files and build enriched prompt
+      if (images && images.length > 0) {
+        imagePaths = this.saveImagesToTemp(images, workDir);
+        effectivePrompt = this.buildPromptWithImages(prompt, imagePaths);
+        consola.info(`Prompt enriched with ${imagePaths.length} image(s)`);
+      }
+      if (files && files.length > 0) {
+        const store = this.getAttachmentStore();
+        const saved = await store.save(files, workDir);
+        effectivePrompt = store.buildPrompt(effectivePrompt, saved);
+        consola.info(`Prompt enriched with ${saved.length} file(s)`);
+      }
+
+      // Snapshot the working tree so the run's changes can be shown as real diffs
+      // (taken after saving attachments so they don't show up as changes)
+      const snapshotBefore = await this.claudeService.snapshotWorkingTree(workDir);
+
+      consola.debug('Executing Claude with workDir:', workDir, 'prompt:', effectivePrompt);
       const { promise, abort } = this.claudeService.execute(projectDir, effectivePrompt, {
         sessionId,
+        model: run.model,
+        thinkingTokens: run.effort ? CLAUDE_EFFORT_LEVELS[run.effort] : undefined,
+        worktree,
         allowedTools,
-        permissionMode: permissionMode as 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan',
+        disallowedTools: blockedPatterns,
+        permissionMode,
         outputFormat: 'stream-json',
+        timeout: this.configManager.get<number>('claude.timeout') || 0,
+        idleTimeout: this.configManager.get<number>('claude.idleTimeout') || 0,
+        onPermissionRequest,
         onChunk: async (chunk) => {
           consola.debug('Received chunk:', chunk.type, chunk.subtype || '');
 
@@ -989,12 +2140,17 @@ Or just send a message to start coding with Claude!`;
             processedMessageIds.add(messageId);
           }
 
-          if (chunk.type === 'assistant' && chunk.message?.content) {
+          if (chunk.type === 'system' && chunk.subtype === 'init' && chunk.model) {
+            activeModel = chunk.model;
+          } else if (chunk.type === 'assistant' && chunk.message?.content) {
             // Extract text and track tool_use from content blocks
             for (const block of chunk.message.content) {
               if (block.type === 'text' && block.text) {
                 currentOutput += block.text;
+              } else if (block.type === 'thinking' && block.thinking) {
+                thinking.push(block.thinking.trim());
               } else if (block.type === 'tool_use' && block.name && block.input) {
+                timeline.start(block);
                 // Track file modifications (Edit, Write tools)
                 if (block.name === 'Edit' || block.name === 'Write') {
                   const filePath = block.input.file_path as string;
@@ -1009,7 +2165,14 @@ Or just send a message to start coding with Claude!`;
                 }
               }
             }
-            await updateWithIndicator(currentOutput);
+            await updateWithIndicator();
+          } else if (chunk.type === 'user' && Array.isArray(chunk.message?.content)) {
+            // Tool results come back as user messages
+            let finished = false;
+            for (const block of chunk.message.content) {
+              if (block.type === 'tool_result' && timeline.finish(block)) finished = true;
+            }
+            if (finished) await updateWithIndicator();
           } else if (chunk.type === 'result') {
             // Mark processing as done
             isProcessing = false;
@@ -1032,7 +2195,7 @@ Or just send a message to start coding with Claude!`;
       // If aborted while setting up, abort immediately
       if (execution.aborted) {
         abort();
-        this.activeExecutions.delete(context.channelId);
+        this.activeExecutions.delete(messageTs);
         return;
       }
 
@@ -1040,7 +2203,8 @@ Or just send a message to start coding with Claude!`;
       const result = await promise;
 
       // Clean up active execution
-      this.activeExecutions.delete(context.channelId);
+      this.activeExecutions.delete(messageTs);
+      consola.debug(`Execution completed: sessionKey=${sessionKey}`);
 
       // If aborted, don't process further (message already updated by handleStopExecution)
       if (execution.aborted || !result) {
@@ -1050,113 +2214,200 @@ Or just send a message to start coding with Claude!`;
       // Mark processing as complete
       isProcessing = false;
 
-      // Update with final result
-      if (result) {
-        // Log result info
-        consola.info('Claude result:', {
-          session_id: result.session_id?.slice(0, 8),
-          has_denials: !!result.permission_denials?.length,
-          denials_count: result.permission_denials?.length || 0,
-          cost: result.total_cost_usd || result.cost_usd,
-        });
+      // Log result info
+      consola.info('Claude result:', {
+        session_id: result.session_id?.slice(0, 8),
+        has_denials: !!result.permission_denials?.length,
+        denials_count: result.permission_denials?.length || 0,
+        cost: result.total_cost_usd || result.cost_usd,
+      });
 
-        // Save session ID for context continuity
-        if (result.session_id) {
-          consola.info(`Session saved: ${result.session_id.slice(0, 8)}...`);
-          state.sessionId = result.session_id;
-          state.projectPath = projectDir; // Ensure project is saved
-          this.userStates.set(context.channelId, state);
-          // Also save to project mapping for cross-channel/restart persistence
+      // Save session ID for context continuity
+      if (result.session_id) {
+        consola.info(`Session saved: ${result.session_id.slice(0, 8)}...`);
+        const state = this.getState(context);
+        state.sessionId = result.session_id;
+        state.projectPath = projectDir; // Ensure project is saved
+        // Also save to project mapping for cross-channel/restart persistence
+        // (worktree sessions can only be resumed inside their worktree)
+        if (!worktree) {
           this.projectSessions.set(projectDir, result.session_id);
-          this.saveState();
         }
+        this.saveState();
+      }
+
+      // Check for permission denials from Claude result.
+      // Calls matching blockedPatterns are listed separately and never offered for retry.
+      const allDenials = result.permission_denials || [];
+      const policyBlocked = allDenials.filter((d) =>
+        policy.findBlockedPattern(d.tool_name, d.tool_input)
+      );
+      const denials = allDenials.filter((d) => !policyBlocked.includes(d));
 
-        // Check for permission denials from Claude result
-        const hasPermissionDenials =
-          result.permission_denials && result.permission_denials.length > 0;
+      if (denials.length > 0) {
+        const denialList = denials
+          .map((d) => `• \`${d.tool_name}\`: ${JSON.stringify(d.tool_input).slice(0, 80)}...`)
+          .join('\n');
+
+        currentOutput += `\n\n⚠️ *Some operations were blocked:*\n${denialList}`;
+      }
 
-        if (hasPermissionDenials) {
-          const denials = result
-            .permission_denials!.map(
-              (d) => `• \`${d.tool_name}\`: ${JSON.stringify(d.tool_input).slice(0, 80)}...`
-            )
-            .join('\n');
+      if (policyBlocked.length > 0) {
+        const blockedList = policyBlocked
+          .map((d) => `• \`${d.tool_name}\`: ${JSON.stringify(d.tool_input).slice(0, 80)}...`)
+          .join('\n');
+
+        currentOutput += `\n\n⛔ *Blocked by policy (not retryable):*\n${blockedList}`;
+      }
+
+      const cost = result.total_cost_usd || result.cost_usd;
+      const footer = [
+        ...(activeModel ? [`Model: ${activeModel}`] : []),
+        ...(cost ? [`Cost: $${cost.toFixed(4)}`] : []),
+      ];
+      if (footer.length > 0) {
+        currentOutput += `\n\n_${footer.join(' · ')}_`;
+      }
 
-          currentOutput += `\n\n⚠️ *Some operations were blocked:*\n${denials}`;
+      // Final update without processing indicator
+      await queuePageUpdate(rollOverPages);
+      const finalContent = this.truncateForSlack(withTimeline(currentPage()) || 'Done.');
+      this.cancelThrottledUpdate(context.channelId, pageTs);
+      try {
+        await adapter.updateMessage(context.channelId, pageTs, finalContent, { runState: 'done' });
+      } catch (updateError) {
+        consola.warn('Failed to update final message, sending as new:', updateError);
+        try {
+          await adapter.sendMessage(context.channelId, finalContent, context.threadTs);
+        } catch {
+          // Give up
         }
+      }
 
-        const cost = result.total_cost_usd || result.cost_usd;
-        if (cost) {
-          currentOutput += `\n\n_Cost: $${cost.toFixed(4)}_`;
+      if (thinking.length > 0 && this.isThinkingShown(context)) {
+        try {
+          await this.sendThinking(adapter, context.channelId, thinking.join('\n\n'), replyTs);
+        } catch (error) {
+          consola.warn('Failed to send thinking:', error);
         }
+      }
 
-        // Final update without processing indicator
-        const finalContent = this.truncateForSlack(currentOutput || 'Done.');
+      // Output over several messages is also uploaded whole
+      if (pageCount > 1 && adapter.uploadSnippet) {
         try {
-          await adapter.updateMessage(context.channelId, messageTs, finalContent);
-        } catch (updateError) {
-          consola.warn('Failed to update final message, sending as new:', updateError);
-          try {
-            await adapter.sendMessage(context.channelId, finalContent);
-          } catch {
-            // Give up
-          }
+          await adapter.uploadSnippet(context.channelId, currentOutput, {
+            filename: 'claude-output.md',
+            title: `Full output (${pageCount} parts)`,
+            threadTs: replyTs,
+          });
+        } catch (error) {
+          consola.warn('Failed to upload full output:', error);
         }
+      }
 
-        // If there were permission denials, offer retry button
-        if (hasPermissionDenials) {
-          consola.info(
-            `Sending retry card for ${result.permission_denials!.length} permission denials`
-          );
-          try {
-            await this.sendRetryWithPermissionsCard(
-              adapter,
-              context,
-              prompt,
-              projectDir,
-              result.permission_denials!
+      // If there were permission denials, offer retry button
+      if (denials.length > 0 && !elevated) {
+        consola.info(`Sending retry card for ${denials.length} permission denials`);
+        try {
+          await this.sendRetryWithPermissionsCard(adapter, context, run, denials);
+        } catch (cardError: unknown) {
+          const errMsg = cardError instanceof Error ? cardError.message : String(cardError);
+          consola.error('Failed to send retry card:', errMsg);
+          // If it's a Slack scope error, notify the user
+          if (errMsg.includes('missing_scope')) {
+            await adapter.sendMessage(
+              context.channelId,
+              '⚠️ 无法发送权限请求卡片：Slack App 缺少必要权限。请在 Slack App 设置中添加相应的 OAuth Scopes。',
+              context.threadTs
             );
-          } catch (cardError: unknown) {
-            const errMsg = cardError instanceof Error ? cardError.message : String(cardError);
-            consola.error('Failed to send retry card:', errMsg);
-            // If it's a Slack scope error, notify the user
-            if (errMsg.includes('missing_scope')) {
-              await adapter.sendMessage(
-                context.channelId,
-                '⚠️ 无法发送权限请求卡片：Slack App 缺少必要权限。请在 Slack App 设置中添加相应的 OAuth Scopes。'
-              );
-            }
           }
         }
       }
 
       // Show file changes made by Claude in this execution
-      if (fileChanges.length > 0) {
-        await this.showFileChanges(adapter, context.channelId, messageTs, fileChanges);
+      const snapshotAfter =
+        snapshotBefore && (await this.claudeService.snapshotWorkingTree(workDir));
+      if (snapshotBefore && snapshotAfter) {
+        const diffs = await this.claudeService.diffSnapshots(
+          workDir,
+          snapshotBefore,
+          snapshotAfter
+        );
+        if (diffs.length > 0) {
+          await this.showGitChanges(adapter, context.channelId, replyTs, diffs);
+        }
+      } else if (fileChanges.length > 0) {
+        await this.showFileChanges(adapter, context.channelId, replyTs, fileChanges);
       }
     } catch (error) {
       // Clean up active execution on error
-      this.activeExecutions.delete(context.channelId);
+      this.activeExecutions.delete(messageTs);
+      // Let a page rollover in progress settle, so the newest page gets the message
+      await pageUpdates;
+
+      if (error instanceof ClaudeTimeoutError) {
+        consola.warn(`Execution timed out: sessionKey=${sessionKey}, ${error.message}`);
+        // Keep the session, so the next message or the Continue button picks up from here
+        if (error.sessionId) {
+          const state = this.getState(context);
+          state.sessionId = error.sessionId;
+          state.projectPath = projectDir;
+          if (!worktree) {
+            this.projectSessions.set(projectDir, error.sessionId);
+          }
+          this.saveState();
+        }
+
+        this.cancelThrottledUpdate(context.channelId, pageTs);
+        const partial = withTimeline(currentPage());
+        await adapter
+          .updateMessage(
+            context.channelId,
+            pageTs,
+            this.truncateForSlack(
+              `⏱️ *${error.message}, stopped.*${partial ? `\n\n${partial}` : ''}`
+            ),
+            { runState: 'stopped' }
+          )
+          .catch((updateError) => consola.warn('Failed to update timed out message:', updateError));
+
+        if (error.sessionId) {
+          try {
+            await this.sendContinueCard(adapter, context, run, error.sessionId);
+          } catch (cardError) {
+            consola.error('Failed to send continue card:', cardError);
+          }
+        }
+        return;
+      }
+
       consola.error('Error executing Claude:', error);
       consola.error('Error details:', error instanceof Error ? error.stack : String(error));
+      this.cancelThrottledUpdate(context.channelId, pageTs);
       try {
         await adapter.updateMessage(
           context.channelId,
-          messageTs,
-          `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+          pageTs,
+          `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { runState: 'failed' }
         );
       } catch {
         // If update fails, try sending a new message
         try {
           await adapter.sendMessage(
             context.channelId,
-            `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            context.threadTs
           );
         } catch {
           // Give up
         }
       }
     } finally {
+      // Let the next queued run on this project start
+      ticket.release();
+      // Reject any approval cards still waiting on this run
+      this.settlePendingPermissions((pending) => pending.messageTs === messageTs, false);
       // Clean up temp image files
       if (imagePaths.length > 0) {
         this.cleanupTempImages(imagePaths);
@@ -1165,13 +2416,73 @@ Or just send a message to start coding with Claude!`;
   }
 
   /**
-   * Show file changes made by Claude in this execution
+   * Show the run's changes from working tree snapshots: a stats summary, then the
+   * unified diff of each file
+   */
+  private async showGitChanges(
+    adapter: IMAdapter,
+    channel: string,
+    threadTs: string,
+    diffs: FileDiff[]
+  ): Promise<void> {
+    try {
+      consola.info(`Showing ${diffs.length} changed file(s) in thread`);
+
+      const additions = diffs.reduce((sum, d) => sum + d.additions, 0);
+      const deletions = diffs.reduce((sum, d) => sum + d.deletions, 0);
+      const icons: Record<FileDiff['status'], string> = {
+        added: '🆕',
+        modified: '✏️',
+        deleted: '🗑️',
+      };
+
+      const limit = MessageProcessor.MAX_DIFF_FILES;
+      const fileLines = diffs
+        .map((d) => {
+          const stats = d.binary ? '(binary)' : `+${d.additions} −${d.deletions}`;
+          return `${icons[d.status]} \`${d.file}\` ${stats}`;
+        })
+        .join('\n');
+      const notShown =
+        diffs.length > limit ? `\n_Diffs are shown for the first ${limit} files only._` : '';
+
+      await adapter.sendMessage(
+        channel,
+        this.truncateForSlack(
+          `📊 *${diffs.length} file(s) changed, +${additions} −${deletions}*\n${fileLines}${notShown}`
+        ),
+        threadTs
+      );
+
+      for (const diff of diffs.slice(0, limit)) {
+        if (diff.binary) continue;
+
+        const fileName = diff.file.split('/').pop() || 'changes';
+        const action =
+          diff.status === 'added' ? 'New' : diff.status === 'deleted' ? 'Deleted' : 'Modified';
+        await this.postDiff(
+          adapter,
+          channel,
+          threadTs,
+          diff.patch,
+          fileName,
+          `${action}: ${diff.file}`,
+          diff.file
+        );
+      }
+    } catch (error) {
+      consola.error('Failed to show file changes:', error);
+    }
+  }
+
+  /**
+   * Show file changes reconstructed from Edit/Write tool inputs (projects outside git)
    */
   private async showFileChanges(
     adapter: IMAdapter,
     channel: string,
     threadTs: string,
-    fileChanges: Array<{ file: string; tool: string; input: Record<string, unknown> }>
+    fileChanges: FileChange[]
   ): Promise<void> {
     try {
       consola.info(`Showing ${fileChanges.length} file change(s) in thread`);
@@ -1216,40 +2527,194 @@ Or just send a message to start coding with Claude!`;
           }
         }
 
-        // Get filename from path
-        const fileName = file.split('/').pop() || 'changes';
-        const title = isNewFile ? `New: ${fileName}` : `Modified: ${fileName}`;
+        // Get filename from path
+        const fileName = file.split('/').pop() || 'changes';
+        const title = isNewFile ? `New: ${fileName}` : `Modified: ${fileName}`;
+
+        await this.postDiff(adapter, channel, threadTs, diffContent, fileName, title, file);
+      }
+    } catch (error) {
+      consola.error('Failed to show file changes:', error);
+    }
+  }
+
+  /**
+   * Post a diff as a snippet, or as a code block when snippets aren't supported
+   */
+  private async postDiff(
+    adapter: IMAdapter,
+    channel: string,
+    threadTs: string | undefined,
+    diffContent: string,
+    fileName: string,
+    title = fileName,
+    label = fileName
+  ): Promise<void> {
+    // Upload as snippet with diff format for syntax highlighting
+    if (adapter.uploadSnippet) {
+      try {
+        await adapter.uploadSnippet(channel, diffContent, {
+          filename: `${fileName}.diff`,
+          title,
+          threadTs,
+        });
+        return;
+      } catch (uploadError) {
+        consola.warn(
+          'Snippet upload failed:',
+          uploadError instanceof Error ? uploadError.message : uploadError
+        );
+      }
+    }
+
+    // Fallback: send as regular message
+    const truncatedDiff =
+      diffContent.length > 2900 ? `${diffContent.slice(0, 2900)}\n... (truncated)` : diffContent;
+    await adapter.sendMessage(
+      channel,
+      `📝 *${label}*\n\`\`\`diff\n${truncatedDiff}\n\`\`\``,
+      threadTs
+    );
+  }
 
-        // Upload as snippet with diff format for syntax highlighting
-        if (adapter.uploadSnippet) {
-          try {
-            await adapter.uploadSnippet(channel, diffContent, {
-              filename: `${fileName}.diff`,
-              title,
-              threadTs,
-            });
-            continue; // Success, move to next file
-          } catch (uploadError) {
-            consola.warn(
-              'Snippet upload failed:',
-              uploadError instanceof Error ? uploadError.message : uploadError
-            );
-          }
-        }
+  private getPermissionMode(): PermissionMode {
+    return this.configManager.get<PermissionMode>('claude.permissionMode') || 'acceptEdits';
+  }
+
+  private getPermissionPolicy(): PermissionPolicy {
+    return new PermissionPolicy(this.configManager.getAll().permissions);
+  }
+
+  private getAttachmentStore(): AttachmentStore {
+    return new AttachmentStore(this.configManager.getAll().attachments);
+  }
 
-        // Fallback: send as regular message
-        const truncatedDiff =
-          diffContent.length > 2900
-            ? `${diffContent.slice(0, 2900)}\n... (truncated)`
-            : diffContent;
+  /**
+   * Decide whether Claude may run a tool mid-execution.
+   * Blocked patterns are always denied. Elevated runs allow everything else;
+   * otherwise allowed tools pass, confirmTools wait for a click on a permission card
+   * (or the confirmTimeout, which applies timeoutAction), and anything else is denied.
+   */
+  private async requestToolPermission(
+    adapter: IMAdapter,
+    target: PermissionTarget,
+    policy: PermissionPolicy,
+    request: PermissionRequest,
+    options: { elevated?: boolean } = {}
+  ): Promise<PermissionDecision> {
+    const { toolName, input } = request;
+    const { channelId, threadTs } = target;
+
+    const blockedBy = policy.findBlockedPattern(toolName, input);
+    if (blockedBy) {
+      consola.warn(`Blocked ${toolName} call matching ${blockedBy}`);
+      const subject = policy.getRuleSubject(toolName, input).slice(0, 200);
+      try {
         await adapter.sendMessage(
-          channel,
-          `📝 *${file}*\n\`\`\`diff\n${truncatedDiff}\n\`\`\``,
+          channelId,
+          `⛔ Blocked \`${toolName}\`: \`${subject}\` matches blocked pattern \`${blockedBy}\``,
           threadTs
         );
+      } catch (error) {
+        consola.warn('Failed to report blocked tool call:', error);
       }
+      return { behavior: 'deny', message: `${toolName} call is blocked by policy (${blockedBy})` };
+    }
+
+    if (options.elevated || policy.isAllowed(toolName, input)) {
+      return { behavior: 'allow' };
+    }
+
+    if (!policy.requiresConfirmation(toolName, input)) {
+      consola.info(`Denying ${toolName}: not in allowedTools or confirmTools`);
+      return {
+        behavior: 'deny',
+        message: `${toolName} is not permitted by the bot's configuration`,
+      };
+    }
+
+    consola.info(`Asking for approval: ${toolName}`);
+    const approved = await this.waitForPermission(adapter, target, policy, request);
+
+    return approved
+      ? { behavior: 'allow' }
+      : { behavior: 'deny', message: `The user denied permission to use ${toolName}` };
+  }
+
+  /**
+   * Post a permission card in the execution thread and wait for the answer
+   */
+  private async waitForPermission(
+    adapter: IMAdapter,
+    target: PermissionTarget,
+    policy: PermissionPolicy,
+    request: PermissionRequest
+  ): Promise<boolean> {
+    const { toolName, input } = request;
+    const { channelId, threadTs, messageTs } = target;
+    const fallback = policy.timeoutAction === 'allow';
+
+    if (!adapter.sendPermissionCard) {
+      await adapter.sendMessage(
+        channelId,
+        `⚠️ Cannot ask for approval here, \`${toolName}\` was ${fallback ? 'allowed' : 'denied'} by default.`,
+        threadTs
+      );
+      return fallback;
+    }
+
+    const requestId = `perm_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const timeoutSeconds = Math.round(policy.confirmTimeoutMs / 1000);
+
+    const decision = new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        if (!this.pendingPermissions.has(requestId)) return;
+        this.pendingPermissions.delete(requestId);
+        consola.info(`Permission request ${requestId} timed out, applying ${policy.timeoutAction}`);
+        resolve(fallback);
+        adapter
+          .sendMessage(
+            channelId,
+            `⏱️ No response within ${timeoutSeconds}s, \`${toolName}\` was ${fallback ? 'allowed' : 'denied'}.`,
+            threadTs
+          )
+          .catch(() => {});
+      }, policy.confirmTimeoutMs);
+
+      this.pendingPermissions.set(requestId, {
+        channelId,
+        threadTs,
+        messageTs,
+        toolName,
+        settle: (approved) => {
+          clearTimeout(timer);
+          this.pendingPermissions.delete(requestId);
+          resolve(approved);
+        },
+      });
+    });
+
+    try {
+      await adapter.sendPermissionCard(channelId, requestId, toolName, input, threadTs);
     } catch (error) {
-      consola.error('Failed to show file changes:', error);
+      consola.error('Failed to send permission card:', error);
+      this.pendingPermissions.get(requestId)?.settle(fallback);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Resolve waiting permission requests that match the filter
+   */
+  private settlePendingPermissions(
+    filter: (pending: PendingPermission) => boolean,
+    approved: boolean
+  ): void {
+    for (const pending of [...this.pendingPermissions.values()]) {
+      if (filter(pending)) {
+        pending.settle(approved);
+      }
     }
   }
 
@@ -1259,10 +2724,26 @@ Or just send a message to start coding with Claude!`;
     requestId: string,
     approved: boolean
   ): Promise<void> {
-    // TODO: Implement permission approval flow
+    const pending = this.pendingPermissions.get(requestId);
+
+    if (!pending) {
+      if (context.channelId) {
+        await adapter.sendMessage(
+          context.channelId,
+          '⌛ This permission request has expired.',
+          context.threadTs
+        );
+      }
+      return;
+    }
+
+    pending.settle(approved);
+    consola.info(`Permission ${approved ? 'granted' : 'denied'} for ${pending.toolName}`);
+
     await adapter.sendMessage(
-      context.channelId,
-      approved ? '✅ Permission granted' : '❌ Permission denied'
+      pending.channelId,
+      approved ? `✅ Allowed \`${pending.toolName}\`` : `❌ Denied \`${pending.toolName}\``,
+      pending.threadTs
     );
   }
 
@@ -1272,20 +2753,23 @@ Or just send a message to start coding with Claude!`;
   private async sendRetryWithPermissionsCard(
     adapter: IMAdapter,
     context: MessageContext,
-    prompt: string,
-    projectDir: string,
+    run: ClaudeRun,
     denials: PermissionDenial[]
   ): Promise<void> {
     // Generate a unique retry ID
     const retryId = `retry_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
     // Store retry info
-    const state = this.userStates.get(context.channelId);
+    const state = this.getState(context);
     this.pendingRetries.set(retryId, {
-      prompt,
-      projectDir,
+      prompt: run.prompt,
+      projectDir: run.projectDir,
       channelId: context.channelId,
-      sessionId: state?.sessionId,
+      threadTs: context.threadTs,
+      sessionId: state.sessionId,
+      worktree: run.worktree,
+      model: run.model,
+      effort: run.effort,
     });
 
     // Create summary of blocked operations
@@ -1302,7 +2786,7 @@ Or just send a message to start coding with Claude!`;
           type: 'section',
           text: {
             type: 'mrkdwn',
-            text: `🔒 *Permission required*\n\nThe following operations were blocked:\n${blockedOps}${moreCount}`,
+            text: `🔒 *Permission required*\n\nThe following operations were blocked:\n${blockedOps}${moreCount}\n\n_Blocked patterns still apply when retrying._`,
           },
         },
         {
@@ -1331,8 +2815,13 @@ Or just send a message to start coding with Claude!`;
         },
       ];
 
-      // Send to main channel, not thread, so user can easily see and respond
-      await adapter.sendInteractiveMessage!(context.channelId, 'Permission required', blocks);
+      // Send into the conversation thread so the retry continues the same session
+      await adapter.sendInteractiveMessage!(
+        context.channelId,
+        'Permission required',
+        blocks,
+        context.threadTs
+      );
     } else {
       // Fallback message
       await adapter.sendMessage(
@@ -1354,172 +2843,160 @@ Or just send a message to start coding with Claude!`;
     const retryInfo = this.pendingRetries.get(retryId);
 
     if (!retryInfo) {
-      await adapter.sendMessage(context.channelId, '❌ Retry request expired or not found.');
+      await adapter.sendMessage(
+        context.channelId,
+        '❌ Retry request expired or not found.',
+        context.threadTs
+      );
       return;
     }
 
     // Remove from pending
     this.pendingRetries.delete(retryId);
 
+    // Run in the thread the prompt came from, whoever clicked
+    const retryContext: MessageContext = {
+      ...context,
+      channelId: retryInfo.channelId,
+      threadTs: retryInfo.threadTs,
+    };
+
     // Acknowledge
-    await adapter.sendMessage(context.channelId, '🔓 Retrying with full permissions...');
+    await adapter.sendMessage(
+      retryContext.channelId,
+      '🔓 Retrying with full permissions...',
+      retryContext.threadTs
+    );
 
     // Re-execute with bypassPermissions mode
-    await this.executeWithPermissions(adapter, context, retryInfo);
+    await this.executeWithPermissions(adapter, retryContext, retryInfo);
   }
 
   /**
-   * Execute prompt with bypassPermissions mode
+   * Offer to continue a timed out run in its session
    */
-  private async executeWithPermissions(
+  private async sendContinueCard(
     adapter: IMAdapter,
     context: MessageContext,
-    retryInfo: PendingRetry
+    run: ClaudeRun,
+    sessionId: string
   ): Promise<void> {
-    const { prompt, projectDir, sessionId } = retryInfo;
-
-    // Send initial response
-    const messageTs = await adapter.sendMessage(
-      context.channelId,
-      '🔄 Processing with elevated permissions...'
-    );
-
-    // Set up execution tracking early so /stop can work during setup phase
-    const execution = { abort: () => {}, messageTs, aborted: false };
-    this.activeExecutions.set(context.channelId, execution);
-    consola.debug(
-      `Execution started (retry): channelId=${context.channelId}, messageTs=${messageTs}`
-    );
-
-    let currentOutput = '';
-    let isProcessing = true;
-    const processingIndicator = '\n\n_⏳ Claude is still working..._';
-    const processedMessageIds = new Set<string>();
-
-    // Track file modifications
-    interface FileChange {
-      file: string;
-      tool: string;
-      input: Record<string, unknown>;
-    }
-    const fileChanges: FileChange[] = [];
-
-    const updateWithIndicator = async (content: string) => {
-      // Skip updates if execution was aborted
-      if (execution.aborted) return;
-      const displayContent = isProcessing ? content + processingIndicator : content;
-      await this.updateMessageThrottled(adapter, context.channelId, messageTs, displayContent);
-    };
-
-    // Check if already aborted before starting Claude
-    if (execution.aborted) {
-      this.activeExecutions.delete(context.channelId);
+    if (!adapter.sendInteractiveMessage) {
+      await adapter.sendMessage(
+        context.channelId,
+        '⏱️ Send another message to continue the session where Claude left off.',
+        context.threadTs
+      );
       return;
     }
 
-    try {
-      const { promise, abort } = this.claudeService.execute(projectDir, prompt, {
-        sessionId,
-        permissionMode: 'bypassPermissions', // Full permissions
-        outputFormat: 'stream-json',
-        onChunk: async (chunk) => {
-          const messageId = chunk.uuid || chunk.message?.id;
-          if (messageId && processedMessageIds.has(messageId)) return;
-          if (messageId) processedMessageIds.add(messageId);
+    const continueId = randomUUID();
+    this.pendingContinues.set(continueId, {
+      prompt: run.prompt,
+      projectDir: run.projectDir,
+      channelId: context.channelId,
+      threadTs: context.threadTs,
+      sessionId,
+      worktree: run.worktree,
+      model: run.model,
+      effort: run.effort,
+    });
 
-          if (chunk.type === 'assistant' && chunk.message?.content) {
-            for (const block of chunk.message.content) {
-              if (block.type === 'text' && block.text) {
-                currentOutput += block.text;
-              } else if (block.type === 'tool_use' && block.name && block.input) {
-                // Track file modifications (Edit, Write tools)
-                if (block.name === 'Edit' || block.name === 'Write') {
-                  const filePath = block.input.file_path as string;
-                  if (filePath) {
-                    fileChanges.push({
-                      file: filePath,
-                      tool: block.name,
-                      input: block.input,
-                    });
-                    consola.info(`Tracked ${block.name} on ${filePath}`);
-                  }
-                }
-              }
-            }
-            await updateWithIndicator(currentOutput);
-          } else if (chunk.type === 'result') {
-            isProcessing = false;
-          }
+    await adapter.sendInteractiveMessage(
+      context.channelId,
+      'Run timed out',
+      [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: '⏱️ Claude was stopped before it finished. Continue the session where it left off?',
+          },
         },
-      });
-
-      // Update the abort function now that we have the real one
-      execution.abort = abort;
-
-      // If aborted while setting up, abort immediately
-      if (execution.aborted) {
-        abort();
-        this.activeExecutions.delete(context.channelId);
-        return;
-      }
-
-      // Wait for result
-      const result = await promise;
-
-      // Clean up active execution
-      this.activeExecutions.delete(context.channelId);
-      consola.debug(`Execution completed (retry): channelId=${context.channelId}`);
-
-      // If aborted, don't process further (message already updated by handleStopExecution)
-      if (execution.aborted || !result) {
-        return;
-      }
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: '▶️ Continue' },
+              style: 'primary',
+              action_id: 'continue_session',
+              value: continueId,
+            },
+          ],
+        },
+      ],
+      context.threadTs
+    );
+  }
 
-      isProcessing = false;
+  /**
+   * Resume a timed out run's session, asking Claude to pick up where it stopped
+   */
+  private async handleContinueSession(
+    adapter: IMAdapter,
+    context: MessageContext,
+    continueId: string
+  ): Promise<void> {
+    const info = this.pendingContinues.get(continueId);
+    if (!info) {
+      await adapter.sendMessage(
+        context.channelId,
+        '❌ Continue request expired or not found.',
+        context.threadTs
+      );
+      return;
+    }
+    this.pendingContinues.delete(continueId);
 
-      // Update session if needed
-      if (result?.session_id) {
-        const state = this.userStates.get(context.channelId) || {};
-        state.sessionId = result.session_id;
-        state.projectPath = projectDir;
-        this.userStates.set(context.channelId, state);
-        this.projectSessions.set(projectDir, result.session_id);
-        this.saveState();
-      }
+    // Run in the thread the prompt came from, whoever clicked
+    const continueContext: MessageContext = {
+      ...context,
+      channelId: info.channelId,
+      threadTs: info.threadTs,
+    };
 
-      // Add cost info
-      const cost = result?.total_cost_usd || result?.cost_usd;
-      if (cost) {
-        currentOutput += `\n\n_Cost: $${cost.toFixed(4)}_`;
-      }
+    await this.runClaude(adapter, continueContext, {
+      prompt: 'You were stopped by a timeout. Continue where you left off.',
+      projectDir: info.projectDir,
+      sessionId: info.sessionId,
+      worktree: info.worktree,
+      model: info.model,
+      effort: info.effort,
+      permissionMode: this.getPermissionMode(),
+      initialText: '🔄 Continuing...',
+    });
+  }
 
-      // Final update
-      await adapter.updateMessage(
-        context.channelId,
-        messageTs,
-        this.truncateForSlack(currentOutput || 'Done.')
-      );
+  /**
+   * Execute prompt with bypassPermissions mode
+   */
+  private async executeWithPermissions(
+    adapter: IMAdapter,
+    context: MessageContext,
+    retryInfo: PendingRetry
+  ): Promise<void> {
+    const { prompt, projectDir, sessionId, worktree, model, effort } = retryInfo;
 
-      // Show file changes in thread
-      if (fileChanges.length > 0) {
-        await this.showFileChanges(adapter, context.channelId, messageTs, fileChanges);
-      }
-    } catch (error) {
-      // Clean up active execution on error
-      this.activeExecutions.delete(context.channelId);
-      consola.debug(`Execution errored (retry): channelId=${context.channelId}`);
-      consola.error('Error in retry execution:', error);
-      await adapter.updateMessage(
-        context.channelId,
-        messageTs,
-        `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
+    await this.runClaude(adapter, context, {
+      prompt,
+      projectDir,
+      sessionId,
+      worktree,
+      model,
+      effort,
+      permissionMode: 'bypassPermissions', // Full permissions
+      initialText: '🔄 Processing with elevated permissions...',
+    });
   }
 
   // Slack message limit - use byte length for safety with CJK characters
   // Official limit is 40000 characters, but CJK chars may count as multiple bytes
   private static readonly SLACK_MAX_BYTES = 38000;
+  // Smallest page of output, so every page moves past the part number it starts with
+  private static readonly MIN_PAGE_BYTES = 500;
+  // Longest thinking posted after a run, in characters
+  private static readonly MAX_THINKING_LENGTH = 8000;
 
   /**
    * Convert Markdown to Slack mrkdwn format
@@ -1587,15 +3064,28 @@ Or just send a message to start coding with Claude!`;
   /**
    * Get byte length of a string (for CJK characters)
    */
-  private getByteLength(str: string): number {
+  private static getByteLength(str: string): number {
     return Buffer.byteLength(str, 'utf8');
   }
 
+  /**
+   * The longest start of a page's text that fits in maxBytes, broken at a paragraph
+   * or line when there's one in the second half
+   */
+  static findPageBreak(text: string, maxBytes: number): string {
+    const fits = MessageProcessor.truncateToByteLimit(text, maxBytes);
+    const paragraph = fits.lastIndexOf('\n\n');
+    if (paragraph > fits.length / 2) return fits.slice(0, paragraph);
+    const line = fits.lastIndexOf('\n');
+    if (line > fits.length / 2) return fits.slice(0, line);
+    return fits;
+  }
+
   /**
    * Truncate string to fit within byte limit
    */
-  private truncateToByteLimit(str: string, maxBytes: number): string {
-    if (this.getByteLength(str) <= maxBytes) {
+  private static truncateToByteLimit(str: string, maxBytes: number): string {
+    if (MessageProcessor.getByteLength(str) <= maxBytes) {
       return str;
     }
     // Binary search for the right length
@@ -1603,7 +3093,7 @@ Or just send a message to start coding with Claude!`;
     let high = str.length;
     while (low < high) {
       const mid = Math.floor((low + high + 1) / 2);
-      if (this.getByteLength(str.slice(0, mid)) <= maxBytes) {
+      if (MessageProcessor.getByteLength(str.slice(0, mid)) <= maxBytes) {
         low = mid;
       } else {
         high = mid - 1;
@@ -1618,7 +3108,7 @@ Or just send a message to start coding with Claude!`;
   private truncateForSlack(content: string): string {
     // Convert Markdown to Slack format first
     const converted = this.markdownToSlack(content);
-    const byteLength = this.getByteLength(converted);
+    const byteLength = MessageProcessor.getByteLength(converted);
 
     if (byteLength <= MessageProcessor.SLACK_MAX_BYTES) {
       return converted;
@@ -1628,18 +3118,97 @@ Or just send a message to start coding with Claude!`;
       `Truncating message: ${byteLength} bytes (limit: ${MessageProcessor.SLACK_MAX_BYTES})`
     );
     // Leave room for truncation notice (~100 bytes for CJK)
-    const truncated = this.truncateToByteLimit(converted, MessageProcessor.SLACK_MAX_BYTES - 100);
+    const truncated = MessageProcessor.truncateToByteLimit(
+      converted,
+      MessageProcessor.SLACK_MAX_BYTES - 100
+    );
     return `${truncated}\n\n_⚠️ Message truncated (too long for Slack)_`;
   }
 
   // Throttle message updates to avoid rate limits (per message)
-  private updateState = new Map<string, { lastUpdate: number; queue: string | null }>();
+  private updateState = new Map<
+    string,
+    {
+      lastUpdate: number;
+      queue: { content: string; options: MessageOptions } | null;
+      timer?: NodeJS.Timeout;
+    }
+  >();
 
+  /**
+   * Drop an update that is still waiting to be sent, before the message gets its final text
+   */
+  private cancelThrottledUpdate(channel: string, messageTs: string): void {
+    const key = `${channel}:${messageTs}`;
+    const state = this.updateState.get(key);
+    if (!state) return;
+    if (state.timer) clearTimeout(state.timer);
+    state.queue = null;
+    this.updateState.delete(key);
+  }
+
+  /**
+   * Post Claude's thinking as a thread reply: collapsed where the adapter supports it,
+   * otherwise as small context text
+   */
+  private async sendThinking(
+    adapter: IMAdapter,
+    channel: string,
+    thinking: string,
+    threadTs?: string
+  ): Promise<void> {
+    const text =
+      thinking.length > MessageProcessor.MAX_THINKING_LENGTH
+        ? `${thinking.slice(0, MessageProcessor.MAX_THINKING_LENGTH)}\n\n_… thinking truncated_`
+        : thinking;
+
+    if (adapter.sendThinkingMessage) {
+      await adapter.sendThinkingMessage(channel, text, threadTs);
+      return;
+    }
+
+    const converted = this.markdownToSlack(text);
+    if (!adapter.sendInteractiveMessage) {
+      await adapter.sendMessage(channel, `💭 *Thinking*\n${converted}`, threadTs);
+      return;
+    }
+
+    // Context blocks hold up to 3000 characters each
+    const blocks: unknown[] = [
+      { type: 'context', elements: [{ type: 'mrkdwn', text: '💭 *Thinking*' }] },
+    ];
+    for (let i = 0; i < converted.length; i += 2900) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: converted.slice(i, i + 2900) }],
+      });
+    }
+    await adapter.sendInteractiveMessage(channel, '💭 Thinking', blocks, threadTs);
+  }
+
+  /**
+   * Send a message that will be updated as the run goes on
+   */
+  private sendStatusMessage(
+    adapter: IMAdapter,
+    channel: string,
+    message: string,
+    threadTs?: string
+  ): Promise<string> {
+    return adapter.sendStreamingMessage
+      ? adapter.sendStreamingMessage(channel, message, threadTs)
+      : adapter.sendMessage(channel, message, threadTs, { runState: 'running' });
+  }
+
+  /**
+   * Progress update of a running execution, at most one a second per message
+   */
   private async updateMessageThrottled(
     adapter: IMAdapter,
     channel: string,
     messageTs: string,
-    content: string
+    content: string,
+    options: MessageOptions
   ): Promise<void> {
     const key = `${channel}:${messageTs}`;
     const now = Date.now();
@@ -1652,7 +3221,7 @@ Or just send a message to start coding with Claude!`;
     }
 
     if (now - state.lastUpdate < minInterval) {
-      state.queue = content;
+      state.queue = { content, options };
       return;
     }
 
@@ -1660,18 +3229,23 @@ Or just send a message to start coding with Claude!`;
     state.queue = null;
 
     try {
-      await adapter.updateMessage(channel, messageTs, this.truncateForSlack(content));
+      await adapter.updateMessage(channel, messageTs, this.truncateForSlack(content), options);
     } catch (error) {
       // Log but don't throw - message updates are best-effort
       consola.debug('Message update failed:', error);
     }
 
-    // Process queued update after interval
-    if (state.queue) {
-      const queuedContent = state.queue;
-      setTimeout(async () => {
+    // Process an update queued while this one was sent, after the interval
+    const queued = this.updateState.get(key)?.queue;
+    if (queued) {
+      state.timer = setTimeout(async () => {
         try {
-          await adapter.updateMessage(channel, messageTs, this.truncateForSlack(queuedContent));
+          await adapter.updateMessage(
+            channel,
+            messageTs,
+            this.truncateForSlack(queued.content),
+            queued.options
+          );
         } catch {
           // Ignore
         }
@@ -0,0 +1,159 @@
+import type { PermissionsConfig } from '../types';
+
+/**
+ * Evaluates tool calls against the permissions section of the config.
+ *
+ * Rules use Claude Code's syntax: a bare tool name (`Bash`) matches every call
+ * to that tool, `Tool(pattern)` matches when the call's primary argument fits
+ * the glob-style pattern (`*` matches any run of characters).
+ *
+ * Bash commands are split into the commands they chain (`&&`, `||`, `;`, `|`, newlines,
+ * subshells) and each is normalized before matching, so `cd /tmp && /usr/bin/sudo ls`
+ * still meets `Bash(sudo*)`. A call is blocked or needs confirmation when any part
+ * matches, and is only allowed when every part does.
+ */
+export class PermissionPolicy {
+  private config: PermissionsConfig;
+
+  constructor(config: PermissionsConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Patterns that are never allowed to run, whatever the permission mode
+   */
+  get blockedPatterns(): string[] {
+    return this.config.blockedPatterns || [];
+  }
+
+  /**
+   * The blocked pattern a tool call matches, if any.
+   * Blocked patterns take precedence over every allow or confirm rule.
+   */
+  findBlockedPattern(toolName: string, input: Record<string, unknown>): string | undefined {
+    return this.blockedPatterns.find((rule) => this.matchesRule(rule, toolName, input));
+  }
+
+  /**
+   * Tool may run without asking anyone
+   */
+  isAllowed(toolName: string, input: Record<string, unknown>): boolean {
+    return this.getRuleSubjects(toolName, input).every((subject) =>
+      this.config.allowedTools.some((rule) => this.matchesSubject(rule, toolName, subject))
+    );
+  }
+
+  /**
+   * Tool must be approved in chat before it runs
+   */
+  requiresConfirmation(toolName: string, input: Record<string, unknown>): boolean {
+    return this.config.confirmTools.some((rule) => this.matchesRule(rule, toolName, input));
+  }
+
+  /**
+   * Whether any tool needs an interactive confirmation at all
+   */
+  hasConfirmTools(): boolean {
+    return this.config.confirmTools.length > 0;
+  }
+
+  get confirmTimeoutMs(): number {
+    return (this.config.confirmTimeout || 60) * 1000;
+  }
+
+  get timeoutAction(): 'allow' | 'deny' {
+    return this.config.timeoutAction === 'allow' ? 'allow' : 'deny';
+  }
+
+  /**
+   * Check a single `Tool` or `Tool(pattern)` rule against a tool call (any part of it)
+   */
+  matchesRule(rule: string, toolName: string, input: Record<string, unknown>): boolean {
+    return this.getRuleSubjects(toolName, input).some((subject) =>
+      this.matchesSubject(rule, toolName, subject)
+    );
+  }
+
+  /**
+   * The normalized parts of a tool call that rules are matched against one by one
+   */
+  getRuleSubjects(toolName: string, input: Record<string, unknown>): string[] {
+    const subject = this.getRuleSubject(toolName, input);
+    if (toolName !== 'Bash' || typeof input.command !== 'string') return [subject];
+
+    const commands = subject
+      .split(/&&|\|\||[;|&\n(){}`]|\$\(/)
+      .map((command) => this.normalizeCommand(command))
+      .filter(Boolean);
+    return commands.length > 0 ? commands : [''];
+  }
+
+  /**
+   * The part of a tool call that `Tool(pattern)` rules are matched against
+   */
+  getRuleSubject(toolName: string, input: Record<string, unknown>): string {
+    if (toolName === 'Bash' && typeof input.command === 'string') {
+      return input.command.trim();
+    }
+    for (const key of ['file_path', 'notebook_path', 'path', 'url', 'pattern']) {
+      if (typeof input[key] === 'string') {
+        return input[key] as string;
+      }
+    }
+    return JSON.stringify(input);
+  }
+
+  private matchesSubject(rule: string, toolName: string, subject: string): boolean {
+    const match = rule.trim().match(/^([^(]+?)(?:\((.*)\))?$/);
+    if (!match) return false;
+
+    const [, ruleTool, pattern] = match;
+    if (ruleTool !== toolName) return false;
+    if (pattern === undefined || pattern === '' || pattern === '*') return true;
+
+    // Bash patterns are normalized like the commands they're matched against
+    const normalized = toolName === 'Bash' ? this.normalizeCommand(pattern) : pattern;
+    return this.globToRegExp(normalized).test(subject);
+  }
+
+  /**
+   * One simple command in a canonical form: single spaces, the executable's basename
+   * without leading variable assignments, and short flags merged and sorted
+   * (`rm -r  -f` and `rm -fr` both become `rm -fr`)
+   */
+  private normalizeCommand(command: string): string {
+    const words = command.trim().split(/\s+/).filter(Boolean);
+    while (words.length > 1 && /^[A-Za-z_]\w*=/.test(words[0])) words.shift();
+    if (words.length === 0) return '';
+
+    words[0] = words[0].replace(/^.*\//, '') || words[0];
+
+    const result: string[] = [];
+    for (const word of words) {
+      const flags = word.match(/^-([A-Za-z]+)(\*?)$/);
+      const previous = result[result.length - 1]?.match(/^-([A-Za-z]+)$/);
+      if (flags && previous && result.length > 1) {
+        result[result.length - 1] = `-${previous[1]}${flags[1]}${flags[2]}`;
+      } else {
+        result.push(word);
+      }
+    }
+    return result
+      .map((word, index) => {
+        const flags = word.match(/^-([A-Za-z]+)(\*?)$/);
+        if (!flags || index === 0) return word;
+        return `-${[...new Set(flags[1])].sort().join('')}${flags[2]}`;
+      })
+      .join(' ');
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    // Claude Code prefix rules are written as `cmd:*`; treat them like `cmd*`
+    const normalized = pattern.replace(/:\*$/, '*');
+    const escaped = normalized
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${escaped}$`, 's');
+  }
+}
@@ -1,16 +1,17 @@
 import { existsSync, unlinkSync, writeFileSync } from 'node:fs';
 import { type Server, createServer } from 'node:http';
 import { consola } from 'consola';
-import { FeishuAdapter } from '../adapters/feishu';
-import { SlackAdapter } from '../adapters/slack';
+import { getEnabledAdapterNames, resolveAdapter } from '../adapters/registry';
 import { PID_FILE } from '../constants';
-import type { FeishuAdapterConfig, IMAdapter } from '../types';
+import type { AdapterConfigs, IMAdapter } from '../types';
+import { AttachmentStore } from './attachments';
 import type { ConfigManager } from './config-manager';
 import { MessageProcessor } from './message-processor';
 
 export class HeimerdingerServer {
   private configManager: ConfigManager;
-  private adapter: IMAdapter | null = null;
+  // Running adapters by config name
+  private adapters: Map<string, IMAdapter> = new Map();
   private messageProcessor: MessageProcessor;
   private httpServer: Server | null = null;
 
@@ -21,7 +22,10 @@ export class HeimerdingerServer {
 
   async start(): Promise<void> {
     const port = this.configManager.get<number>('server.port') || 3150;
-    const activeAdapter = this.configManager.get<string>('activeAdapter');
+    const adapterNames = getEnabledAdapterNames(
+      this.configManager.get<AdapterConfigs>('adapters') || {},
+      this.configManager.get<string>('activeAdapter')
+    );
 
     // Write PID file
     writeFileSync(PID_FILE, process.pid.toString());
@@ -42,7 +46,7 @@ export class HeimerdingerServer {
         const status = {
           service: 'heimerdinger',
           status: 'running',
-          adapter: this.configManager.get('activeAdapter'),
+          adapters: [...this.adapters.keys()],
           projectDir: this.configManager.get('projectDir'),
         };
         res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -57,14 +61,11 @@ export class HeimerdingerServer {
     this.httpServer.listen(port);
     consola.success(`HTTP server started on port ${port}`);
 
-    // Initialize IM adapter
-    if (activeAdapter === 'slack') {
-      await this.initSlackAdapter();
-    } else if (activeAdapter === 'feishu') {
-      await this.initFeishuAdapter();
-    } else if (activeAdapter) {
-      consola.warn(`Unknown adapter: ${activeAdapter}`);
-    } else {
+    // Initialize IM adapters, each one replies on the platform its messages came from
+    for (const name of adapterNames) {
+      await this.startAdapter(name);
+    }
+    if (adapterNames.length === 0) {
       consola.warn('No IM adapter configured. Only HTTP endpoints available.');
     }
 
@@ -74,10 +75,15 @@ export class HeimerdingerServer {
   async stop(): Promise<void> {
     consola.info('Stopping Heimerdinger service...');
 
-    // Stop adapter
-    if (this.adapter) {
-      await this.adapter.stop();
+    // Stop adapters
+    for (const [name, adapter] of this.adapters) {
+      try {
+        await adapter.stop();
+      } catch (error) {
+        consola.warn(`Failed to stop ${name} adapter:`, error);
+      }
     }
+    this.adapters.clear();
 
     // Stop HTTP server
     if (this.httpServer) {
@@ -96,117 +102,81 @@ export class HeimerdingerServer {
     consola.success('Service stopped');
   }
 
-  private async initSlackAdapter(): Promise<void> {
-    const slackConfig = this.configManager.get<{
-      botToken: string;
-      appToken: string;
-      signingSecret: string;
-      socketMode: boolean;
-    }>('adapters.slack');
-
-    if (!slackConfig) {
-      consola.warn('Slack adapter not configured');
-      return;
-    }
-
-    try {
-      consola.info('Initializing Slack adapter...');
-
-      const adapter = new SlackAdapter({
-        botToken: slackConfig.botToken,
-        appToken: slackConfig.appToken,
-        signingSecret: slackConfig.signingSecret,
-        socketMode: slackConfig.socketMode ?? true,
-      });
-      this.adapter = adapter;
-
-      // Register message handler
-      adapter.onMessage(async (message) => {
-        consola.debug('Received message:', message.text);
-        await this.messageProcessor.handleMessage(message, adapter);
-      });
-
-      // Register audio message handler (for voice messages)
-      if (adapter.onAudioMessage) {
-        adapter.onAudioMessage(async (message) => {
-          consola.debug('Received audio message:', message.mimeType);
-          await this.messageProcessor.handleAudioMessage(message, adapter);
-        });
-      }
+  /**
+   * Route an adapter's messages, voice messages and interactions to the message processor
+   */
+  private registerHandlers(adapter: IMAdapter): void {
+    // Register message handler
+    adapter.onMessage(async (message) => {
+      consola.debug('Received message:', message.text);
+      await this.messageProcessor.handleMessage(message, adapter);
+    });
 
-      // Register interaction handler
-      adapter.onInteraction(async (action, value, context) => {
-        consola.debug('Received interaction:', action);
-        await this.messageProcessor.handleInteraction(action, value, context, adapter);
+    // Register audio message handler (for voice messages)
+    if (adapter.onAudioMessage) {
+      adapter.onAudioMessage(async (message) => {
+        consola.debug('Received audio message:', message.mimeType);
+        await this.messageProcessor.handleAudioMessage(message, adapter);
       });
-
-      await adapter.start();
-      consola.success('Slack adapter started');
-
-      // Notify known channels that the bot is online
-      const channelStates = this.messageProcessor.getChannelIds();
-      for (const channelId of channelStates) {
-        try {
-          await adapter.sendMessage(
-            channelId,
-            `🟢 Heimerdinger online (${new Date().toLocaleTimeString()})`
-          );
-        } catch {
-          // Channel might not be accessible
-        }
-      }
-    } catch (error) {
-      consola.error('Failed to initialize Slack adapter:', error);
     }
+
+    // Register interaction handler
+    adapter.onInteraction(async (action, value, context) => {
+      consola.debug('Received interaction:', action);
+      await this.messageProcessor.handleInteraction(action, value, context, adapter);
+    });
   }
 
-  private async initFeishuAdapter(): Promise<void> {
-    const feishuConfig = this.configManager.get<FeishuAdapterConfig>('adapters.feishu');
+  /**
+   * Create and start one configured adapter. A failing adapter is logged and
+   * skipped so the others keep running.
+   */
+  private async startAdapter(name: string): Promise<void> {
+    const config = this.configManager.get<Record<string, unknown>>(`adapters.${name}`);
 
-    if (!feishuConfig) {
-      consola.warn('Feishu adapter not configured');
+    if (!config) {
+      consola.warn(`${name} adapter not configured`);
       return;
     }
 
     try {
-      consola.info('Initializing Feishu adapter...');
-
-      const adapter = new FeishuAdapter({
-        enabled: feishuConfig.enabled,
-        appId: feishuConfig.appId,
-        appSecret: feishuConfig.appSecret,
-        encryptKey: feishuConfig.encryptKey,
-        verificationToken: feishuConfig.verificationToken,
-        connectionMode: feishuConfig.connectionMode ?? 'websocket',
-        webhookPort: feishuConfig.webhookPort,
-        domain: feishuConfig.domain ?? 'feishu',
-      });
-      this.adapter = adapter;
+      consola.info(`Initializing ${name} adapter...`);
 
-      // Register message handler
-      adapter.onMessage(async (message) => {
-        consola.debug('Received message:', message.text);
-        await this.messageProcessor.handleMessage(message, adapter);
-      });
+      const definition = await resolveAdapter(name, config);
+      const adapter = await definition.create(config);
+      // Lets adapters skip downloading files that would be dropped anyway
+      adapter.maxFileSize = new AttachmentStore(
+        this.configManager.getAll().attachments
+      ).maxFileSizeBytes;
+      this.adapters.set(name, adapter);
 
-      // Register audio message handler (for voice messages)
-      if (adapter.onAudioMessage) {
-        adapter.onAudioMessage(async (message) => {
-          consola.debug('Received audio message:', message.mimeType);
-          await this.messageProcessor.handleAudioMessage(message, adapter);
-        });
-      }
-
-      // Register interaction handler
-      adapter.onInteraction(async (action, value, context) => {
-        consola.debug('Received interaction:', action);
-        await this.messageProcessor.handleInteraction(action, value, context, adapter);
-      });
+      this.registerHandlers(adapter);
 
       await adapter.start();
-      consola.success('Feishu adapter started');
+      consola.success(`${definition.label} adapter started`);
+
+      if (definition.announceOnline) {
+        await this.announceOnline(adapter);
+      }
     } catch (error) {
-      consola.error('Failed to initialize Feishu adapter:', error);
+      this.adapters.delete(name);
+      consola.error(`Failed to initialize ${name} adapter:`, error);
+    }
+  }
+
+  /**
+   * Notify the adapter's known channels that the bot is online
+   */
+  private async announceOnline(adapter: IMAdapter): Promise<void> {
+    for (const channelId of this.messageProcessor.getChannelIds(adapter.name)) {
+      try {
+        await adapter.sendMessage(
+          channelId,
+          `🟢 Heimerdinger online (${new Date().toLocaleTimeString()})`
+        );
+      } catch {
+        // Channel might not be accessible
+      }
     }
   }
 }
@@ -2,8 +2,9 @@ import { execSync, spawn } from 'node:child_process';
 import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { consola } from 'consola';
+import { getEnabledAdapterNames } from '../adapters/registry';
 import { LOG_DIR, LOG_FILE, PID_FILE } from '../constants';
-import type { ServiceStatus } from '../types';
+import type { AdapterConfigs, ServiceStatus } from '../types';
 import { ClaudeCodeService } from './claude-code';
 import type { ConfigManager } from './config-manager';
 import { HeimerdingerServer } from './server';
@@ -47,14 +48,17 @@ export class ServiceManager {
 
     const pid = await this.getPid();
     const port = this.configManager.get<number>('server.port');
-    const adapter = this.configManager.get<string>('activeAdapter');
+    const adapters = getEnabledAdapterNames(
+      this.configManager.get<AdapterConfigs>('adapters') || {},
+      this.configManager.get<string>('activeAdapter')
+    );
     const projectDir = this.configManager.get<string>('projectDir');
 
     return {
       running: true,
       pid: pid || undefined,
       port,
-      adapter,
+      adapters,
       projectDir,
     };
   }
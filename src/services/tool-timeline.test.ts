@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import type { ClaudeContentBlock } from '../types';
+import { ToolTimeline } from './tool-timeline';
+
+const use = (id: string, name: string, input: Record<string, unknown>): ClaudeContentBlock => ({
+  type: 'tool_use',
+  id,
+  name,
+  input,
+});
+const result = (id: string, content: string, isError = false): ClaudeContentBlock => ({
+  type: 'tool_result',
+  tool_use_id: id,
+  content,
+  is_error: isError,
+});
+
+function createTimeline(verbosity: 'off' | 'compact' | 'full') {
+  const timeline = new ToolTimeline(verbosity, '/work/app');
+  timeline.start(use('1', 'Read', { file_path: '/work/app/src/index.ts' }));
+  timeline.start(use('2', 'Grep', { pattern: 'TODO' }));
+  timeline.start(use('3', 'Bash', { command: 'npm test\necho done' }));
+  timeline.finish(result('1', 'line 1\nline 2\nline 3'));
+  timeline.finish(result('2', 'Found 4 files\na.ts\nb.ts'));
+  return timeline;
+}
+
+describe('ToolTimeline', () => {
+  test('lists every tool with its result in full mode', () => {
+    expect(createTimeline('full').render()).toBe(
+      ['📖 Read `src/index.ts` → 3 lines', "🔍 Grep 'TODO' → 4 files", '🧪 Bash `npm test` …'].join(
+        '\n'
+      )
+    );
+  });
+
+  test('collapses finished tools in compact mode', () => {
+    expect(createTimeline('compact').render()).toBe(
+      ['✅ 2 step(s): 1 Read, 1 Grep', '🧪 Bash `npm test` …'].join('\n')
+    );
+  });
+
+  test('shows nothing when off or before any tool runs', () => {
+    expect(createTimeline('off').render()).toBe('');
+    expect(new ToolTimeline('full', '/work/app').render()).toBe('');
+  });
+
+  test('reports exit codes and failures', () => {
+    const timeline = createTimeline('compact');
+    timeline.finish(result('3', 'Exit code 1\nnpm ERR! test failed', true));
+    timeline.start(use('4', 'Edit', { file_path: '/elsewhere/a.ts' }));
+    timeline.finish(result('4', 'String to replace not found', true));
+
+    expect(timeline.render()).toBe('✅ 4 step(s): 1 Read, 1 Grep, 1 Bash, 1 Edit (2 failed)');
+
+    const full = createTimeline('full');
+    full.finish(result('3', 'Exit code 1', true));
+    full.start(use('4', 'Edit', { file_path: '/elsewhere/a.ts' }));
+    full.finish(result('4', 'String to replace not found', true));
+    expect(full.render().split('\n').slice(-2)).toEqual([
+      '🧪 Bash `npm test` → exit 1',
+      '✏️ Edit `/elsewhere/a.ts` → failed: String to replace not found',
+    ]);
+  });
+
+  test('ignores results of tools it did not see start', () => {
+    const timeline = createTimeline('full');
+    expect(timeline.finish(result('unknown', 'ok'))).toBe(false);
+    expect(timeline.finish(result('3', 'ok'))).toBe(true);
+  });
+
+  test('counts older entries in full mode', () => {
+    const timeline = new ToolTimeline('full', '/work/app');
+    for (let i = 0; i < 20; i++) {
+      timeline.start(use(String(i), 'Glob', { pattern: `*.${i}` }));
+      timeline.finish(result(String(i), 'No files found'));
+    }
+
+    const lines = timeline.render().split('\n');
+    expect(lines).toHaveLength(16);
+    expect(lines[0]).toBe('_… 5 earlier step(s)_');
+    expect(lines[15]).toBe("📂 Glob '*.19' → no files");
+  });
+
+  test('clips long labels', () => {
+    const timeline = new ToolTimeline('full', '/work/app');
+    timeline.start(use('1', 'Bash', { command: `echo ${'x'.repeat(100)}` }));
+    const label = timeline.render();
+    expect(label).toContain('…`');
+    expect(label.length).toBeLessThan(80);
+  });
+});
@@ -0,0 +1,186 @@
+import { relative } from 'node:path';
+import type { ClaudeContentBlock } from '../types';
+
+// How much tool activity the status message shows: nothing, finished tools
+// collapsed into one line, or every tool with its result
+export type ToolVerbosity = 'off' | 'compact' | 'full';
+
+export const TOOL_VERBOSITY_LEVELS: ToolVerbosity[] = ['off', 'compact', 'full'];
+
+interface TimelineEntry {
+  name: string;
+  // Icon and what the tool works on, e.g. "🔍 Grep 'foo'"
+  label: string;
+  status: 'running' | 'done' | 'failed';
+  // Short outcome, e.g. "12 matches" or "exit 1"
+  result?: string;
+}
+
+// Lines shown in full mode, older entries are counted instead
+const MAX_FULL_ENTRIES = 15;
+const MAX_LABEL_LENGTH = 60;
+
+/**
+ * Live list of the tools Claude uses in a run, built from the tool_use and
+ * tool_result blocks of the stream and rendered below the output.
+ */
+export class ToolTimeline {
+  private entries: Map<string, TimelineEntry> = new Map();
+  private verbosity: ToolVerbosity;
+  // Paths are shown relative to the directory Claude works in
+  private workDir: string;
+
+  constructor(verbosity: ToolVerbosity, workDir: string) {
+    this.verbosity = verbosity;
+    this.workDir = workDir;
+  }
+
+  /**
+   * Track a tool_use block
+   */
+  start(block: ClaudeContentBlock): void {
+    if (!block.id || !block.name) return;
+    this.entries.set(block.id, {
+      name: block.name,
+      label: this.describe(block.name, block.input || {}),
+      status: 'running',
+    });
+  }
+
+  /**
+   * Complete the entry of a tool_result block. Returns whether it belonged to a tracked tool.
+   */
+  finish(block: ClaudeContentBlock): boolean {
+    const entry = block.tool_use_id ? this.entries.get(block.tool_use_id) : undefined;
+    if (!entry) return false;
+
+    const output = this.getText(block.content);
+    entry.status = block.is_error ? 'failed' : 'done';
+    entry.result = this.summarize(entry.name, output, !!block.is_error);
+    return true;
+  }
+
+  render(): string {
+    if (this.verbosity === 'off' || this.entries.size === 0) return '';
+
+    const entries = [...this.entries.values()];
+    const line = (entry: TimelineEntry) => {
+      if (entry.status === 'running') return `${entry.label} …`;
+      return entry.result ? `${entry.label} → ${entry.result}` : entry.label;
+    };
+
+    if (this.verbosity === 'full') {
+      const shown = entries.slice(-MAX_FULL_ENTRIES);
+      const earlier = entries.length - shown.length;
+      return [...(earlier > 0 ? [`_… ${earlier} earlier step(s)_`] : []), ...shown.map(line)].join(
+        '\n'
+      );
+    }
+
+    // Compact: finished tools collapse into one line, running ones are shown in full
+    const finished = entries.filter((entry) => entry.status !== 'running');
+    const lines = entries.filter((entry) => entry.status === 'running').map(line);
+    if (finished.length > 0) {
+      lines.unshift(this.summarizeFinished(finished));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * e.g. "✅ 7 steps: 3 Read, 2 Grep, 1 Bash, 1 Edit (1 failed)"
+   */
+  private summarizeFinished(finished: TimelineEntry[]): string {
+    const counts = new Map<string, number>();
+    for (const entry of finished) {
+      counts.set(entry.name, (counts.get(entry.name) || 0) + 1);
+    }
+    const byCount = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    const names = byCount.slice(0, 4).map(([name, count]) => `${count} ${name}`);
+    if (byCount.length > 4) names.push('…');
+
+    const failed = finished.filter((entry) => entry.status === 'failed').length;
+    return `✅ ${finished.length} step(s): ${names.join(', ')}${failed > 0 ? ` (${failed} failed)` : ''}`;
+  }
+
+  private describe(name: string, input: Record<string, unknown>): string {
+    const str = (key: string) => (typeof input[key] === 'string' ? (input[key] as string) : '');
+    const path = (key: string) => `\`${this.shortenPath(str(key))}\``;
+    const quoted = (value: string) => `'${this.clip(value)}'`;
+
+    switch (name) {
+      case 'Read':
+        return `📖 Read ${path('file_path')}`;
+      case 'Edit':
+      case 'MultiEdit':
+        return `✏️ ${name} ${path('file_path')}`;
+      case 'Write':
+        return `📝 Write ${path('file_path')}`;
+      case 'NotebookEdit':
+        return `✏️ NotebookEdit ${path('notebook_path')}`;
+      case 'Grep':
+        return `🔍 Grep ${quoted(str('pattern'))}`;
+      case 'Glob':
+        return `📂 Glob ${quoted(str('pattern'))}`;
+      case 'Bash': {
+        const command = str('command').split('\n')[0];
+        const icon = /\b(test|jest|vitest|pytest|mocha)\b/.test(command) ? '🧪' : '💻';
+        return `${icon} Bash \`${this.clip(command)}\``;
+      }
+      case 'WebFetch':
+        return `🌐 WebFetch ${this.clip(str('url'))}`;
+      case 'WebSearch':
+        return `🌐 WebSearch ${quoted(str('query'))}`;
+      case 'Task':
+      case 'Agent':
+        return `🤖 ${name} ${quoted(str('description'))}`;
+      case 'TodoWrite':
+        return '📋 Update todos';
+      default:
+        return `🔧 ${name}`;
+    }
+  }
+
+  private summarize(name: string, output: string, isError: boolean): string | undefined {
+    // Failed Bash commands report their exit code on the first line
+    const exitCode = output.match(/^Exit code (\d+)/);
+    if (name === 'Bash') {
+      if (exitCode) return `exit ${exitCode[1]}`;
+      return isError ? 'failed' : 'exit 0';
+    }
+    if (isError) return `failed: ${this.clip(output.split('\n')[0] || 'error')}`;
+
+    const lines = output.split('\n').filter((l) => l.trim()).length;
+    switch (name) {
+      case 'Grep': {
+        const found = output.match(/^Found (\d+) (files?|matches|lines?)/);
+        if (found) return `${found[1]} ${found[2]}`;
+        if (/^No (files|matches) found/.test(output)) return 'no matches';
+        return `${lines} matches`;
+      }
+      case 'Glob':
+        if (/^No files found/.test(output)) return 'no files';
+        return `${lines} files`;
+      case 'Read':
+        return `${lines} lines`;
+      default:
+        return undefined;
+    }
+  }
+
+  private getText(content: ClaudeContentBlock['content']): string {
+    if (typeof content === 'string') return content;
+    return (content || [])
+      .map((part) => part.text || '')
+      .join('\n')
+      .trim();
+  }
+
+  private shortenPath(path: string): string {
+    const rel = relative(this.workDir, path);
+    return this.clip(rel && !rel.startsWith('..') ? rel : path);
+  }
+
+  private clip(text: string): string {
+    return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+  }
+}
@@ -10,10 +10,21 @@ export interface ClaudeConfig {
   configPath: string;
   includeThinking: boolean;
   defaultModel: string;
+  // Thinking effort (low, medium or high) unless a channel or prompt picks one
+  defaultEffort?: string;
+  // Longest a run may take, in milliseconds (0 for no limit)
   timeout: number;
-  permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+  // Longest Claude may go without output, in milliseconds (0 for no limit)
+  idleTimeout?: number;
+  permissionMode?: PermissionMode;
+  // Runs on different projects that may execute at once (same project always runs one at a time)
+  maxConcurrent?: number;
+  // Give each conversation its own git worktree and branch
+  worktrees?: boolean;
 }
 
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+
 export interface PermissionsConfig {
   allowedTools: string[];
   confirmTools: string[];
@@ -22,6 +33,24 @@ export interface PermissionsConfig {
   timeoutAction: 'allow' | 'deny';
 }
 
+export interface AttachmentsConfig {
+  // Largest file accepted from chat, in MB
+  maxFileSize: number;
+  // Unpack .zip and .tar(.gz) attachments next to the archive
+  extractArchives: boolean;
+}
+
+// Roles are cumulative: prompter can do everything a viewer can, approver everything a prompter can
+export type UserRole = 'viewer' | 'prompter' | 'approver';
+
+export interface AccessConfig {
+  // IM user ID (Slack user ID or Feishu open_id) -> role
+  // Access control is off (everyone is an approver) while this is empty
+  users: Record<string, UserRole>;
+  // Role for users not listed in `users`
+  defaultRole: UserRole | 'none';
+}
+
 export interface LoggingConfig {
   level: 'debug' | 'info' | 'warn' | 'error';
   file: string;
@@ -46,9 +75,94 @@ export interface FeishuAdapterConfig {
   domain?: 'feishu' | 'lark';
 }
 
+export interface DiscordAdapterConfig {
+  enabled: boolean;
+  botToken: string;
+}
+
+export interface TeamsAdapterConfig {
+  enabled: boolean;
+  // Bot registration; leave appId empty to talk to the Bot Framework Emulator without auth
+  appId?: string;
+  appPassword?: string;
+  appType?: 'MultiTenant' | 'SingleTenant';
+  tenantId?: string;
+  // Messaging endpoint is http://<host>:<port>/api/messages
+  port: number;
+  // Defaults to 0.0.0.0, or 127.0.0.1 without appId (must be loopback then)
+  host?: string;
+}
+
+export interface TelegramAdapterConfig {
+  enabled: boolean;
+  botToken: string;
+  // Bot API server, for a self-hosted telegram-bot-api
+  apiUrl?: string;
+}
+
+export interface MattermostAdapterConfig {
+  enabled: boolean;
+  url: string;
+  token: string;
+  // Button callbacks are POSTed by the Mattermost server to <callbackUrl>/actions
+  callbackUrl?: string;
+  port: number;
+  // Interface of the callback server, defaults to 127.0.0.1
+  host?: string;
+}
+
+export interface EmailAdapterConfig {
+  enabled: boolean;
+  address: string;
+  // Login for both servers, defaults to address
+  username?: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  // TLS from the start (ports 993/465); false uses STARTTLS
+  secure?: boolean;
+  // Mail from anyone else is ignored
+  allowedSenders: string[];
+  // Only accept mail whose subject contains this token, instead of checking requireAuth
+  subjectToken?: string;
+  // Require DMARC or aligned DKIM to pass in Authentication-Results (default true)
+  requireAuth?: boolean;
+  // authserv-id of the receiving server's Authentication-Results, required unless subjectToken is set
+  authServId?: string;
+  mailbox?: string;
+  // Seconds between checks when the server doesn't push new mail
+  pollInterval?: number;
+}
+
+export interface HttpAdapterConfig {
+  enabled: boolean;
+  port: number;
+  host?: string;
+  // Required as `Authorization: Bearer <token>` when set; acts as user `http:default`
+  token?: string;
+  // Per-user tokens, user name -> token; requests act as `http:<name>`
+  users?: Record<string, string>;
+}
+
+// Adapter from another package; `module` is a package name or path whose default
+// export is an AdapterDefinition, the remaining fields are passed to it
+export interface ExternalAdapterConfig {
+  enabled: boolean;
+  module: string;
+  [key: string]: unknown;
+}
+
 export interface AdapterConfigs {
   slack?: SlackAdapterConfig;
   feishu?: FeishuAdapterConfig;
+  http?: HttpAdapterConfig;
+  discord?: DiscordAdapterConfig;
+  teams?: TeamsAdapterConfig;
+  telegram?: TelegramAdapterConfig;
+  mattermost?: MattermostAdapterConfig;
+  email?: EmailAdapterConfig;
   [key: string]: unknown;
 }
 
@@ -57,6 +171,8 @@ export interface HeimerdingerConfig {
   server: ServerConfig;
   claude: ClaudeConfig;
   permissions: PermissionsConfig;
+  access: AccessConfig;
+  attachments: AttachmentsConfig;
   projectDir: string;
   adapters: AdapterConfigs;
   activeAdapter: string;
@@ -90,6 +206,28 @@ export interface ClaudeSessionsIndex {
   originalPath: string;
 }
 
+// A git worktree a conversation runs in
+export interface WorktreeInfo {
+  path: string;
+  branch: string;
+  // Commit the worktree was created from (what its changes are diffed against)
+  baseRef: string;
+  // Main working tree the worktree belongs to
+  projectPath: string;
+  createdAt: string;
+}
+
+// One file's changes between two working tree snapshots
+export interface FileDiff {
+  file: string;
+  status: 'added' | 'modified' | 'deleted';
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  // Unified diff for this file
+  patch: string;
+}
+
 export interface PermissionDenial {
   tool_name: string;
   tool_use_id: string;
@@ -97,17 +235,27 @@ export interface PermissionDenial {
 }
 
 export interface ClaudeContentBlock {
-  type: 'text' | 'tool_use' | 'tool_result';
+  type: 'text' | 'tool_use' | 'tool_result' | 'thinking';
   text?: string;
+  thinking?: string; // For thinking
   id?: string;
   name?: string;
   input?: Record<string, unknown>;
-  content?: string; // For tool_result
+  content?: string | Array<{ type: string; text?: string }>; // For tool_result
   tool_use_id?: string; // For tool_result reference
+  is_error?: boolean; // For tool_result
 }
 
 export interface ClaudeStreamChunk {
-  type: 'system' | 'assistant' | 'user' | 'tool_use' | 'tool_result' | 'result' | 'error';
+  type:
+    | 'system'
+    | 'assistant'
+    | 'user'
+    | 'tool_use'
+    | 'tool_result'
+    | 'result'
+    | 'error'
+    | 'control_request';
   message?: {
     id?: string;
     role: string;
@@ -119,12 +267,32 @@ export interface ClaudeStreamChunk {
   output?: string;
   subtype?: 'init' | 'success' | 'error';
   result?: string;
+  is_error?: boolean;
   session_id?: string;
+  model?: string; // For system init
   permission_denials?: PermissionDenial[];
   cost_usd?: number;
   total_cost_usd?: number;
+  // For control_request (permission prompts over stdio)
+  request_id?: string;
+  request?: {
+    subtype: string;
+    tool_name?: string;
+    input?: Record<string, unknown>;
+  };
 }
 
+// Tool permission prompt raised by Claude mid-run
+export interface PermissionRequest {
+  requestId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export type PermissionDecision =
+  | { behavior: 'allow'; updatedInput?: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
 // IM Adapter Types
 
 export interface MessageContext {
@@ -132,6 +300,8 @@ export interface MessageContext {
   userId: string;
   threadTs?: string;
   messageTs?: string;
+  // Name of the adapter the message came from, set by the message processor
+  adapter?: string;
 }
 
 export interface IMImageAttachment {
@@ -140,10 +310,21 @@ export interface IMImageAttachment {
   mimetype: string;
 }
 
+// Any other file the user sent (logs, patches, archives...), saved into the project for Claude to read
+export interface IMFileAttachment {
+  buffer: Buffer;
+  filename: string;
+  mimetype: string;
+  // Size reported by the platform, set when the file was too large to download
+  // (the buffer is then empty)
+  size?: number;
+}
+
 export interface IMMessage {
   text: string;
   context: MessageContext;
   images?: IMImageAttachment[];
+  files?: IMFileAttachment[];
 }
 
 export interface IMAudioMessage {
@@ -168,6 +349,8 @@ export interface ConfigField {
   default?: unknown;
   options?: string[];
   secret?: boolean;
+  // Only asked for when another field has the given value
+  showWhen?: { field: string; value: unknown };
 }
 
 export interface ValidationResult {
@@ -175,15 +358,47 @@ export interface ValidationResult {
   errors: string[];
 }
 
+// Where the run behind a status message stands
+export type RunState = 'running' | 'done' | 'stopped' | 'failed';
+
+export interface MessageOptions {
+  // Set on status messages of Claude runs; 'running' while queued or working
+  runState?: RunState;
+  // Set while Claude works: the model and effort of the run, e.g. "`opus` · effort `high`"
+  // (empty when neither was chosen). See IMAdapter.showsRunState.
+  runOptions?: string;
+}
+
 export interface IMAdapter {
   name: string;
+  // Optional: longest message in bytes, longer output continues in a new message
+  // (defaults to Slack's limit)
+  maxMessageBytes?: number;
+  // Optional: largest file in bytes the adapter downloads, set from attachments.maxFileSize
+  maxFileSize?: number;
+  // Optional: status messages show on their own that Claude is working (e.g. in a card
+  // header), so they are sent without the "still working" line, which is left to options
+  showsRunState?: boolean;
   init(): Promise<void>;
   getConfigTemplate(): ConfigField[];
   validateConfig(config: unknown): ValidationResult;
   start(): Promise<void>;
   stop(): Promise<void>;
-  sendMessage(channel: string, message: string, threadTs?: string): Promise<string>;
-  updateMessage(channel: string, messageTs: string, message: string): Promise<void>;
+  sendMessage(
+    channel: string,
+    message: string,
+    threadTs?: string,
+    options?: MessageOptions
+  ): Promise<string>;
+  updateMessage(
+    channel: string,
+    messageTs: string,
+    message: string,
+    options?: MessageOptions
+  ): Promise<void>;
+  // Optional: send a status message that is going to be updated as Claude works,
+  // for platforms where plain messages can't be edited
+  sendStreamingMessage?(channel: string, message: string, threadTs?: string): Promise<string>;
   onMessage(handler: MessageHandler): void;
   onAudioMessage?(handler: AudioMessageHandler): void;
   onInteraction(handler: InteractionHandler): void;
@@ -191,7 +406,16 @@ export interface IMAdapter {
   sendProjectSelectionCard?(
     channel: string,
     projects: Array<{ name: string; path: string }>,
-    pendingPrompt: string
+    pendingPrompt: string,
+    threadTs?: string
+  ): Promise<string>;
+  // Optional permission confirmation card (Allow / Deny)
+  sendPermissionCard?(
+    channel: string,
+    requestId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    threadTs?: string
   ): Promise<string>;
   // Optional snippet upload for showing diffs
   uploadSnippet?(
@@ -204,6 +428,9 @@ export interface IMAdapter {
       initialComment?: string;
     }
   ): Promise<void>;
+  // Optional: send Claude's thinking in a collapsed section
+  // (the message processor falls back to a context block)
+  sendThinkingMessage?(channel: string, thinking: string, threadTs?: string): Promise<string>;
   // Optional interactive message with custom blocks
   sendInteractiveMessage?(
     channel: string,
@@ -213,6 +440,21 @@ export interface IMAdapter {
   ): Promise<string>;
 }
 
+/**
+ * Describes an adapter to the registry: how `hmdg init` sets it up and how the server creates it
+ */
+export interface AdapterDefinition {
+  name: string;
+  label: string;
+  // Steps shown before asking for the config in `hmdg init`
+  setupGuide?: string;
+  // Post an online notice to known channels after starting
+  announceOnline?: boolean;
+  getConfigTemplate(): ConfigField[] | Promise<ConfigField[]>;
+  validateConfig?(config: unknown): ValidationResult | Promise<ValidationResult>;
+  create(config: Record<string, unknown>): IMAdapter | Promise<IMAdapter>;
+}
+
 // Service Status
 
 export interface ServiceStatus {
@@ -220,6 +462,6 @@ export interface ServiceStatus {
   pid?: number;
   port?: number;
   uptime?: number;
-  adapter?: string;
+  adapters?: string[];
   projectDir?: string;
 }